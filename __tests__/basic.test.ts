@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals"
+import { type FileStat } from "webdav"
+import { startTestServer, type TestServer } from "./helpers/server"
+
+describe("basic", () => {
+	let t: TestServer
+
+	beforeAll(async () => {
+		t = await startTestServer()
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	it("advertises class 1 and 2 compliance on OPTIONS", async () => {
+		const response = await t.request("OPTIONS", "/")
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get("dav")).toMatch(/\b1\b.*\b2\b/)
+		expect(response.headers.get("allow")).toContain("PROPFIND")
+	})
+
+	it("rejects requests without credentials", async () => {
+		const response = await t.request("PROPFIND", "/", { auth: false, headers: { Depth: "0" } })
+
+		expect(response.status).toBe(401)
+		expect(response.headers.get("www-authenticate")).toMatch(/^Basic/)
+	})
+
+	it("rejects wrong credentials", async () => {
+		const response = await t.request("GET", "/", {
+			auth: false,
+			headers: { Authorization: `Basic ${Buffer.from("admin:wrong").toString("base64")}` }
+		})
+
+		expect(response.status).toBe(401)
+	})
+
+	it("stores and returns a file with PUT and GET", async () => {
+		await t.client.putFileContents("/basic.txt", "This is\na test file.\n")
+
+		expect(await t.client.getFileContents("/basic.txt", { format: "text" })).toBe("This is\na test file.\n")
+	})
+
+	it("overwrites an existing file with PUT", async () => {
+		const created = await t.request("PUT", "/overwrite.txt", { body: "first" })
+		const overwritten = await t.request("PUT", "/overwrite.txt", { body: "second" })
+
+		expect(created.status).toBe(201)
+		expect(overwritten.status).toBeLessThan(300)
+		expect(await t.client.getFileContents("/overwrite.txt", { format: "text" })).toBe("second")
+	})
+
+	it("handles UTF-8 and percent encoded path segments", async () => {
+		await t.client.putFileContents("/€ höhe & 100%.txt", "utf8")
+
+		expect(await t.client.getFileContents("/€ höhe & 100%.txt", { format: "text" })).toBe("utf8")
+		expect((await t.request("GET", `/${encodeURIComponent("€ höhe & 100%.txt")}`)).body).toBe("utf8")
+	})
+
+	it("answers HEAD with the headers of GET but no body", async () => {
+		await t.client.putFileContents("/head.txt", "0123456789")
+
+		const response = await t.request("HEAD", "/head.txt")
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get("content-length")).toBe("10")
+		expect(response.body).toBe("")
+	})
+
+	it("returns 404 for GET and HEAD on missing resources", async () => {
+		expect((await t.request("GET", "/missing.txt")).status).toBe(404)
+		expect((await t.request("HEAD", "/missing.txt")).status).toBe(404)
+	})
+
+	it("creates a collection with MKCOL", async () => {
+		const response = await t.request("MKCOL", "/coll")
+
+		expect(response.status).toBe(201)
+		expect(((await t.client.stat("/coll")) as FileStat).type).toBe("directory")
+	})
+
+	it("refuses MKCOL on an existing collection", async () => {
+		expect((await t.request("MKCOL", "/coll")).status).toBe(405)
+	})
+
+	it("refuses MKCOL on an existing file", async () => {
+		expect((await t.request("MKCOL", "/basic.txt")).status).toBe(405)
+	})
+
+	it("refuses MKCOL without an existing parent", async () => {
+		expect((await t.request("MKCOL", "/missing/coll")).status).toBe(409)
+	})
+
+	it("refuses MKCOL with a request body", async () => {
+		const response = await t.request("MKCOL", "/coll-with-body", {
+			headers: { "Content-Type": "application/xml" },
+			body: '<?xml version="1.0"?><foo/>'
+		})
+
+		expect(response.status).toBe(415)
+	})
+
+	it("creates missing parent collections on PUT", async () => {
+		expect((await t.request("PUT", "/put-parent/sub/file.txt", { body: "test" })).status).toBe(201)
+		expect(((await t.client.stat("/put-parent/sub")) as FileStat).type).toBe("directory")
+	})
+
+	it("refuses PUT on a collection", async () => {
+		expect((await t.request("PUT", "/coll", { body: "test" })).status).toBe(403)
+	})
+
+	it("deletes a file", async () => {
+		await t.client.putFileContents("/delete.txt", "delete me")
+
+		expect((await t.request("DELETE", "/delete.txt")).status).toBeLessThan(300)
+		expect(await t.client.exists("/delete.txt")).toBe(false)
+	})
+
+	it("returns 404 when deleting a missing resource", async () => {
+		expect((await t.request("DELETE", "/missing.txt")).status).toBe(404)
+	})
+
+	it("deletes a collection with all of it's members", async () => {
+		await t.client.createDirectory("/delete-coll/sub", { recursive: true })
+		await t.client.putFileContents("/delete-coll/sub/file.txt", "nested")
+
+		expect((await t.request("DELETE", "/delete-coll")).status).toBeLessThan(300)
+		expect(await t.client.exists("/delete-coll")).toBe(false)
+		expect(await t.client.exists("/delete-coll/sub/file.txt")).toBe(false)
+	})
+
+	it("lists the members of a collection", async () => {
+		await t.client.createDirectory("/list")
+		await t.client.putFileContents("/list/a.txt", "a")
+		await t.client.putFileContents("/list/b.txt", "bb")
+		await t.client.createDirectory("/list/c")
+
+		const contents = (await t.client.getDirectoryContents("/list")) as FileStat[]
+
+		expect(contents.map(item => [item.basename, item.type, item.size]).sort()).toEqual([
+			["a.txt", "file", 1],
+			["b.txt", "file", 2],
+			["c", "directory", 0]
+		])
+	})
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals"
+import { UPLOAD_CHUNK_SIZE } from "@filen/sdk"
+import { MemoryStorageBackend } from "../src"
+import { startTestServer, USERNAME, PASSWORD, type TestServer } from "./helpers/server"
+
+/**
+ * An in-memory storage backend that records the byte ranges read from it.
+ */
+class CountingStorageBackend extends MemoryStorageBackend {
+	public readonly reads: { start?: number; end?: number }[] = []
+
+	public override createReadStream(options: Parameters<MemoryStorageBackend["createReadStream"]>[0]) {
+		this.reads.push({ start: options.start, end: options.end })
+
+		return super.createReadStream(options)
+	}
+}
+
+describe("chunk cache", () => {
+	const storage = new CountingStorageBackend()
+	const content = Array.from({ length: Math.floor(UPLOAD_CHUNK_SIZE * 2.5) }, (_, i) => String.fromCharCode(97 + (i % 26))).join("")
+	let t: TestServer
+
+	beforeAll(async () => {
+		t = await startTestServer({
+			user: {
+				username: USERNAME,
+				password: PASSWORD,
+				storage
+			},
+			chunkCacheSize: UPLOAD_CHUNK_SIZE * 8
+		})
+
+		await t.client.putFileContents("/large.txt", content)
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	it("serves repeated range reads from cached chunks", async () => {
+		const start = UPLOAD_CHUNK_SIZE + 10
+		const range = `bytes=${start}-${start + 99}`
+
+		expect((await t.request("GET", "/large.txt", { headers: { Range: range } })).body).toBe(content.slice(start, start + 100))
+		expect(storage.reads).toEqual([{ start: UPLOAD_CHUNK_SIZE, end: UPLOAD_CHUNK_SIZE * 2 - 1 }])
+
+		expect((await t.request("GET", "/large.txt", { headers: { Range: range } })).body).toBe(content.slice(start, start + 100))
+		expect(storage.reads).toHaveLength(1)
+	})
+
+	it("only fetches the chunks that are missing", async () => {
+		expect((await t.request("GET", "/large.txt")).body).toBe(content)
+		expect(storage.reads.slice(1)).toEqual([
+			{ start: 0, end: UPLOAD_CHUNK_SIZE - 1 },
+			{ start: UPLOAD_CHUNK_SIZE * 2, end: content.length - 1 }
+		])
+
+		expect((await t.request("GET", "/large.txt")).body).toBe(content)
+		expect(storage.reads).toHaveLength(3)
+	})
+
+	it("does not serve cached chunks of a previous version", async () => {
+		await t.client.putFileContents("/large.txt", content.toUpperCase())
+
+		expect((await t.request("GET", "/large.txt", { headers: { Range: "bytes=0-9" } })).body).toBe(content.slice(0, 10).toUpperCase())
+	})
+})
+
+describe("chunk cache defaults", () => {
+	const storage = new CountingStorageBackend()
+	let t: TestServer
+
+	beforeAll(async () => {
+		t = await startTestServer({
+			user: {
+				username: USERNAME,
+				password: PASSWORD,
+				storage
+			}
+		})
+
+		await t.client.putFileContents("/file.txt", "uncached")
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	it("does not cache downloaded content unless enabled", async () => {
+		expect((await t.request("GET", "/file.txt")).body).toBe("uncached")
+		expect((await t.request("GET", "/file.txt")).body).toBe("uncached")
+		expect(storage.reads).toHaveLength(2)
+	})
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals"
+import { startTestServer, USERNAME, type TestServer } from "./helpers/server"
+
+describe("copymove", () => {
+	let t: TestServer
+
+	beforeAll(async () => {
+		t = await startTestServer()
+
+		await t.client.putFileContents("/source.txt", "source")
+		await t.client.createDirectory("/coll/sub", { recursive: true })
+		await t.client.putFileContents("/coll/a.txt", "a")
+		await t.client.putFileContents("/coll/sub/b.txt", "b")
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	const destination = (path: string, overwrite?: "T" | "F"): Record<string, string> => ({
+		Destination: `${t.url}${path}`,
+		...(overwrite ? { Overwrite: overwrite } : {})
+	})
+
+	it("copies a file to a new destination", async () => {
+		expect((await t.request("COPY", "/source.txt", { headers: destination("/copy.txt") })).status).toBe(201)
+		expect(await t.client.getFileContents("/copy.txt", { format: "text" })).toBe("source")
+		expect(await t.client.getFileContents("/source.txt", { format: "text" })).toBe("source")
+	})
+
+	it("refuses to overwrite an existing destination with Overwrite: F", async () => {
+		await t.client.putFileContents("/existing.txt", "existing")
+
+		expect((await t.request("COPY", "/source.txt", { headers: destination("/existing.txt", "F") })).status).toBe(412)
+		expect(await t.client.getFileContents("/existing.txt", { format: "text" })).toBe("existing")
+	})
+
+	it("overwrites an existing destination with Overwrite: T", async () => {
+		expect((await t.request("COPY", "/source.txt", { headers: destination("/existing.txt", "T") })).status).toBe(204)
+		expect(await t.client.getFileContents("/existing.txt", { format: "text" })).toBe("source")
+	})
+
+	it("overwrites an existing destination without an Overwrite header", async () => {
+		await t.client.putFileContents("/default.txt", "default")
+
+		expect((await t.request("COPY", "/source.txt", { headers: destination("/default.txt") })).status).toBe(204)
+		expect(await t.client.getFileContents("/default.txt", { format: "text" })).toBe("source")
+	})
+
+	it("refuses to copy into a missing collection", async () => {
+		expect((await t.request("COPY", "/source.txt", { headers: destination("/missing/copy.txt") })).status).toBe(409)
+	})
+
+	it("refuses to copy a resource onto itself", async () => {
+		expect((await t.request("COPY", "/source.txt", { headers: destination("/source.txt") })).status).toBe(403)
+	})
+
+	it("refuses to copy a collection into itself", async () => {
+		expect((await t.request("COPY", "/coll", { headers: destination("/coll/sub/coll") })).status).toBe(403)
+	})
+
+	it("returns 404 when copying a missing resource", async () => {
+		expect((await t.request("COPY", "/missing.txt", { headers: destination("/copy-missing.txt") })).status).toBe(404)
+	})
+
+	it("refuses COPY without a Destination header", async () => {
+		expect((await t.request("COPY", "/source.txt")).status).toBe(400)
+	})
+
+	it("copies a collection with all of it's members", async () => {
+		expect((await t.request("COPY", "/coll", { headers: { ...destination("/coll-copy"), Depth: "infinity" } })).status).toBe(201)
+		expect(await t.client.getFileContents("/coll-copy/a.txt", { format: "text" })).toBe("a")
+		expect(await t.client.getFileContents("/coll-copy/sub/b.txt", { format: "text" })).toBe("b")
+	})
+
+	it("copies only the collection itself with Depth: 0", async () => {
+		expect((await t.request("COPY", "/coll", { headers: { ...destination("/coll-shallow"), Depth: "0" } })).status).toBe(201)
+		expect(await t.client.exists("/coll-shallow")).toBe(true)
+		expect(await t.client.getDirectoryContents("/coll-shallow")).toEqual([])
+	})
+
+	it("refuses to copy a collection with Depth: 1", async () => {
+		expect((await t.request("COPY", "/coll", { headers: { ...destination("/coll-depth"), Depth: "1" } })).status).toBe(400)
+	})
+
+	it("moves a file", async () => {
+		await t.client.putFileContents("/move.txt", "move")
+
+		expect((await t.request("MOVE", "/move.txt", { headers: destination("/moved.txt") })).status).toBe(201)
+		expect(await t.client.exists("/move.txt")).toBe(false)
+		expect(await t.client.getFileContents("/moved.txt", { format: "text" })).toBe("move")
+	})
+
+	it("refuses to move onto an existing destination with Overwrite: F", async () => {
+		expect((await t.request("MOVE", "/moved.txt", { headers: destination("/existing.txt", "F") })).status).toBe(412)
+		expect(await t.client.exists("/moved.txt")).toBe(true)
+	})
+
+	it("moves onto an existing destination with Overwrite: T", async () => {
+		expect((await t.request("MOVE", "/moved.txt", { headers: destination("/existing.txt", "T") })).status).toBe(204)
+		expect(await t.client.exists("/moved.txt")).toBe(false)
+		expect(await t.client.getFileContents("/existing.txt", { format: "text" })).toBe("move")
+	})
+
+	it("refuses to move into a missing collection", async () => {
+		expect((await t.request("MOVE", "/source.txt", { headers: destination("/missing/moved.txt") })).status).toBe(409)
+	})
+
+	it("refuses to move a collection with a Depth other than infinity", async () => {
+		expect((await t.request("MOVE", "/coll", { headers: { ...destination("/coll-depth"), Depth: "0" } })).status).toBe(400)
+		expect(await t.client.exists("/coll/a.txt")).toBe(true)
+	})
+
+	it("moves a collection with all of it's members", async () => {
+		expect((await t.request("MOVE", "/coll-copy", { headers: destination("/coll-moved") })).status).toBe(201)
+		expect(await t.client.exists("/coll-copy")).toBe(false)
+		expect(await t.client.getFileContents("/coll-moved/sub/b.txt", { format: "text" })).toBe("b")
+	})
+
+	it("replaces a collection when moving onto it with Overwrite: T", async () => {
+		expect((await t.request("MOVE", "/coll-moved", { headers: destination("/coll-shallow", "T") })).status).toBe(204)
+		expect(await t.client.exists("/coll-moved")).toBe(false)
+		expect(await t.client.getFileContents("/coll-shallow/a.txt", { format: "text" })).toBe("a")
+	})
+
+	it("replaces virtual files with stored files", async () => {
+		const lock = async (path: string): Promise<Record<string, string>> => {
+			const response = await t.request("LOCK", path, {
+				body: '<?xml version="1.0" encoding="utf-8"?><D:lockinfo xmlns:D="DAV:"><D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockinfo>'
+			})
+
+			expect(response.status).toBe(201)
+
+			return { ...destination(path), If: `<${path}> (${response.headers.get("lock-token")})` }
+		}
+
+		const copyHeaders = await lock("/virtual-copy.txt")
+		const moveHeaders = await lock("/virtual-move.txt")
+
+		await t.client.putFileContents("/stored.txt", "stored")
+
+		expect((await t.request("COPY", "/stored.txt", { headers: copyHeaders })).status).toBe(204)
+		expect(await t.client.getFileContents("/virtual-copy.txt", { format: "text" })).toBe("stored")
+		expect((await t.request("MOVE", "/stored.txt", { headers: moveHeaders })).status).toBe(204)
+		expect(await t.client.getFileContents("/virtual-move.txt", { format: "text" })).toBe("stored")
+		expect(t.server.getVirtualFilesForUser(USERNAME)).toEqual({})
+	})
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from "@jest/globals"
+import { Readable } from "stream"
+import { Jimp, JimpMime } from "jimp"
+import { imageDimensions } from "../src/thumbnails"
+import { startTestServer, USERNAME, PASSWORD, type TestServer } from "./helpers/server"
+import { readZip } from "./helpers/zip"
+
+describe("extensions", () => {
+	let t: TestServer
+
+	/**
+	 * Request a binary response, the request helper decodes bodies as text.
+	 */
+	const download = async (path: string, headers: Record<string, string> = {}) => {
+		const response = await fetch(`${t.url}${path}`, {
+			headers: {
+				Authorization: `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString("base64")}`,
+				...headers
+			}
+		})
+
+		return {
+			status: response.status,
+			headers: response.headers,
+			body: Buffer.from(await response.arrayBuffer())
+		}
+	}
+
+	beforeAll(async () => {
+		t = await startTestServer()
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	describe("thumbnails", () => {
+		let image: Buffer
+
+		beforeAll(async () => {
+			image = await new Jimp({ width: 400, height: 200, color: 0xff0000ff }).getBuffer(JimpMime.png)
+
+			await t.storage.writeFile({ path: "/image.png", source: Readable.from([image]) })
+		})
+
+		it("scales an image down to fit into the requested size", async () => {
+			const response = await download("/image.png?thumbnail=100x100")
+
+			expect(response.status).toBe(200)
+			expect(response.headers.get("content-type")).toBe("image/png")
+			expect(imageDimensions(response.body)).toEqual({ width: 100, height: 50 })
+		})
+
+		it("generates a thumbnail requested concurrently only once", async () => {
+			const read = jest.spyOn(t.storage, "createReadStream")
+			const responses = await Promise.all([download("/image.png?thumbnail=64x64"), download("/image.png?thumbnail=64x64")])
+
+			expect(responses.map(response => response.status)).toEqual([200, 200])
+			expect(read).toHaveBeenCalledTimes(1)
+
+			read.mockRestore()
+		})
+
+		it("refuses images whose dimensions are too large to decode", async () => {
+			const huge = Buffer.from(image)
+
+			huge.writeUInt32BE(100000, 16)
+			huge.writeUInt32BE(100000, 20)
+
+			await t.storage.writeFile({ path: "/huge.png", source: Readable.from([huge]) })
+
+			expect((await download("/huge.png?thumbnail=100x100")).status).toBe(415)
+		})
+
+		it("refuses malformed sizes", async () => {
+			expect((await download("/image.png?thumbnail=0x100")).status).toBe(400)
+		})
+	})
+
+	describe("archives", () => {
+		beforeAll(async () => {
+			await t.client.createDirectory("/archive/sub", { recursive: true })
+			await t.client.putFileContents("/archive/a.txt", "a")
+			await t.client.putFileContents("/archive/sub/b.txt", "b".repeat(100000))
+			await t.storage.writeFile({ path: "/archive/empty.txt", source: Readable.from([]) })
+		})
+
+		it("streams a collection as a ZIP archive with format=zip", async () => {
+			const response = await download("/archive/?format=zip")
+
+			expect(response.status).toBe(200)
+			expect(response.headers.get("content-type")).toBe("application/zip")
+			expect(response.headers.get("content-disposition")).toContain('filename="archive.zip"')
+			expect(readZip(response.body)).toEqual({
+				"a.txt": "a",
+				"empty.txt": "",
+				"sub/": null,
+				"sub/b.txt": "b".repeat(100000)
+			})
+		})
+
+		it("streams a collection as a ZIP archive with Accept: application/zip", async () => {
+			const response = await download("/archive/sub/", { Accept: "application/zip" })
+
+			expect(response.status).toBe(200)
+			expect(Object.keys(readZip(response.body))).toEqual(["b.txt"])
+		})
+	})
+
+	describe("directory browser", () => {
+		let browser: TestServer
+
+		beforeAll(async () => {
+			browser = await startTestServer({ enableDirectoryBrowser: true })
+
+			await browser.client.createDirectory("/browse/sub", { recursive: true })
+			await browser.client.putFileContents("/browse/<b>.txt", "escaped")
+			await browser.client.putFileContents("/browse/file name.txt", "file")
+		})
+
+		afterAll(async () => {
+			await browser.stop()
+		})
+
+		const html = (test: TestServer, path: string) => test.request("GET", path, { headers: { Accept: "text/html" } })
+
+		it("renders the index of a collection for browsers", async () => {
+			const response = await html(browser, "/browse/")
+
+			expect(response.status).toBe(200)
+			expect(response.headers.get("content-type")).toContain("text/html")
+			expect(response.body).toContain('<a href="/browse/sub/">sub/</a>')
+			expect(response.body).toContain('<a href="/browse/file%20name.txt">file name.txt</a>')
+			expect(response.body).toContain('<a href="/">../</a>')
+			expect(response.body).toContain('<form id="upload">')
+		})
+
+		it("escapes names", async () => {
+			const response = await html(browser, "/browse/")
+
+			expect(response.body).toContain("&lt;b&gt;.txt")
+			expect(response.body).not.toContain("<b>.txt")
+		})
+
+		it("answers other clients as before", async () => {
+			expect((await browser.request("GET", "/browse/")).headers.get("content-type") ?? "").not.toContain("text/html")
+		})
+
+		it("is disabled by default", async () => {
+			await t.client.createDirectory("/browse")
+
+			expect((await html(t, "/browse/")).headers.get("content-type") ?? "").not.toContain("text/html")
+		})
+	})
+})
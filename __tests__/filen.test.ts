@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals"
+import { Readable } from "stream"
+import WebDAVServer, { MemoryStorageBackend } from "../src"
+import { startTestServer, startFilenTestServer, propfindBody, hrefs, USERNAME, PASSWORD, type TestServer } from "./helpers/server"
+import { readZip } from "./helpers/zip"
+
+describe("filen", () => {
+	describe("versions", () => {
+		let t: TestServer
+		let previous: string
+
+		beforeAll(async () => {
+			t = await startFilenTestServer({ enableVersions: true })
+
+			await t.client.putFileContents("/doc.txt", "old")
+
+			previous = (await t.storage.stat({ path: "/doc.txt" })).uuid
+
+			await t.client.putFileContents("/doc.txt", "new")
+
+			const current = (await t.storage.stat({ path: "/doc.txt" })).uuid
+
+			t.sdk!.versions[current] = [
+				{ uuid: previous, name: "doc.txt", content: "old", timestamp: 1 },
+				{ uuid: current, name: "doc.txt", content: "new", timestamp: 2 }
+			]
+		})
+
+		afterAll(async () => {
+			await t.stop()
+		})
+
+		const destination = (path: string): Record<string, string> => ({
+			Destination: `${t.url}${path}`
+		})
+
+		it("links a file to it's version history", async () => {
+			const response = await t.request("PROPFIND", "/doc.txt", {
+				headers: { Depth: "0" },
+				body: propfindBody("<D:version-history/>")
+			})
+
+			expect(response.body).toContain("<D:version-history><D:href>/.versions/doc.txt/</D:href></D:version-history>")
+		})
+
+		it("does not link virtual files in a listing to a version history", async () => {
+			await t.request("LOCK", "/locked.txt", {
+				headers: { Timeout: "Second-60" },
+				body: '<?xml version="1.0" encoding="utf-8"?><D:lockinfo xmlns:D="DAV:"><D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockinfo>'
+			})
+
+			const response = await t.request("PROPFIND", "/", {
+				headers: { Depth: "1" },
+				body: propfindBody("<D:version-history/>")
+			})
+
+			expect(hrefs(response.body)).toContain("/locked.txt")
+			expect(response.body).toContain("<D:href>/.versions/doc.txt/</D:href>")
+			expect(response.body).not.toContain("/.versions/locked.txt/")
+		})
+
+		it("lists the versions of a file", async () => {
+			const response = await t.request("PROPFIND", "/.versions/doc.txt/", { headers: { Depth: "1" } })
+
+			expect(response.status).toBe(207)
+			expect(hrefs(response.body)).toContain(`/.versions/doc.txt/${previous}.txt`)
+		})
+
+		it("mirrors the drive", async () => {
+			expect(hrefs((await t.request("PROPFIND", "/.versions/", { headers: { Depth: "1" } })).body)).toContain("/.versions/doc.txt/")
+		})
+
+		it("refuses writes into the namespace", async () => {
+			expect((await t.request("PUT", "/.versions/doc.txt/new.txt", { body: "new" })).status).toBe(403)
+			expect((await t.request("PUT", "/.versions?x=y", { body: "new" })).status).toBe(403)
+		})
+
+		it("refuses a restore whose precondition fails", async () => {
+			const response = await t.request("COPY", `/.versions/doc.txt/${previous}.txt`, {
+				headers: { ...destination("/doc.txt"), "If-Match": '"stale"' }
+			})
+
+			expect(response.status).toBe(412)
+			expect(await t.client.getFileContents("/doc.txt", { format: "text" })).toBe("new")
+		})
+
+		it("restores a version by copying it onto it's file", async () => {
+			expect((await t.request("COPY", `/.versions/doc.txt/${previous}.txt`, { headers: destination("/doc.txt") })).status).toBe(204)
+			expect(await t.client.getFileContents("/doc.txt", { format: "text" })).toBe("old")
+		})
+	})
+
+	describe("trash", () => {
+		let t: TestServer
+
+		beforeAll(async () => {
+			t = await startFilenTestServer({ enableTrash: true })
+
+			for (const name of ["restore.txt", "delete.txt"]) {
+				await t.client.putFileContents(`/${name}`, name)
+				await t.sdk!.trash(`/${name}`)
+			}
+
+			await t.storage.mkdir({ path: "/.trash" })
+			await t.storage.writeFile({ path: "/.trash/real.txt", source: Readable.from([Buffer.from("real")]) })
+		})
+
+		afterAll(async () => {
+			await t.stop()
+		})
+
+		it("lists trashed items", async () => {
+			const response = await t.request("PROPFIND", "/.trash/", { headers: { Depth: "1" } })
+
+			expect(response.status).toBe(207)
+			expect(hrefs(response.body)).toEqual(expect.arrayContaining(["/.trash/restore.txt", "/.trash/delete.txt"]))
+		})
+
+		it("lists the trash in the root collection", async () => {
+			expect(hrefs((await t.request("PROPFIND", "/", { headers: { Depth: "1" } })).body)).toContain("/.trash/")
+		})
+
+		it("hides a real .trash folder", async () => {
+			const children = hrefs((await t.request("PROPFIND", "/", { headers: { Depth: "1" } })).body)
+			const descendants = hrefs((await t.request("PROPFIND", "/", { headers: { Depth: "infinity" } })).body)
+
+			expect(children.filter(href => href === "/.trash/")).toHaveLength(1)
+			expect(descendants).not.toContain("/.trash/")
+			expect(descendants).not.toContain("/.trash/real.txt")
+			expect(hrefs((await t.request("PROPFIND", "/.trash/", { headers: { Depth: "1" } })).body)).not.toContain("/.trash/real.txt")
+		})
+
+		it("leaves the trash out of an archive of the drive", async () => {
+			const response = await fetch(`${t.url}/?format=zip`, {
+				headers: {
+					Authorization: `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString("base64")}`
+				}
+			})
+			const entries = Object.keys(readZip(Buffer.from(await response.arrayBuffer())))
+
+			expect(response.status).toBe(200)
+			expect(entries.some(entry => entry.startsWith(".trash/"))).toBe(false)
+		})
+
+		it("refuses writes into the trash", async () => {
+			expect((await t.request("PUT", "/.trash/new.txt", { body: "new" })).status).toBe(403)
+			expect((await t.request("PUT", "/.trash?x=y", { body: "new" })).status).toBe(403)
+		})
+
+		it("restores an item by moving it out of the trash", async () => {
+			const response = await t.request("MOVE", "/.trash/restore.txt", { headers: { Destination: `${t.url}/restore.txt` } })
+
+			expect(response.status).toBe(201)
+			expect(await t.client.getFileContents("/restore.txt", { format: "text" })).toBe("restore.txt")
+			expect(t.sdk!.trashed.map(item => item.name)).not.toContain("restore.txt")
+		})
+
+		it("deletes an item permanently", async () => {
+			expect((await t.request("DELETE", "/.trash/delete.txt")).status).toBe(200)
+			expect(t.sdk!.trashed).toHaveLength(0)
+			expect((await t.request("PROPFIND", "/.trash/delete.txt", { headers: { Depth: "0" } })).status).toBe(404)
+		})
+	})
+
+	describe("versions disabled", () => {
+		let t: TestServer
+
+		beforeAll(async () => {
+			t = await startTestServer()
+		})
+
+		afterAll(async () => {
+			await t.stop()
+		})
+
+		it("serves a real .versions folder", async () => {
+			await t.client.createDirectory("/.versions")
+			await t.client.putFileContents("/.versions/file.txt", "content")
+
+			expect(await t.client.getFileContents("/.versions/file.txt", { format: "text" })).toBe("content")
+		})
+
+		it("refuses versions for other storage backends", () => {
+			expect(
+				() =>
+					new WebDAVServer({
+						user: {
+							username: USERNAME,
+							password: PASSWORD,
+							storage: new MemoryStorageBackend()
+						},
+						enableVersions: true
+					})
+			).toThrow()
+		})
+	})
+})
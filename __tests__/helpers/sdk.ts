@@ -0,0 +1,196 @@
+import { type FilenSDK } from "@filen/sdk"
+import { Readable } from "stream"
+import { type MemoryStorageBackend } from "../../src"
+
+export type FakeVersion = {
+	uuid: string
+	name: string
+	content: string
+	timestamp: number
+}
+
+/**
+ * Find the path of an item of the storage by it's UUID.
+ *
+ * @async
+ * @param {MemoryStorageBackend} storage
+ * @param {string} uuid
+ * @returns {Promise<string>}
+ */
+async function pathOf(storage: MemoryStorageBackend, uuid: string): Promise<string> {
+	const root = await storage.stat({ path: "/" })
+
+	if (root.uuid === uuid) {
+		return "/"
+	}
+
+	const tree = await storage.tree({ path: "/", uuid: root.uuid })
+	const path = Object.keys(tree).find(path => tree[path]!.uuid === uuid)
+
+	if (!path) {
+		throw new Error(`Item ${uuid} not found.`)
+	}
+
+	return path
+}
+
+/**
+ * FakeSDK
+ * Stands in for the parts of a logged in FilenSDK the Filen only features use (file versions and the trash), backed by an in-memory storage.
+ * Versions and trashed items are seeded by the tests.
+ *
+ * @export
+ * @class FakeSDK
+ * @typedef {FakeSDK}
+ */
+export class FakeSDK {
+	/**
+	 * The versions of a file, keyed by the UUID of it's current version.
+	 */
+	public readonly versions: Record<string, FakeVersion[]> = {}
+	/**
+	 * Trashed items with the content and the UUID of the directory they were trashed from.
+	 */
+	public readonly trashed: { uuid: string; name: string; content: string; parent: string }[] = []
+
+	public readonly socket = {
+		on: (): void => {}
+	}
+
+	public readonly utils = {
+		convertTimestampToMs: (timestamp: number): number => timestamp
+	}
+
+	/**
+	 * Creates an instance of FakeSDK.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {MemoryStorageBackend} storage
+	 */
+	public constructor(private readonly storage: MemoryStorageBackend) {}
+
+	/**
+	 * Move an existing file to the trash.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} path
+	 * @returns {Promise<void>}
+	 */
+	public async trash(path: string): Promise<void> {
+		const stat = await this.storage.stat({ path })
+		const parent = await this.storage.stat({ path: path.slice(0, path.lastIndexOf("/")) || "/" })
+		const chunks: Buffer[] = []
+
+		for await (const chunk of this.storage.createReadStream({ path, file: stat as never })) {
+			chunks.push(chunk as Buffer)
+		}
+
+		await this.storage.unlink({ path, permanent: false })
+
+		this.trashed.push({
+			uuid: stat.uuid,
+			name: stat.name,
+			content: Buffer.concat(chunks).toString("utf-8"),
+			parent: parent.uuid
+		})
+	}
+
+	public fs() {
+		return {
+			stat: ({ path }: { path: string }) => this.storage.stat({ path }),
+			_removeItem: async (): Promise<void> => {},
+			_addItem: async (): Promise<void> => {}
+		}
+	}
+
+	public crypto() {
+		return {
+			decrypt: () => ({
+				fileMetadata: async ({ metadata }: { metadata: string }) => JSON.parse(metadata)
+			})
+		}
+	}
+
+	public cloud() {
+		return {
+			fileVersions: async ({ uuid }: { uuid: string }) => ({
+				versions: (this.versions[uuid] ?? []).map(version => ({
+					uuid: version.uuid,
+					bucket: "bucket",
+					region: "region",
+					version: 2,
+					chunks: 1,
+					timestamp: version.timestamp,
+					metadata: JSON.stringify({
+						name: version.name,
+						size: Buffer.byteLength(version.content),
+						mime: "text/plain",
+						key: "key",
+						lastModified: version.timestamp,
+						hash: version.uuid
+					})
+				}))
+			}),
+			restoreFileVersion: async ({ uuid, currentUUID }: { uuid: string; currentUUID: string }): Promise<void> => {
+				const version = (this.versions[currentUUID] ?? []).find(version => version.uuid === uuid)
+
+				if (!version) {
+					throw new Error(`Version ${uuid} not found.`)
+				}
+
+				await this.storage.writeFile({
+					path: await pathOf(this.storage, currentUUID),
+					source: Readable.from([Buffer.from(version.content)])
+				})
+			},
+			listTrash: async () =>
+				this.trashed.map(item => ({
+					type: "file",
+					uuid: item.uuid,
+					name: item.name,
+					size: Buffer.byteLength(item.content),
+					mime: "text/plain",
+					key: "key",
+					lastModified: 0,
+					timestamp: 0,
+					parent: item.parent,
+					rm: "",
+					version: 2,
+					chunks: 1,
+					favorited: false,
+					bucket: "bucket",
+					region: "region"
+				})),
+			restoreFile: async ({ uuid }: { uuid: string }): Promise<void> => {
+				const index = this.trashed.findIndex(item => item.uuid === uuid)
+				const item = this.trashed[index]!
+				const parent = await pathOf(this.storage, item.parent)
+
+				await this.storage.writeFile({
+					path: parent === "/" ? `/${item.name}` : `${parent}/${item.name}`,
+					source: Readable.from([Buffer.from(item.content)])
+				})
+
+				this.trashed.splice(index, 1)
+			},
+			deleteFile: async ({ uuid }: { uuid: string }): Promise<void> => {
+				this.trashed.splice(
+					this.trashed.findIndex(item => item.uuid === uuid),
+					1
+				)
+			}
+		}
+	}
+
+	/**
+	 * Use the fake where the server expects a FilenSDK instance.
+	 *
+	 * @public
+	 * @returns {FilenSDK}
+	 */
+	public asSDK(): FilenSDK {
+		return this as unknown as FilenSDK
+	}
+}
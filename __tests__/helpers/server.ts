@@ -0,0 +1,179 @@
+import { type AddressInfo } from "net"
+import { createClient, type WebDAVClient } from "webdav"
+import WebDAVServer, { MemoryStorageBackend } from "../../src"
+import { FakeSDK } from "./sdk"
+
+export const USERNAME = "admin"
+export const PASSWORD = "admin"
+
+export type TestResponse = {
+	status: number
+	headers: Headers
+	body: string
+}
+
+export type TestServer = {
+	server: WebDAVServer
+	storage: MemoryStorageBackend
+	sdk: FakeSDK | null
+	url: string
+	client: WebDAVClient
+	request: (
+		method: string,
+		path: string,
+		options?: {
+			headers?: Record<string, string>
+			body?: string
+			auth?: boolean
+		}
+	) => Promise<TestResponse>
+	stop: () => Promise<void>
+}
+
+/**
+ * Start a server on an ephemeral port, serving an in-memory storage backend in place of a Filen account.
+ * Returns a WebDAV client for high level operations and a raw request helper for asserting exact status codes and headers.
+ *
+ * @export
+ * @async
+ * @param {?Partial<ConstructorParameters<typeof WebDAVServer>[0]>} [options]
+ * @returns {Promise<TestServer>}
+ */
+export async function startTestServer(options?: Partial<ConstructorParameters<typeof WebDAVServer>[0]>): Promise<TestServer> {
+	const storage = new MemoryStorageBackend()
+	const server = new WebDAVServer({
+		hostname: "127.0.0.1",
+		port: 0,
+		user: {
+			username: USERNAME,
+			password: PASSWORD,
+			storage
+		},
+		disableLogging: true,
+		...options
+	})
+
+	return await serve(server, storage, null)
+}
+
+/**
+ * Start a server on an ephemeral port for a (fake) Filen account, so the Filen only features can be enabled.
+ * Files are kept in an in-memory storage backend, versions and the trash are provided by a FakeSDK.
+ *
+ * @export
+ * @async
+ * @param {?Partial<ConstructorParameters<typeof WebDAVServer>[0]>} [options]
+ * @returns {Promise<TestServer>}
+ */
+export async function startFilenTestServer(options?: Partial<ConstructorParameters<typeof WebDAVServer>[0]>): Promise<TestServer> {
+	const storage = new MemoryStorageBackend()
+	const sdk = new FakeSDK(storage)
+	const server = new WebDAVServer({
+		hostname: "127.0.0.1",
+		port: 0,
+		user: {
+			username: USERNAME,
+			password: PASSWORD,
+			sdk: sdk.asSDK()
+		},
+		disableLogging: true,
+		...options
+	})
+
+	// Served in place of the FilenStorageBackend the server would wrap the SDK in
+	server.users[USERNAME]!.storage = storage
+
+	return await serve(server, storage, sdk)
+}
+
+/**
+ * Start a server and build the test helpers around it.
+ *
+ * @async
+ * @param {WebDAVServer} server
+ * @param {MemoryStorageBackend} storage
+ * @param {(FakeSDK | null)} sdk
+ * @returns {Promise<TestServer>}
+ */
+async function serve(server: WebDAVServer, storage: MemoryStorageBackend, sdk: FakeSDK | null): Promise<TestServer> {
+	await server.start()
+
+	const url = `http://127.0.0.1:${(server.serverInstance!.address() as AddressInfo).port}`
+	const client = createClient(url, {
+		username: USERNAME,
+		password: PASSWORD
+	})
+
+	return {
+		server,
+		storage,
+		sdk,
+		url,
+		client,
+		request: async (method, path, { headers = {}, body, auth = true } = {}) => {
+			const response = await fetch(`${url}${path}`, {
+				method,
+				headers: {
+					...(auth ? { Authorization: `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString("base64")}` } : {}),
+					...headers
+				},
+				body
+			})
+
+			return {
+				status: response.status,
+				headers: response.headers,
+				body: await response.text()
+			}
+		},
+		stop: async () => {
+			await server.stop(true)
+		}
+	}
+}
+
+/**
+ * Wrap properties in a PROPFIND request body.
+ *
+ * @export
+ * @param {string} props
+ * @param {string} [namespaces=""]
+ * @returns {string}
+ */
+export function propfindBody(props: string, namespaces: string = ""): string {
+	return `<?xml version="1.0" encoding="utf-8"?><D:propfind xmlns:D="DAV:"${namespaces}><D:prop>${props}</D:prop></D:propfind>`
+}
+
+/**
+ * Wrap set and remove instructions in a PROPPATCH request body.
+ *
+ * @export
+ * @param {string} instructions
+ * @param {string} [namespaces=""]
+ * @returns {string}
+ */
+export function proppatchBody(instructions: string, namespaces: string = ""): string {
+	return `<?xml version="1.0" encoding="utf-8"?><D:propertyupdate xmlns:D="DAV:"${namespaces}>${instructions}</D:propertyupdate>`
+}
+
+/**
+ * Collect the hrefs of a multistatus response.
+ *
+ * @export
+ * @param {string} body
+ * @returns {string[]}
+ */
+export function hrefs(body: string): string[] {
+	return Array.from(body.matchAll(/<D:href>([^<]*)<\/D:href>/g)).map(match => decodeURIComponent(match[1]!))
+}
+
+/**
+ * Collect the status codes of a multistatus response.
+ *
+ * @export
+ * @param {string} body
+ * @returns {number[]}
+ */
+export function statuses(body: string): number[] {
+	return Array.from(body.matchAll(/<D:status>HTTP\/1\.1 (\d{3})[^<]*<\/D:status>/g)).map(match => parseInt(match[1]!, 10))
+}
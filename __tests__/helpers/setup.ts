@@ -0,0 +1,6 @@
+import fs from "fs"
+import os from "os"
+import pathModule from "path"
+
+// Every test file gets it's own config directory, so dead properties, temporary files and upload sessions never touch the real ones
+process.env.XDG_CONFIG_HOME = fs.mkdtempSync(pathModule.join(os.tmpdir(), "filen-webdav-test-"))
@@ -0,0 +1,28 @@
+import PersistentStore from "../../src/store"
+
+/**
+ * Sets a key of a store file from a separate process, like another worker of a cluster would.
+ * Usage: tsx storeWriter.ts <path> <key> <value>
+ */
+async function main(): Promise<void> {
+	const [path, key, value] = process.argv.slice(2)
+
+	if (!path || !key || typeof value !== "string") {
+		throw new Error("Usage: storeWriter.ts <path> <key> <value>")
+	}
+
+	const store = new PersistentStore<Record<string, string>>(path, () => ({}))
+	const document = await store.load()
+
+	document[key] = value
+
+	store.changed([key])
+
+	await store.flush()
+}
+
+main().catch(e => {
+	console.error(e)
+
+	process.exit(1)
+})
@@ -0,0 +1,38 @@
+import zlib from "zlib"
+
+/**
+ * Read the entries of a ZIP64 archive as written by createZipStream. Directories map to null, files to their content.
+ *
+ * @export
+ * @param {Buffer} archive
+ * @returns {Record<string, string | null>}
+ */
+export function readZip(archive: Buffer): Record<string, string | null> {
+	// The ZIP64 end of central directory record is followed by it's locator (20 bytes) and the classic end record (22 bytes)
+	const end = archive.length - 22 - 20 - 56
+	const count = Number(archive.readBigUInt64LE(end + 24))
+	const entries: Record<string, string | null> = {}
+	let position = Number(archive.readBigUInt64LE(end + 48))
+
+	for (let i = 0; i < count; i++) {
+		const nameLength = archive.readUInt16LE(position + 28)
+		const extraLength = archive.readUInt16LE(position + 30)
+		const commentLength = archive.readUInt16LE(position + 32)
+		const name = archive.subarray(position + 46, position + 46 + nameLength).toString("utf-8")
+		const extra = position + 46 + nameLength
+		const compressedSize = Number(archive.readBigUInt64LE(extra + 12))
+		const offset = Number(archive.readBigUInt64LE(extra + 20))
+
+		if (name.endsWith("/")) {
+			entries[name] = null
+		} else {
+			const data = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28)
+
+			entries[name] = zlib.inflateRawSync(archive.subarray(data, data + compressedSize)).toString("utf-8")
+		}
+
+		position += 46 + nameLength + extraLength + commentLength
+	}
+
+	return entries
+}
@@ -0,0 +1,323 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals"
+import http from "http"
+import crypto from "crypto"
+import { startTestServer, propfindBody, hrefs, USERNAME, PASSWORD, type TestServer } from "./helpers/server"
+
+describe("http", () => {
+	let t: TestServer
+
+	beforeAll(async () => {
+		t = await startTestServer()
+
+		await t.client.putFileContents("/range.txt", "0123456789")
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	describe("ranges", () => {
+		it("returns a byte range with 206", async () => {
+			const response = await t.request("GET", "/range.txt", { headers: { Range: "bytes=2-5" } })
+
+			expect(response.status).toBe(206)
+			expect(response.body).toBe("2345")
+			expect(response.headers.get("content-range")).toBe("bytes 2-5/10")
+			expect(response.headers.get("accept-ranges")).toBe("bytes")
+		})
+
+		it("returns open ended and suffix ranges", async () => {
+			expect((await t.request("GET", "/range.txt", { headers: { Range: "bytes=7-" } })).body).toBe("789")
+			expect((await t.request("GET", "/range.txt", { headers: { Range: "bytes=-3" } })).body).toBe("789")
+		})
+
+		it("refuses unsatisfiable ranges with 416", async () => {
+			const response = await t.request("GET", "/range.txt", { headers: { Range: "bytes=20-30" } })
+
+			expect(response.status).toBe(416)
+			expect(response.headers.get("content-range")).toBe("bytes */10")
+		})
+	})
+
+	describe("conditional requests", () => {
+		it("answers If-None-Match with the current ETag with 304", async () => {
+			const etag = (await t.request("HEAD", "/range.txt")).headers.get("etag")!
+
+			expect(etag).toMatch(/^"[^"]+"$/)
+			expect((await t.request("GET", "/range.txt", { headers: { "If-None-Match": etag } })).status).toBe(304)
+		})
+
+		it("answers If-Modified-Since in the future with 304", async () => {
+			const response = await t.request("GET", "/range.txt", {
+				headers: { "If-Modified-Since": new Date(Date.now() + 60000).toUTCString() }
+			})
+
+			expect(response.status).toBe(304)
+		})
+
+		it("changes the ETag when the content changes", async () => {
+			await t.client.putFileContents("/etag.txt", "first")
+
+			const first = (await t.request("HEAD", "/etag.txt")).headers.get("etag")
+
+			await t.client.putFileContents("/etag.txt", "second")
+
+			expect((await t.request("HEAD", "/etag.txt")).headers.get("etag")).not.toBe(first)
+		})
+
+		it("refuses PUT with a stale If-Match", async () => {
+			const response = await t.request("PUT", "/etag.txt", {
+				headers: { "If-Match": '"stale"' },
+				body: "third"
+			})
+
+			expect(response.status).toBe(412)
+			expect(await t.client.getFileContents("/etag.txt", { format: "text" })).toBe("second")
+		})
+
+		it("refuses PUT with a weak If-Match of the current ETag", async () => {
+			const etag = (await t.request("HEAD", "/etag.txt")).headers.get("etag")!
+			const response = await t.request("PUT", "/etag.txt", {
+				headers: { "If-Match": `W/${etag}` },
+				body: "third"
+			})
+
+			expect(response.status).toBe(412)
+		})
+
+		it("accepts PUT with the current If-Match", async () => {
+			const etag = (await t.request("HEAD", "/etag.txt")).headers.get("etag")!
+			const response = await t.request("PUT", "/etag.txt", {
+				headers: { "If-Match": etag },
+				body: "third"
+			})
+
+			expect(response.status).toBeLessThan(300)
+			expect(await t.client.getFileContents("/etag.txt", { format: "text" })).toBe("third")
+		})
+
+		it("refuses PUT with If-None-Match: * on an existing resource", async () => {
+			expect((await t.request("PUT", "/etag.txt", { headers: { "If-None-Match": "*" }, body: "fourth" })).status).toBe(412)
+		})
+	})
+
+	describe("expect", () => {
+		it("handles PUT with Expect: 100-continue", async () => {
+			const url = new URL(t.url)
+			const status = await new Promise<number>((resolve, reject) => {
+				const request = http.request({
+					hostname: url.hostname,
+					port: url.port,
+					path: "/expect.txt",
+					method: "PUT",
+					headers: {
+						Authorization: `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString("base64")}`,
+						"Content-Length": "6",
+						Expect: "100-continue"
+					}
+				})
+
+				request.on("continue", () => {
+					request.end("expect")
+				})
+
+				request.on("response", response => {
+					response.resume()
+
+					resolve(response.statusCode ?? 0)
+				})
+
+				request.on("error", reject)
+			})
+
+			expect(status).toBe(201)
+			expect(await t.client.getFileContents("/expect.txt", { format: "text" })).toBe("expect")
+		})
+	})
+
+	describe("client timestamps", () => {
+		const propfindLastModified = async (path: string) =>
+			(await t.request("PROPFIND", path, { headers: { Depth: "0" }, body: propfindBody("<D:getlastmodified/>") })).body
+
+		it("keeps the modification time sent in X-OC-Mtime", async () => {
+			const response = await t.request("PUT", "/mtime.txt", {
+				headers: { "X-OC-Mtime": "1600000000" },
+				body: "mtime"
+			})
+
+			expect(response.status).toBe(201)
+			expect(response.headers.get("x-oc-mtime")).toBe("accepted")
+			expect(await propfindLastModified("/mtime.txt")).toContain(new Date(1600000000 * 1000).toUTCString())
+			expect((await t.request("HEAD", "/mtime.txt")).headers.get("last-modified")).toBe(new Date(1600000000 * 1000).toUTCString())
+		})
+
+		it("keeps the creation time sent in X-OC-CTime", async () => {
+			await t.request("PUT", "/ctime.txt", {
+				headers: { "X-OC-CTime": "1500000000" },
+				body: "ctime"
+			})
+
+			const response = await t.request("PROPFIND", "/ctime.txt", { headers: { Depth: "0" }, body: propfindBody("<D:creationdate/>") })
+
+			expect(response.body).toContain(new Date(1500000000 * 1000).toISOString())
+		})
+
+		it("ignores malformed timestamps", async () => {
+			const response = await t.request("PUT", "/mtime.txt", {
+				headers: { "X-OC-Mtime": "yesterday" },
+				body: "mtime"
+			})
+
+			expect(response.status).toBeLessThan(300)
+			expect(response.headers.get("x-oc-mtime")).toBeNull()
+			expect(await propfindLastModified("/mtime.txt")).not.toContain(new Date(1600000000 * 1000).toUTCString())
+		})
+	})
+
+	describe("checksums", () => {
+		const hash = (algorithm: string, content: string, encoding: "hex" | "base64") =>
+			crypto.createHash(algorithm).update(content).digest(encoding)
+
+		it("accepts an upload matching it's Content-MD5", async () => {
+			const response = await t.request("PUT", "/checksum.txt", {
+				headers: { "Content-MD5": hash("md5", "checksum", "base64") },
+				body: "checksum"
+			})
+
+			expect(response.status).toBe(201)
+		})
+
+		it("lists the checksums of an upload in oc:checksums", async () => {
+			const response = await t.request("PROPFIND", "/checksum.txt", {
+				headers: { Depth: "0" },
+				body: propfindBody("<oc:checksums/>", ' xmlns:oc="http://owncloud.org/ns"')
+			})
+
+			expect(response.body).toContain(`SHA1:${hash("sha1", "checksum", "hex")} MD5:${hash("md5", "checksum", "hex")}`)
+		})
+
+		it("refuses an upload not matching it's Content-MD5 and keeps the previous content", async () => {
+			const response = await t.request("PUT", "/checksum.txt", {
+				headers: { "Content-MD5": hash("md5", "something else", "base64") },
+				body: "corrupted"
+			})
+
+			expect(response.status).toBe(400)
+			expect(await t.client.getFileContents("/checksum.txt", { format: "text" })).toBe("checksum")
+		})
+
+		it("verifies Digest and OC-Checksum headers", async () => {
+			expect(
+				(
+					await t.request("PUT", "/digest.txt", {
+						headers: { Digest: `sha-256=${hash("sha256", "digest", "base64")}` },
+						body: "digest"
+					})
+				).status
+			).toBe(201)
+			expect(
+				(
+					await t.request("PUT", "/digest.txt", {
+						headers: { "OC-Checksum": `SHA1:${hash("sha1", "other", "hex")}` },
+						body: "digest"
+					})
+				).status
+			).toBe(400)
+		})
+
+		it("refuses malformed checksums", async () => {
+			expect((await t.request("PUT", "/digest.txt", { headers: { "Content-MD5": "not a digest" }, body: "digest" })).status).toBe(400)
+		})
+	})
+
+	describe("partial updates", () => {
+		const patch = (path: string, range: string, body: string, contentType: string = "application/x-sabredav-partialupdate") =>
+			t.request("PATCH", path, {
+				headers: {
+					"Content-Type": contentType,
+					"X-Update-Range": range
+				},
+				body
+			})
+
+		it("overwrites a byte range", async () => {
+			await t.client.putFileContents("/patch.txt", "0123456789")
+
+			expect((await patch("/patch.txt", "bytes=2-4", "abc")).status).toBe(204)
+			expect(await t.client.getFileContents("/patch.txt", { format: "text" })).toBe("01abc56789")
+		})
+
+		it("appends to a file", async () => {
+			expect((await patch("/patch.txt", "append", "xyz")).status).toBe(204)
+			expect(await t.client.getFileContents("/patch.txt", { format: "text" })).toBe("01abc56789xyz")
+		})
+
+		it("refuses other content types", async () => {
+			expect((await patch("/patch.txt", "append", "xyz", "text/plain")).status).toBe(415)
+		})
+
+		it("refuses a malformed X-Update-Range header", async () => {
+			expect((await patch("/patch.txt", "lines=1-2", "xyz")).status).toBe(400)
+		})
+
+		it("returns 404 for missing files", async () => {
+			expect((await patch("/missing.txt", "append", "xyz")).status).toBe(404)
+		})
+	})
+
+	describe("chunked uploads", () => {
+		const session = `/remote.php/dav/uploads/${USERNAME}/transfer-1`
+
+		it("assembles uploaded chunks at the destination", async () => {
+			expect((await t.request("MKCOL", session, { headers: { Destination: `${t.url}/chunked.txt` } })).status).toBe(201)
+			expect((await t.request("PUT", `${session}/00001`, { body: "Hello, " })).status).toBe(201)
+			expect((await t.request("PUT", `${session}/00002`, { body: "world!" })).status).toBe(201)
+
+			const listing = await t.request("PROPFIND", session, { headers: { Depth: "1" } })
+
+			expect(listing.body).toContain(`${session}/00001`)
+			expect(listing.body).toContain(`${session}/00002`)
+
+			const response = await t.request("MOVE", `${session}/.file`, {
+				headers: {
+					Destination: `${t.url}/chunked.txt`,
+					"OC-Total-Length": "13"
+				}
+			})
+
+			expect(response.status).toBe(201)
+			expect(await t.client.getFileContents("/chunked.txt", { format: "text" })).toBe("Hello, world!")
+			expect((await t.request("PROPFIND", session, { headers: { Depth: "0" } })).status).toBe(404)
+		})
+
+		it("refuses to assemble when the total length does not match", async () => {
+			await t.request("MKCOL", `${session}-2`)
+			await t.request("PUT", `${session}-2/00001`, { body: "short" })
+
+			const response = await t.request("MOVE", `${session}-2/.file`, {
+				headers: {
+					Destination: `${t.url}/chunked-2.txt`,
+					"OC-Total-Length": "100"
+				}
+			})
+
+			expect(response.status).toBe(400)
+			expect(await t.client.exists("/chunked-2.txt")).toBe(false)
+		})
+
+		it("names chunks without the query string", async () => {
+			await t.request("MKCOL", `${session}-3`)
+
+			expect((await t.request("PUT", `${session}-3/00001?x=y`, { body: "chunk" })).status).toBe(201)
+			expect(hrefs((await t.request("PROPFIND", `${session}-3`, { headers: { Depth: "1" } })).body)).toEqual([
+				`${session}-3/`,
+				`${session}-3/00001`
+			])
+		})
+
+		it("aborts a session with DELETE", async () => {
+			expect((await t.request("DELETE", `${session}-2`)).status).toBe(204)
+			expect((await t.request("PROPFIND", `${session}-2`, { headers: { Depth: "0" } })).status).toBe(404)
+		})
+	})
+})
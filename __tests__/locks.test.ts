@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals"
+import { startTestServer, propfindBody, type TestServer } from "./helpers/server"
+
+const lockBody = (scope: "exclusive" | "shared", owner: string = "litmus test suite"): string =>
+	`<?xml version="1.0" encoding="utf-8"?><D:lockinfo xmlns:D="DAV:"><D:lockscope><D:${scope}/></D:lockscope><D:locktype><D:write/></D:locktype><D:owner>${owner}</D:owner></D:lockinfo>`
+
+describe("locks", () => {
+	let t: TestServer
+
+	beforeAll(async () => {
+		t = await startTestServer()
+
+		await t.client.putFileContents("/locked.txt", "locked")
+		await t.client.createDirectory("/lockcoll")
+		await t.client.putFileContents("/lockcoll/member.txt", "member")
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	const lock = (path: string, scope: "exclusive" | "shared", headers: Record<string, string> = {}) =>
+		t.request("LOCK", path, {
+			headers: {
+				"Content-Type": "application/xml",
+				Timeout: "Second-3600",
+				...headers
+			},
+			body: lockBody(scope)
+		})
+
+	const token = (headers: Headers): string => {
+		const header = headers.get("lock-token") ?? ""
+
+		expect(header).toMatch(/^<opaquelocktoken:[^>]+>$/)
+
+		return header.slice(1, header.length - 1)
+	}
+
+	describe("exclusive", () => {
+		let lockToken: string
+
+		it("locks a file", async () => {
+			const response = await lock("/locked.txt", "exclusive")
+
+			expect(response.status).toBe(200)
+			expect(response.body).toContain("<D:exclusive/>")
+			expect(response.body).toContain("litmus test suite")
+
+			lockToken = token(response.headers)
+
+			expect(response.body).toContain(lockToken)
+		})
+
+		it("reports the lock in lockdiscovery", async () => {
+			const response = await t.request("PROPFIND", "/locked.txt", {
+				headers: { Depth: "0", "Content-Type": "application/xml" },
+				body: propfindBody("<D:lockdiscovery/>")
+			})
+
+			expect(response.body).toContain(lockToken)
+			expect(response.body).toContain("<D:depth>0</D:depth>")
+		})
+
+		it("refreshes the lock", async () => {
+			const response = await t.request("LOCK", "/locked.txt", {
+				headers: { If: `(<${lockToken}>)`, Timeout: "Second-1800" }
+			})
+
+			expect(response.status).toBe(200)
+			expect(response.body).toContain("Second-1800")
+		})
+
+		it("refuses to refresh with an unknown token", async () => {
+			const response = await t.request("LOCK", "/locked.txt", {
+				headers: { If: "(<opaquelocktoken:00000000-0000-0000-0000-000000000000>)" }
+			})
+
+			expect(response.status).toBe(412)
+		})
+
+		it("refuses modifications without the lock token", async () => {
+			expect((await t.request("PUT", "/locked.txt", { body: "modified" })).status).toBe(423)
+			expect((await t.request("DELETE", "/locked.txt")).status).toBe(423)
+			expect((await t.request("MOVE", "/locked.txt", { headers: { Destination: `${t.url}/moved.txt` } })).status).toBe(423)
+			expect(await t.client.getFileContents("/locked.txt", { format: "text" })).toBe("locked")
+		})
+
+		it("refuses a second lock on the same resource", async () => {
+			expect((await lock("/locked.txt", "exclusive")).status).toBe(423)
+			expect((await lock("/locked.txt", "shared")).status).toBe(423)
+		})
+
+		it("allows modifications with the lock token", async () => {
+			const response = await t.request("PUT", "/locked.txt", {
+				headers: { If: `(<${lockToken}>)` },
+				body: "modified"
+			})
+
+			expect(response.status).toBeLessThan(300)
+			expect(await t.client.getFileContents("/locked.txt", { format: "text" })).toBe("modified")
+		})
+
+		it("still allows reading", async () => {
+			expect((await t.request("GET", "/locked.txt")).status).toBe(200)
+		})
+
+		it("refuses to unlock with a wrong token", async () => {
+			const response = await t.request("UNLOCK", "/locked.txt", {
+				headers: { "Lock-Token": "<opaquelocktoken:00000000-0000-0000-0000-000000000000>" }
+			})
+
+			expect(response.status).toBe(409)
+		})
+
+		it("unlocks with the lock token", async () => {
+			expect((await t.request("UNLOCK", "/locked.txt", { headers: { "Lock-Token": `<${lockToken}>` } })).status).toBe(204)
+			expect((await t.request("PUT", "/locked.txt", { body: "unlocked" })).status).toBeLessThan(300)
+		})
+	})
+
+	describe("shared", () => {
+		it("grants multiple shared locks on the same resource", async () => {
+			const first = await lock("/locked.txt", "shared")
+			const second = await lock("/locked.txt", "shared")
+
+			expect(first.status).toBe(200)
+			expect(second.status).toBe(200)
+			expect(token(first.headers)).not.toBe(token(second.headers))
+			expect((await lock("/locked.txt", "exclusive")).status).toBe(423)
+
+			await t.request("UNLOCK", "/locked.txt", { headers: { "Lock-Token": `<${token(first.headers)}>` } })
+			await t.request("UNLOCK", "/locked.txt", { headers: { "Lock-Token": `<${token(second.headers)}>` } })
+		})
+
+		it("accepts a write with the token of one of several shared locks", async () => {
+			const first = token((await lock("/locked.txt", "shared")).headers)
+			const second = token((await lock("/locked.txt", "shared")).headers)
+
+			expect((await t.request("PUT", "/locked.txt", { body: "shared" })).status).toBe(423)
+			expect((await t.request("PUT", "/locked.txt", { headers: { If: `(<${second}>)` }, body: "shared" })).status).toBeLessThan(300)
+
+			await t.request("UNLOCK", "/locked.txt", { headers: { "Lock-Token": `<${first}>` } })
+			await t.request("UNLOCK", "/locked.txt", { headers: { "Lock-Token": `<${second}>` } })
+		})
+	})
+
+	describe("collections", () => {
+		it("protects all members of a collection locked with Depth: infinity", async () => {
+			const response = await lock("/lockcoll", "exclusive", { Depth: "infinity" })
+			const lockToken = token(response.headers)
+
+			expect(response.status).toBe(200)
+			expect((await t.request("PUT", "/lockcoll/member.txt", { body: "modified" })).status).toBe(423)
+			expect((await t.request("PUT", "/lockcoll/new.txt", { body: "new" })).status).toBe(423)
+			expect(
+				(
+					await t.request("PUT", "/lockcoll/member.txt", {
+						headers: { If: `</lockcoll> (<${lockToken}>)` },
+						body: "modified"
+					})
+				).status
+			).toBeLessThan(300)
+
+			await t.request("UNLOCK", "/lockcoll", { headers: { "Lock-Token": `<${lockToken}>` } })
+		})
+
+		it("refuses to lock a member of an exclusively locked collection", async () => {
+			const response = await lock("/lockcoll", "exclusive", { Depth: "infinity" })
+
+			expect((await lock("/lockcoll/member.txt", "exclusive")).status).toBe(423)
+
+			await t.request("UNLOCK", "/lockcoll", { headers: { "Lock-Token": `<${token(response.headers)}>` } })
+		})
+	})
+
+	describe("unmapped URLs", () => {
+		it("creates an empty resource when locking an unmapped URL", async () => {
+			const response = await lock("/unmapped.txt", "exclusive")
+
+			expect(response.status).toBe(201)
+			expect(await t.client.exists("/unmapped.txt")).toBe(true)
+
+			await t.request("UNLOCK", "/unmapped.txt", { headers: { "Lock-Token": `<${token(response.headers)}>` } })
+		})
+
+		it("refuses to lock an unmapped URL without an existing parent", async () => {
+			expect((await lock("/missing/unmapped.txt", "exclusive")).status).toBe(409)
+		})
+	})
+
+	describe("client", () => {
+		it("locks and unlocks through the WebDAV client", async () => {
+			const result = await t.client.lock("/locked.txt")
+
+			expect(result.token).toMatch(/^opaquelocktoken:/)
+			expect((await t.request("DELETE", "/locked.txt")).status).toBe(423)
+
+			await t.client.unlock("/locked.txt", result.token)
+
+			expect((await t.request("DELETE", "/locked.txt")).status).toBeLessThan(300)
+		})
+	})
+})
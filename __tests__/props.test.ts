@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from "@jest/globals"
+import { Readable } from "stream"
+import { MemoryStorageBackend } from "../src"
+import { startTestServer, propfindBody, proppatchBody, hrefs, statuses, USERNAME, PASSWORD, type TestServer } from "./helpers/server"
+
+const NS = ' xmlns:Z="http://example.com/neon/litmus/"'
+
+describe("props", () => {
+	let t: TestServer
+
+	beforeAll(async () => {
+		t = await startTestServer()
+
+		await t.client.createDirectory("/props/sub", { recursive: true })
+		await t.client.putFileContents("/props/file.txt", "props")
+		await t.client.putFileContents("/props/sub/deep.txt", "deep")
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	const propfind = (path: string, depth: string, body: string) =>
+		t.request("PROPFIND", path, {
+			headers: {
+				Depth: depth,
+				"Content-Type": "application/xml"
+			},
+			body
+		})
+
+	const proppatch = (path: string, body: string) =>
+		t.request("PROPPATCH", path, {
+			headers: {
+				"Content-Type": "application/xml"
+			},
+			body
+		})
+
+	it("refuses a malformed PROPFIND body", async () => {
+		expect((await propfind("/props", "0", '<D:propfind xmlns:D="DAV:"><D:prop>')).status).toBe(400)
+	})
+
+	it("returns only the resource itself with Depth: 0", async () => {
+		const response = await propfind("/props", "0", propfindBody("<D:resourcetype/>"))
+
+		expect(response.status).toBe(207)
+		expect(hrefs(response.body)).toEqual(["/props/"])
+		expect(response.body).toContain("<D:collection/>")
+	})
+
+	it("returns the resource and it's members with Depth: 1", async () => {
+		const response = await propfind("/props", "1", propfindBody("<D:resourcetype/>"))
+
+		expect(hrefs(response.body).sort()).toEqual(["/props/", "/props/file.txt", "/props/sub/"])
+	})
+
+	it("returns all descendants with Depth: infinity", async () => {
+		const response = await propfind("/props", "infinity", propfindBody("<D:resourcetype/>"))
+
+		expect(hrefs(response.body).sort()).toEqual(["/props/", "/props/file.txt", "/props/sub/", "/props/sub/deep.txt"])
+	})
+
+	it("returns the live properties of a file", async () => {
+		const response = await propfind(
+			"/props/file.txt",
+			"0",
+			propfindBody("<D:getcontentlength/><D:getcontenttype/><D:getetag/><D:getlastmodified/><D:resourcetype/>")
+		)
+
+		expect(response.body).toContain("<D:getcontentlength>5</D:getcontentlength>")
+		expect(response.body).toContain("<D:getcontenttype>text/plain</D:getcontenttype>")
+		expect(response.body).toMatch(/<D:getetag>"[^"]+"<\/D:getetag>/)
+		expect(response.body).toMatch(/<D:getlastmodified>\w{3}, \d{2} \w{3} \d{4} \d{2}:\d{2}:\d{2} GMT<\/D:getlastmodified>/)
+		expect(response.body).not.toContain("<D:collection/>")
+		expect(statuses(response.body)).toEqual([200])
+	})
+
+	it("lists unknown properties in a 404 propstat", async () => {
+		const response = await propfind("/props/file.txt", "0", propfindBody("<D:getcontentlength/><Z:missing/>", NS))
+
+		expect(statuses(response.body)).toEqual([200, 404])
+		expect(response.body).toMatch(/<ns0:missing xmlns:ns0="http:\/\/example.com\/neon\/litmus\/"\/>/)
+	})
+
+	it("lists property names with propname", async () => {
+		const response = await propfind(
+			"/props/file.txt",
+			"0",
+			'<?xml version="1.0" encoding="utf-8"?><D:propfind xmlns:D="DAV:"><D:propname/></D:propfind>'
+		)
+
+		expect(response.body).toContain("<D:getcontentlength/>")
+		expect(response.body).toContain("<D:resourcetype/>")
+	})
+
+	it("sets dead properties with PROPPATCH", async () => {
+		const response = await proppatch(
+			"/props/file.txt",
+			proppatchBody(
+				"<D:set><D:prop><Z:prop0>value0</Z:prop0><Z:prop1>value1</Z:prop1><Z:unicode>\u{1F600} ünï</Z:unicode></D:prop></D:set>",
+				NS
+			)
+		)
+
+		expect(response.status).toBe(207)
+		expect(statuses(response.body)).toEqual([200])
+	})
+
+	it("returns dead properties with PROPFIND", async () => {
+		const response = await propfind("/props/file.txt", "0", propfindBody("<Z:prop0/><Z:prop1/><Z:unicode/>", NS))
+
+		expect(response.body).toMatch(/<ns\d:prop0 xmlns:ns\d="http:\/\/example.com\/neon\/litmus\/">value0<\/ns\d:prop0>/)
+		expect(response.body).toMatch(/<ns\d:prop1 xmlns:ns\d="http:\/\/example.com\/neon\/litmus\/">value1<\/ns\d:prop1>/)
+		expect(response.body).toContain("\u{1F600} ünï")
+		expect(statuses(response.body)).toEqual([200])
+	})
+
+	it("includes dead properties in allprop", async () => {
+		const response = await propfind(
+			"/props/file.txt",
+			"0",
+			'<?xml version="1.0" encoding="utf-8"?><D:propfind xmlns:D="DAV:"><D:allprop/></D:propfind>'
+		)
+
+		expect(response.body).toContain("value0")
+		expect(response.body).toContain("<D:getcontentlength>5</D:getcontentlength>")
+	})
+
+	it("keeps XML values of dead properties including their namespaces", async () => {
+		await proppatch(
+			"/props/file.txt",
+			proppatchBody('<D:set><D:prop><Z:xml><Y:nested xmlns:Y="urn:nested">text</Y:nested></Z:xml></D:prop></D:set>', NS)
+		)
+
+		const response = await propfind("/props/file.txt", "0", propfindBody("<Z:xml/>", NS))
+
+		expect(response.body).toMatch(/<(\w+):nested xmlns:\1="urn:nested">text<\/\1:nested>/)
+	})
+
+	it("removes dead properties with PROPPATCH", async () => {
+		expect((await proppatch("/props/file.txt", proppatchBody("<D:remove><D:prop><Z:prop1/></D:prop></D:remove>", NS))).status).toBe(207)
+
+		const response = await propfind("/props/file.txt", "0", propfindBody("<Z:prop0/><Z:prop1/>", NS))
+
+		expect(response.body).toContain("value0")
+		expect(statuses(response.body)).toEqual([200, 404])
+	})
+
+	it("applies set and remove instructions in document order", async () => {
+		await proppatch(
+			"/props/file.txt",
+			proppatchBody(
+				"<D:set><D:prop><Z:order>first</Z:order></D:prop></D:set><D:remove><D:prop><Z:order/></D:prop></D:remove><D:set><D:prop><Z:order>last</Z:order></D:prop></D:set>",
+				NS
+			)
+		)
+
+		expect((await propfind("/props/file.txt", "0", propfindBody("<Z:order/>", NS))).body).toContain("last")
+	})
+
+	it("refuses to change protected live properties atomically", async () => {
+		const response = await proppatch(
+			"/props/file.txt",
+			proppatchBody("<D:set><D:prop><Z:atomic>value</Z:atomic><D:getcontentlength>1</D:getcontentlength></D:prop></D:set>", NS)
+		)
+
+		expect(response.status).toBe(207)
+		expect(statuses(response.body)).toEqual(expect.arrayContaining([403, 424]))
+		expect(statuses((await propfind("/props/file.txt", "0", propfindBody("<Z:atomic/>", NS))).body)).toEqual([404])
+	})
+
+	it("keeps dead properties when a resource is moved", async () => {
+		await t.request("MOVE", "/props/file.txt", { headers: { Destination: `${t.url}/props/moved.txt` } })
+
+		const response = await propfind("/props/moved.txt", "0", propfindBody("<Z:prop0/>", NS))
+
+		expect(response.body).toContain("value0")
+	})
+
+	it("copies dead properties along with a resource", async () => {
+		await t.request("COPY", "/props/moved.txt", { headers: { Destination: `${t.url}/props/copied.txt` } })
+
+		const response = await propfind("/props/copied.txt", "0", propfindBody("<Z:prop0/>", NS))
+
+		expect(response.body).toContain("value0")
+	})
+
+	it("sets dead properties on collections", async () => {
+		await proppatch("/props/sub", proppatchBody("<D:set><D:prop><Z:coll>collection</Z:coll></D:prop></D:set>", NS))
+
+		expect((await propfind("/props/sub", "0", propfindBody("<Z:coll/>", NS))).body).toContain("collection")
+	})
+
+	it("reports changes since a sync token with REPORT sync-collection", async () => {
+		const report = (token: string) =>
+			t.request("REPORT", "/props", {
+				headers: { "Content-Type": "application/xml" },
+				body: `<?xml version="1.0" encoding="utf-8"?><D:sync-collection xmlns:D="DAV:"><D:sync-token>${token}</D:sync-token><D:sync-level>infinite</D:sync-level><D:prop><D:getetag/></D:prop></D:sync-collection>`
+			})
+
+		const initial = await report("")
+		const syncToken = initial.body.match(/<D:sync-token>([^<]+)<\/D:sync-token>/)?.[1]
+
+		expect(initial.status).toBe(207)
+		expect(hrefs(initial.body)).toContain("/props/sub/deep.txt")
+		expect(syncToken).toBeDefined()
+
+		await t.client.putFileContents("/props/sub/deep.txt", "changed")
+
+		const changes = await report(syncToken!)
+
+		expect(changes.status).toBe(207)
+		expect(hrefs(changes.body)).toEqual(["/props/sub/deep.txt"])
+	})
+
+	it("returns 404 for PROPFIND and PROPPATCH on missing resources", async () => {
+		expect((await propfind("/props/missing.txt", "0", propfindBody("<D:resourcetype/>"))).status).toBe(404)
+		expect((await proppatch("/props/missing.txt", proppatchBody("<D:set><D:prop><Z:a>b</Z:a></D:prop></D:set>", NS))).status).toBe(404)
+	})
+
+	it("moves dead properties to the new file when a file is overwritten", async () => {
+		const previous = (await t.storage.stat({ path: "/props/copied.txt" })).uuid
+
+		await t.client.putFileContents("/props/copied.txt", "overwritten")
+
+		expect((await propfind("/props/copied.txt", "0", propfindBody("<Z:prop0/>", NS))).body).toContain("value0")
+		expect(await t.server.deadProperties.get(previous, USERNAME)).toEqual([])
+	})
+
+	it("drops the dead properties of a deleted collection and it's members", async () => {
+		await proppatch("/props/sub/deep.txt", proppatchBody("<D:set><D:prop><Z:deep>deep</Z:deep></D:prop></D:set>", NS))
+
+		const uuids = [(await t.storage.stat({ path: "/props/sub" })).uuid, (await t.storage.stat({ path: "/props/sub/deep.txt" })).uuid]
+
+		expect(await t.server.deadProperties.get(uuids[1]!, USERNAME)).not.toEqual([])
+		expect((await t.request("DELETE", "/props/sub")).status).toBe(200)
+
+		for (const uuid of uuids) {
+			expect(await t.server.deadProperties.get(uuid, USERNAME)).toEqual([])
+		}
+	})
+
+	describe("quota", () => {
+		const storage = new MemoryStorageBackend(1000)
+		const statfs = jest.spyOn(storage, "statfs")
+		const QUOTA = "<D:quota-available-bytes/><D:quota-used-bytes/>"
+		let quota: TestServer
+
+		beforeAll(async () => {
+			quota = await startTestServer({
+				user: {
+					username: USERNAME,
+					password: PASSWORD,
+					storage
+				}
+			})
+
+			// Written directly, an upload through the server would check (and cache) the quota already
+			await storage.writeFile({ path: "/used.txt", source: Readable.from([Buffer.from("0123456789")]) })
+		})
+
+		afterAll(async () => {
+			await quota.stop()
+		})
+
+		it("does not compute the quota unless it is requested", async () => {
+			const response = await quota.request("PROPFIND", "/", { headers: { Depth: "1" } })
+
+			expect(response.status).toBe(207)
+			expect(response.body).not.toContain("quota-available-bytes")
+			expect(statfs).not.toHaveBeenCalled()
+		})
+
+		it("reports the quota of collections", async () => {
+			const response = await quota.request("PROPFIND", "/", { headers: { Depth: "0" }, body: propfindBody(QUOTA) })
+
+			expect(response.body).toContain("<D:quota-available-bytes>990</D:quota-available-bytes>")
+			expect(response.body).toContain("<D:quota-used-bytes>10</D:quota-used-bytes>")
+		})
+
+		it("does not report the quota of files", async () => {
+			const response = await quota.request("PROPFIND", "/used.txt", { headers: { Depth: "0" }, body: propfindBody(QUOTA) })
+
+			expect(response.body).not.toContain("<D:quota-available-bytes>")
+			expect(statuses(response.body)).toEqual([404])
+		})
+
+		it("refuses uploads larger than the available storage with 507", async () => {
+			const response = await quota.request("PUT", "/large.txt", { body: "x".repeat(2000) })
+
+			expect(response.status).toBe(507)
+			expect(await quota.client.exists("/large.txt")).toBe(false)
+		})
+	})
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "@jest/globals"
+import { MemoryStorageBackend } from "../src"
+import { startTestServer, USERNAME, PASSWORD, type TestServer } from "./helpers/server"
+
+describe("restart", () => {
+	const storage = new MemoryStorageBackend()
+
+	const restart = async (t: TestServer, tempFilesRetention?: number): Promise<TestServer> => {
+		await t.stop()
+
+		return await startTestServer({
+			user: {
+				username: USERNAME,
+				password: PASSWORD,
+				storage
+			},
+			tempFilesToStoreOnDisk: ["**/*.tmp"],
+			tempFilesRetention
+		})
+	}
+
+	it("keeps temp disk and virtual files across restarts", async () => {
+		let t = await startTestServer({
+			user: {
+				username: USERNAME,
+				password: PASSWORD,
+				storage
+			},
+			tempFilesToStoreOnDisk: ["**/*.tmp"]
+		})
+
+		await t.client.putFileContents("/local.tmp", "stored on disk")
+
+		expect(
+			(
+				await t.request("LOCK", "/placeholder.txt", {
+					headers: { "Content-Type": "application/xml" },
+					body: '<?xml version="1.0" encoding="utf-8"?><D:lockinfo xmlns:D="DAV:"><D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockinfo>'
+				})
+			).status
+		).toBe(201)
+
+		t = await restart(t)
+
+		expect(await t.client.getFileContents("/local.tmp", { format: "text" })).toBe("stored on disk")
+		expect(await t.client.exists("/placeholder.txt")).toBe(true)
+		await expect(storage.stat({ path: "/local.tmp" })).rejects.toThrow()
+
+		t = await restart(t, 0)
+
+		expect(await t.client.exists("/local.tmp")).toBe(false)
+		expect(await t.client.exists("/placeholder.txt")).toBe(false)
+
+		await t.stop()
+	})
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from "@jest/globals"
+import { execFile } from "child_process"
+import { promisify } from "util"
+import fs from "fs"
+import os from "os"
+import pathModule from "path"
+import PersistentStore from "../src/store"
+
+/**
+ * Set a key of a store file from a second process.
+ */
+const writeFromOtherProcess = (path: string, key: string, value: string) =>
+	promisify(execFile)(pathModule.join(__dirname, "..", "node_modules", ".bin", "tsx"), [
+		pathModule.join(__dirname, "helpers", "storeWriter.ts"),
+		path,
+		key,
+		value
+	])
+
+describe("store", () => {
+	let path: string
+
+	beforeEach(() => {
+		path = pathModule.join(fs.mkdtempSync(pathModule.join(os.tmpdir(), "filen-webdav-store-")), "store.json")
+	})
+
+	it("picks up writes of another process", async () => {
+		const store = new PersistentStore<Record<string, string>>(path, () => ({}))
+
+		const document = await store.load()
+
+		document["own"] = "own"
+
+		store.changed(["own"])
+
+		await store.flush()
+		await writeFromOtherProcess(path, "other", "other")
+
+		expect(await store.load()).toEqual({ own: "own", other: "other" })
+	})
+
+	it("keeps changes that are not written yet when it reads the file again", async () => {
+		const store = new PersistentStore<Record<string, string>>(path, () => ({}))
+
+		await writeFromOtherProcess(path, "first", "first")
+
+		const document = await store.load()
+
+		document["pending"] = "pending"
+
+		store.changed(["pending"])
+
+		await writeFromOtherProcess(path, "second", "second")
+
+		expect(await store.load()).toEqual({ first: "first", pending: "pending", second: "second" })
+
+		await store.flush()
+
+		expect(JSON.parse(fs.readFileSync(path, "utf-8"))).toEqual({ first: "first", pending: "pending", second: "second" })
+	})
+
+	it("reads the file only once with reloading disabled", async () => {
+		const store = new PersistentStore<Record<string, string>>(path, () => ({}), 1000, false)
+
+		await store.load()
+		await writeFromOtherProcess(path, "other", "other")
+
+		expect(await store.load()).toEqual({})
+	})
+})
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from "@jest/globals"
+import { type Readable } from "stream"
+import fs from "fs"
+import { MemoryStorageBackend, type StorageFile } from "../src"
+import { startTestServer, propfindBody, hrefs, USERNAME, PASSWORD, type TestServer } from "./helpers/server"
+
+/**
+ * An in-memory storage backend whose uploads can be made to fail, like a Filen account that can not be reached.
+ */
+class UnreliableStorageBackend extends MemoryStorageBackend {
+	public failWrites: boolean = false
+	/**
+	 * Reject uploads without reading their source, like a missing parent directory does. The temp disk file is removed first, as a DELETE would.
+	 */
+	public rejectWrites: boolean = false
+	public readonly rejectedSources: Readable[] = []
+
+	public override async writeFile(options: Parameters<MemoryStorageBackend["writeFile"]>[0]): Promise<StorageFile> {
+		if (this.failWrites) {
+			options.source.destroy()
+
+			throw new Error("Upload failed.")
+		}
+
+		if (this.rejectWrites) {
+			this.rejectedSources.push(options.source)
+
+			await fs.promises.rm((options.source as fs.ReadStream).path, { force: true })
+
+			throw new Error("Parent directory not found.")
+		}
+
+		return await super.writeFile(options)
+	}
+}
+
+describe("write-back", () => {
+	const storage = new UnreliableStorageBackend()
+	let t: TestServer
+
+	const start = () =>
+		startTestServer({
+			user: {
+				username: USERNAME,
+				password: PASSWORD,
+				storage
+			},
+			enableWriteBack: true
+		})
+
+	beforeAll(async () => {
+		t = await start()
+	})
+
+	afterAll(async () => {
+		await t.stop()
+	})
+
+	it("acknowledges a PUT and uploads the file in the background", async () => {
+		expect((await t.request("PUT", "/background.txt", { body: "background" })).status).toBe(201)
+
+		await t.server.writeBack.idle()
+
+		expect(t.server.writeBack.pending(USERNAME)).toEqual([])
+		expect((await storage.stat({ path: "/background.txt" })).size).toBe(10)
+		expect(await t.client.getFileContents("/background.txt", { format: "text" })).toBe("background")
+	})
+
+	it("serves a pending file like a cloud file and uploads it after a restart", async () => {
+		storage.failWrites = true
+
+		expect((await t.request("PUT", "/background.txt", { body: "replaced" })).status).toBe(201)
+
+		await t.server.writeBack.idle()
+
+		expect(t.server.writeBack.pending(USERNAME)).toHaveLength(1)
+		expect(await t.client.getFileContents("/background.txt", { format: "text" })).toBe("replaced")
+		expect(
+			hrefs((await t.request("PROPFIND", "/", { headers: { Depth: "1" }, body: propfindBody("<D:getcontentlength/>") })).body)
+		).toEqual(["/", "/background.txt"])
+
+		await t.stop()
+
+		storage.failWrites = false
+		t = await start()
+
+		await t.server.writeBack.idle()
+
+		expect(t.server.writeBack.pending(USERNAME)).toEqual([])
+		expect((await storage.stat({ path: "/background.txt" })).size).toBe(8)
+	})
+
+	it("deletes the replaced cloud file together with a pending file", async () => {
+		storage.failWrites = true
+
+		await t.request("PUT", "/background.txt", { body: "pending" })
+		await t.server.writeBack.idle()
+
+		expect((await t.request("DELETE", "/background.txt")).status).toBeLessThan(300)
+		expect(await t.client.exists("/background.txt")).toBe(false)
+
+		storage.failWrites = false
+	})
+
+	it("drops the pending files of a deleted directory", async () => {
+		storage.failWrites = true
+
+		await t.client.createDirectory("/deleted")
+		await t.request("PUT", "/deleted/pending.txt", { body: "pending" })
+		await t.server.writeBack.idle()
+
+		expect((await t.request("DELETE", "/deleted")).status).toBeLessThan(300)
+		expect(t.server.writeBack.pending(USERNAME)).toEqual([])
+
+		await t.stop()
+
+		storage.failWrites = false
+		t = await start()
+
+		await t.server.writeBack.idle()
+
+		expect(await t.client.exists("/deleted")).toBe(false)
+	})
+
+	it("uploads the pending files of a moved directory to it's new location", async () => {
+		storage.failWrites = true
+
+		await t.client.createDirectory("/from")
+		await t.request("PUT", "/from/pending.txt", { body: "moved" })
+		await t.server.writeBack.idle()
+
+		expect((await t.request("MOVE", "/from", { headers: { Destination: `${t.url}/to` } })).status).toBe(201)
+		expect(await t.client.getFileContents("/to/pending.txt", { format: "text" })).toBe("moved")
+
+		await t.stop()
+
+		storage.failWrites = false
+		t = await start()
+
+		await t.server.writeBack.idle()
+
+		expect(t.server.writeBack.pending(USERNAME)).toEqual([])
+		expect((await storage.stat({ path: "/to/pending.txt" })).size).toBe(5)
+		expect(await t.client.exists("/from")).toBe(false)
+	})
+
+	it("lets a pending file moved over a stored file replace it once it is uploaded", async () => {
+		await t.request("PUT", "/doc.txt", { body: "original" })
+		await t.server.writeBack.idle()
+
+		storage.failWrites = true
+
+		await t.request("PUT", "/doc.tmp", { body: "saved" })
+		await t.server.writeBack.idle()
+
+		const unlink = jest.spyOn(storage, "unlink")
+
+		expect((await t.request("MOVE", "/doc.tmp", { headers: { Destination: `${t.url}/doc.txt` } })).status).toBe(204)
+		expect(unlink).not.toHaveBeenCalledWith(expect.objectContaining({ path: "/doc.txt" }))
+		expect((await storage.stat({ path: "/doc.txt" })).size).toBe(8)
+		expect(await t.client.getFileContents("/doc.txt", { format: "text" })).toBe("saved")
+
+		unlink.mockRestore()
+
+		await t.stop()
+
+		storage.failWrites = false
+		t = await start()
+
+		await t.server.writeBack.idle()
+
+		expect(t.server.writeBack.pending(USERNAME)).toEqual([])
+		expect((await storage.stat({ path: "/doc.txt" })).size).toBe(5)
+		expect(await t.client.exists("/doc.tmp")).toBe(false)
+	})
+
+	it("replaces a pending file with a stored file moved over it", async () => {
+		await t.request("PUT", "/stored.txt", { body: "stored" })
+		await t.server.writeBack.idle()
+
+		storage.failWrites = true
+
+		await t.request("PUT", "/pending.txt", { body: "pending" })
+		await t.server.writeBack.idle()
+
+		expect((await t.request("MOVE", "/stored.txt", { headers: { Destination: `${t.url}/pending.txt` } })).status).toBe(204)
+		expect(t.server.writeBack.pending(USERNAME)).toEqual([])
+		expect(await t.client.getFileContents("/pending.txt", { format: "text" })).toBe("stored")
+
+		await t.stop()
+
+		storage.failWrites = false
+		t = await start()
+	})
+
+	it("closes the temp disk file of a rejected upload", async () => {
+		storage.rejectWrites = true
+
+		expect((await t.request("PUT", "/rejected.txt", { body: "rejected" })).status).toBe(201)
+
+		await t.server.writeBack.idle()
+		// Give a stream that was left open the chance to fail on the removed file
+		await new Promise<void>(resolve => setTimeout(resolve, 100))
+
+		storage.rejectWrites = false
+
+		expect(storage.rejectedSources.length).toBeGreaterThan(0)
+		expect(storage.rejectedSources.every(source => source.destroyed)).toBe(true)
+		expect((await t.request("DELETE", "/rejected.txt")).status).toBeLessThan(300)
+	})
+})
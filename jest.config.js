@@ -0,0 +1,15 @@
+/** @type {import("ts-jest").JestConfigWithTsJest} */
+module.exports = {
+	testEnvironment: "node",
+	testMatch: ["<rootDir>/__tests__/**/*.test.ts"],
+	setupFiles: ["<rootDir>/__tests__/helpers/setup.ts"],
+	testTimeout: 30000,
+	transform: {
+		"^.+\\.ts$": [
+			"ts-jest",
+			{
+				tsconfig: "<rootDir>/__tests__/tsconfig.json"
+			}
+		]
+	}
+}
@@ -0,0 +1,154 @@
+import { type Resource } from "."
+import pathModule from "path"
+import { encodeHref } from "./utils"
+
+/**
+ * Escape a string for use in HTML text and attribute values.
+ *
+ * @param {string} value
+ * @returns {string}
+ */
+function escapeHTML(value: string): string {
+	return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;")
+}
+
+/**
+ * Format a byte count for humans.
+ *
+ * @export
+ * @param {number} size
+ * @returns {string}
+ */
+export function formatSize(size: number): string {
+	const units = ["B", "KiB", "MiB", "GiB", "TiB"]
+	let value = size
+	let unit = 0
+
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024
+		unit++
+	}
+
+	return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`
+}
+
+/**
+ * The href of a collection, always ending with a slash so relative requests of the page resolve inside of it.
+ *
+ * @param {string} path
+ * @returns {string}
+ */
+function collectionHref(path: string): string {
+	return path === "/" ? "/" : `${encodeHref(path)}/`
+}
+
+/**
+ * Render the breadcrumb navigation of a collection, every ancestor links to it's own index.
+ *
+ * @param {string} path
+ * @returns {string}
+ */
+function breadcrumbs(path: string): string {
+	const segments = path.split("/").filter(segment => segment.length > 0)
+	const crumbs = [`<a href="/">Home</a>`]
+
+	for (let i = 0; i < segments.length; i++) {
+		crumbs.push(`<a href="${escapeHTML(collectionHref(`/${segments.slice(0, i + 1).join("/")}`))}">${escapeHTML(segments[i]!)}</a>`)
+	}
+
+	return crumbs.join(" / ")
+}
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+h1 { font-size: 1.2rem; font-weight: normal; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #ddd; }
+td.size, th.size { text-align: right; white-space: nowrap; }
+td.date { white-space: nowrap; }
+form { margin-top: 1rem; }
+#status { color: #a00; }
+`
+
+const SCRIPT = `
+const status = document.getElementById("status")
+const send = async (method, name, body) => {
+	const response = await fetch(location.pathname.replace(/\\/?$/, "/") + encodeURIComponent(name) + (method === "MKCOL" ? "/" : ""), { method, body })
+	if (!response.ok) throw new Error(method + " " + name + ": " + response.status + " " + response.statusText)
+}
+const run = async (event, task) => {
+	event.preventDefault()
+	status.textContent = "Working..."
+	try {
+		await task()
+		location.reload()
+	} catch (e) {
+		status.textContent = e.message
+	}
+}
+document.getElementById("upload").addEventListener("submit", event => run(event, async () => {
+	for (const file of event.target.elements.files.files) await send("PUT", file.name, file)
+}))
+document.getElementById("mkcol").addEventListener("submit", event => run(event, () => send("MKCOL", event.target.elements.name.value)))
+`
+
+/**
+ * Render the HTML index of a collection. Directories are listed first, both groups sorted by name.
+ * The upload and new folder forms send PUT and MKCOL requests to the server (using an inline script, the page does not load any external assets)
+ * and are left out if the collection is read-only.
+ *
+ * @export
+ * @param {{ resource: Resource; children: Resource[]; writable: boolean }} param0
+ * @param {Resource} param0.resource
+ * @param {Resource[]} param0.children
+ * @param {boolean} param0.writable
+ * @returns {string}
+ */
+export function renderDirectoryIndex({
+	resource,
+	children,
+	writable
+}: {
+	resource: Resource
+	children: Resource[]
+	writable: boolean
+}): string {
+	const sorted = [...children].sort((a, b) => {
+		if (a.type !== b.type) {
+			return a.type === "directory" ? -1 : 1
+		}
+
+		return a.name.localeCompare(b.name, undefined, { numeric: true })
+	})
+
+	const rows = sorted.map(child => {
+		const href = child.type === "directory" ? collectionHref(child.path) : encodeHref(child.path)
+		const name = child.type === "directory" ? `${child.name}/` : child.name
+
+		return `<tr><td><a href="${escapeHTML(href)}">${escapeHTML(name)}</a></td><td class="size">${
+			child.type === "directory" ? "-" : formatSize(child.size)
+		}</td><td class="date">${escapeHTML(new Date(child.mtimeMs).toUTCString())}</td></tr>`
+	})
+
+	if (resource.path !== "/") {
+		rows.unshift(
+			`<tr><td><a href="${escapeHTML(collectionHref(pathModule.posix.dirname(resource.path)))}">../</a></td><td></td><td></td></tr>`
+		)
+	}
+
+	const title = resource.path === "/" ? "/" : `${resource.path}/`
+
+	return [
+		"<!DOCTYPE html>",
+		`<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Index of ${escapeHTML(
+			title
+		)}</title><style>${STYLE}</style></head><body>`,
+		`<h1>${breadcrumbs(resource.path)}</h1>`,
+		`<table><thead><tr><th>Name</th><th class="size">Size</th><th>Modified</th></tr></thead><tbody>${rows.join("")}</tbody></table>`,
+		`<p><a href="${escapeHTML(collectionHref(resource.path))}?format=zip">Download as ZIP</a></p>`,
+		writable
+			? `<form id="upload"><input type="file" name="files" multiple required> <button type="submit">Upload</button></form><form id="mkcol"><input type="text" name="name" placeholder="Folder name" required> <button type="submit">Create folder</button></form><p id="status"></p><script>${SCRIPT}</script>`
+			: "",
+		"</body></html>"
+	].join("\n")
+}
@@ -0,0 +1,233 @@
+import { v4 as uuidv4 } from "uuid"
+import { isPathInside } from "./locks"
+
+export const SYNC_TOKEN_PREFIX = "http://filen.io/ns/sync/"
+
+export type ChangeJournalEntry = {
+	sequence: number
+	uuid: string
+}
+
+export type KnownItem = {
+	type: "file" | "directory"
+	paths: string[]
+}
+
+export type UserChangeJournal = {
+	epoch: string
+	sequence: number
+	entries: ChangeJournalEntry[]
+	known: Record<string, KnownItem>
+}
+
+/**
+ * ChangeJournal
+ * Records which items changed, fed by the socket events of the SDK (or the change notifications of other storage backends), so sync-collection
+ * reports (RFC 6578) only have to return changed members.
+ * Every journal has a random epoch that is part of the sync tokens. Events are lost while the socket is disconnected or the server is not running,
+ * so the journal is reset in these cases and tokens of an older epoch are rejected, which makes clients fall back to a full sync.
+ *
+ * @export
+ * @class ChangeJournal
+ * @typedef {ChangeJournal}
+ */
+export class ChangeJournal {
+	private readonly journals: Record<string, UserChangeJournal> = {}
+
+	/**
+	 * Creates an instance of ChangeJournal.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {number} [maxEntries=10000] Number of entries kept per user. Tokens older than the oldest entry are no longer valid.
+	 * @param {number} [maxKnownPaths=10] Number of previous paths remembered per item, used to report members that were moved away.
+	 */
+	public constructor(
+		public readonly maxEntries: number = 10000,
+		public readonly maxKnownPaths: number = 10
+	) {}
+
+	/**
+	 * Get the journal of a user.
+	 *
+	 * @private
+	 * @param {?string} [username]
+	 * @returns {UserChangeJournal}
+	 */
+	private journalForUser(username?: string): UserChangeJournal {
+		const key = username ?? ""
+
+		if (!this.journals[key]) {
+			this.journals[key] = {
+				epoch: uuidv4(),
+				sequence: 0,
+				entries: [],
+				known: {}
+			}
+		}
+
+		return this.journals[key]!
+	}
+
+	/**
+	 * The current sync token of a user.
+	 *
+	 * @public
+	 * @param {?string} [username]
+	 * @returns {string}
+	 */
+	public token(username?: string): string {
+		const journal = this.journalForUser(username)
+
+		return `${SYNC_TOKEN_PREFIX}${journal.epoch}/${journal.sequence}`
+	}
+
+	/**
+	 * Parse a sync token. Returns the sequence number of the token, or null if it is not (or no longer) valid.
+	 *
+	 * @public
+	 * @param {string} token
+	 * @param {?string} [username]
+	 * @returns {(number | null)}
+	 */
+	public parseToken(token: string, username?: string): number | null {
+		if (!token.startsWith(SYNC_TOKEN_PREFIX)) {
+			return null
+		}
+
+		const journal = this.journalForUser(username)
+		const [epoch, sequenceString] = token.slice(SYNC_TOKEN_PREFIX.length).split("/")
+		const sequence = parseInt(sequenceString ?? "", 10)
+
+		if (epoch !== journal.epoch || isNaN(sequence) || sequence < 0 || sequence > journal.sequence) {
+			return null
+		}
+
+		// Entries after the token might already have been dropped
+		const oldest = journal.entries[0]
+
+		if (oldest && oldest.sequence > sequence + 1) {
+			return null
+		}
+
+		return sequence
+	}
+
+	/**
+	 * Record changed (created, modified, moved or deleted) items.
+	 *
+	 * @public
+	 * @param {string[]} uuids
+	 * @param {?string} [username]
+	 */
+	public record(uuids: string[], username?: string): void {
+		const journal = this.journalForUser(username)
+
+		for (const uuid of uuids) {
+			journal.sequence++
+
+			journal.entries.push({
+				sequence: journal.sequence,
+				uuid
+			})
+		}
+
+		if (journal.entries.length > this.maxEntries) {
+			journal.entries.splice(0, journal.entries.length - this.maxEntries)
+		}
+	}
+
+	/**
+	 * All items that changed after the given sequence number.
+	 *
+	 * @public
+	 * @param {number} sequence
+	 * @param {?string} [username]
+	 * @returns {Set<string>}
+	 */
+	public changedSince(sequence: number, username?: string): Set<string> {
+		const changed = new Set<string>()
+
+		for (const entry of this.journalForUser(username).entries) {
+			if (entry.sequence > sequence) {
+				changed.add(entry.uuid)
+			}
+		}
+
+		return changed
+	}
+
+	/**
+	 * Remember the path of an item that was reported to a client.
+	 *
+	 * @public
+	 * @param {string} uuid
+	 * @param {KnownItem["type"]} type
+	 * @param {string} path
+	 * @param {?string} [username]
+	 */
+	public remember(uuid: string, type: KnownItem["type"], path: string, username?: string): void {
+		const journal = this.journalForUser(username)
+		const known = journal.known[uuid]
+
+		if (!known) {
+			journal.known[uuid] = {
+				type,
+				paths: [path]
+			}
+
+			return
+		}
+
+		if (known.paths[known.paths.length - 1] === path) {
+			return
+		}
+
+		known.paths = [...known.paths.filter(knownPath => knownPath !== path), path].slice(-this.maxKnownPaths)
+	}
+
+	/**
+	 * Get the remembered paths of an item.
+	 *
+	 * @public
+	 * @param {string} uuid
+	 * @param {?string} [username]
+	 * @returns {(KnownItem | null)}
+	 */
+	public known(uuid: string, username?: string): KnownItem | null {
+		return this.journalForUser(username).known[uuid] ?? null
+	}
+
+	/**
+	 * All remembered items that lived below the given path at some point.
+	 *
+	 * @public
+	 * @param {string} path
+	 * @param {?string} [username]
+	 * @returns {string[]}
+	 */
+	public knownBelow(path: string, username?: string): string[] {
+		const known = this.journalForUser(username).known
+		const uuids: string[] = []
+
+		for (const uuid in known) {
+			if (known[uuid]!.paths.some(knownPath => knownPath !== path && isPathInside(knownPath, path))) {
+				uuids.push(uuid)
+			}
+		}
+
+		return uuids
+	}
+
+	/**
+	 * Start a new journal for the user, invalidating all sync tokens handed out so far.
+	 *
+	 * @public
+	 * @param {?string} [username]
+	 */
+	public reset(username?: string): void {
+		delete this.journals[username ?? ""]
+	}
+}
+
+export default ChangeJournal
@@ -0,0 +1,190 @@
+import { type Request } from "express"
+import { type XMLElement } from "./xml"
+import { type PropertyName } from "./properties"
+
+export const OC_NAMESPACE = "http://owncloud.org/ns"
+
+/**
+ * The property the checksums of uploaded files are exposed as, in the format Nextcloud and ownCloud clients (and rclone) understand.
+ */
+export const CHECKSUMS_PROPERTY: PropertyName = {
+	name: "checksums",
+	namespace: OC_NAMESPACE
+}
+
+export type ChecksumAlgorithm = "md5" | "sha1" | "sha256" | "sha512"
+
+export type Checksum = {
+	algorithm: ChecksumAlgorithm
+	/**
+	 * Lower case hex digest.
+	 */
+	digest: string
+}
+
+/**
+ * The checksums every upload is hashed with, so they can be listed in the checksums property.
+ */
+export const DEFAULT_CHECKSUM_ALGORITHMS: ChecksumAlgorithm[] = ["sha1", "md5"]
+
+const DIGEST_LENGTHS: Record<ChecksumAlgorithm, number> = {
+	md5: 16,
+	sha1: 20,
+	sha256: 32,
+	sha512: 64
+}
+
+// RFC 3230 / RFC 5843 algorithm names
+const DIGEST_ALGORITHMS: Record<string, ChecksumAlgorithm> = {
+	md5: "md5",
+	sha: "sha1",
+	"sha-256": "sha256",
+	"sha-512": "sha512"
+}
+
+// OC-Checksum types, Adler32 is not supported and ignored
+const OC_CHECKSUM_ALGORITHMS: Record<string, ChecksumAlgorithm> = {
+	md5: "md5",
+	sha1: "sha1",
+	sha256: "sha256",
+	sha512: "sha512"
+}
+
+const OC_CHECKSUM_NAMES: Record<ChecksumAlgorithm, string> = {
+	md5: "MD5",
+	sha1: "SHA1",
+	sha256: "SHA256",
+	sha512: "SHA512"
+}
+
+/**
+ * Convert a base64 encoded digest to hex. Returns null if it does not decode to a digest of the algorithm's length.
+ *
+ * @param {string} value
+ * @param {ChecksumAlgorithm} algorithm
+ * @returns {(string | null)}
+ */
+function base64Digest(value: string, algorithm: ChecksumAlgorithm): string | null {
+	if (!/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+		return null
+	}
+
+	const digest = Buffer.from(value, "base64")
+
+	return digest.byteLength === DIGEST_LENGTHS[algorithm] ? digest.toString("hex") : null
+}
+
+/**
+ * Collect the checksums a client sent along with an upload in the Content-MD5 (RFC 1864), Digest (RFC 3230) and OC-Checksum (Nextcloud) headers.
+ * Unsupported algorithms are ignored. Returns null if a checksum of a supported algorithm is malformed.
+ *
+ * @export
+ * @param {Request} req
+ * @returns {(Checksum[] | null)}
+ */
+export function requestChecksums(req: Request): Checksum[] | null {
+	const checksums: Checksum[] = []
+	const contentMD5 = req.headers["content-md5"]
+	const digestHeader = req.headers["digest"]
+	const ocChecksum = req.headers["oc-checksum"]
+
+	if (typeof contentMD5 === "string") {
+		const digest = base64Digest(contentMD5.trim(), "md5")
+
+		if (!digest) {
+			return null
+		}
+
+		checksums.push({ algorithm: "md5", digest })
+	}
+
+	if (typeof digestHeader === "string") {
+		for (const instance of digestHeader.split(",")) {
+			const separator = instance.indexOf("=")
+
+			if (separator === -1) {
+				return null
+			}
+
+			const algorithm = DIGEST_ALGORITHMS[instance.slice(0, separator).trim().toLowerCase()]
+
+			if (!algorithm) {
+				continue
+			}
+
+			const digest = base64Digest(instance.slice(separator + 1).trim(), algorithm)
+
+			if (!digest) {
+				return null
+			}
+
+			checksums.push({ algorithm, digest })
+		}
+	}
+
+	if (typeof ocChecksum === "string") {
+		// Usually a single checksum, but a space separated list is accepted as well
+		for (const entry of ocChecksum.trim().split(/\s+/)) {
+			const separator = entry.indexOf(":")
+
+			if (separator === -1) {
+				return null
+			}
+
+			const algorithm = OC_CHECKSUM_ALGORITHMS[entry.slice(0, separator).toLowerCase()]
+
+			if (!algorithm) {
+				continue
+			}
+
+			const digest = entry.slice(separator + 1).toLowerCase()
+
+			if (!/^[0-9a-f]+$/.test(digest) || digest.length !== DIGEST_LENGTHS[algorithm] * 2) {
+				return null
+			}
+
+			checksums.push({ algorithm, digest })
+		}
+	}
+
+	return checksums
+}
+
+/**
+ * Find the first checksum sent by the client that does not match the computed digests. Returns null if all match.
+ *
+ * @export
+ * @param {Checksum[]} expected
+ * @param {Partial<Record<ChecksumAlgorithm, string>>} computed
+ * @returns {(Checksum | null)}
+ */
+export function checksumMismatch(expected: Checksum[], computed: Partial<Record<ChecksumAlgorithm, string>>): Checksum | null {
+	return expected.find(checksum => computed[checksum.algorithm] !== checksum.digest) ?? null
+}
+
+/**
+ * Build the checksums property of a file, e.g. `<oc:checksums><oc:checksum>SHA1:... MD5:...</oc:checksum></oc:checksums>`.
+ *
+ * @export
+ * @param {Partial<Record<ChecksumAlgorithm, string>>} digests
+ * @returns {XMLElement}
+ */
+export function checksumsProperty(digests: Partial<Record<ChecksumAlgorithm, string>>): XMLElement {
+	return {
+		name: CHECKSUMS_PROPERTY.name,
+		namespace: CHECKSUMS_PROPERTY.namespace,
+		attributes: {},
+		children: [
+			{
+				name: "checksum",
+				namespace: OC_NAMESPACE,
+				attributes: {},
+				children: [],
+				text: (Object.keys(digests) as ChecksumAlgorithm[])
+					.map(algorithm => `${OC_CHECKSUM_NAMES[algorithm]}:${digests[algorithm]}`)
+					.join(" ")
+			}
+		],
+		text: ""
+	}
+}
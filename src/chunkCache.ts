@@ -0,0 +1,332 @@
+import pathModule from "path"
+import fs from "fs-extra"
+import writeFileAtomic from "write-file-atomic"
+import { Readable } from "stream"
+import { UPLOAD_CHUNK_SIZE } from "@filen/sdk"
+import { sanitizeFileName, fastStringHash, type ByteRange } from "./utils"
+
+/**
+ * Default size limit of the on-disk chunk cache. Caching is disabled by default, the cache holds decrypted file content.
+ */
+export const DEFAULT_CHUNK_CACHE_SIZE = 0
+
+/**
+ * ChunkCache
+ * Caches downloaded (and decrypted) file content on disk in chunks of the Filen chunk size, so repeated and overlapping range reads
+ * (media players seeking, zip tools reading the central directory) do not download and decrypt the same chunks again.
+ * The chunks are stored unencrypted and survive restarts. Every user has their own subdirectory, entries are keyed by the entity tag of the file
+ * (it's UUID plus content hash) and the chunk index. Once the cache grows beyond it's size limit the least recently used chunks of all users are removed.
+ *
+ * @export
+ * @class ChunkCache
+ * @typedef {ChunkCache}
+ */
+export class ChunkCache {
+	private pruning: Promise<void> | null = null
+	private size: number | null = null
+
+	/**
+	 * Creates an instance of ChunkCache.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {string} path Directory the chunks are stored in.
+	 * @param {number} [maxSize=DEFAULT_CHUNK_CACHE_SIZE] Size limit of the cache in bytes. 0 disables caching.
+	 * @param {number} [chunkSize=UPLOAD_CHUNK_SIZE]
+	 */
+	public constructor(
+		public readonly path: string,
+		public readonly maxSize: number = DEFAULT_CHUNK_CACHE_SIZE,
+		public readonly chunkSize: number = UPLOAD_CHUNK_SIZE
+	) {}
+
+	/**
+	 * The directory the chunks of a user are stored in.
+	 *
+	 * @private
+	 * @param {?string} [username]
+	 * @returns {string}
+	 */
+	private userPath(username?: string): string {
+		return pathModule.join(this.path, sanitizeFileName(fastStringHash(username ?? "")))
+	}
+
+	/**
+	 * The path of a cache entry.
+	 *
+	 * @private
+	 * @param {string} key
+	 * @param {number} index
+	 * @param {?string} [username]
+	 * @returns {string}
+	 */
+	private entryPath(key: string, index: number, username?: string): string {
+		return pathModule.join(this.userPath(username), sanitizeFileName(`${key}_${index}`))
+	}
+
+	/**
+	 * Check if a file can be read through the cache. Files larger than the whole cache would only evict each other, they are not cached.
+	 *
+	 * @public
+	 * @param {number} fileSize
+	 * @returns {boolean}
+	 */
+	public accepts(fileSize: number): boolean {
+		return this.maxSize > 0 && fileSize > 0 && fileSize <= this.maxSize
+	}
+
+	/**
+	 * Get a cached chunk. Reading an entry marks it as recently used.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} key
+	 * @param {number} index
+	 * @param {?string} [username]
+	 * @returns {Promise<Buffer | null>}
+	 */
+	public async get(key: string, index: number, username?: string): Promise<Buffer | null> {
+		const path = this.entryPath(key, index, username)
+
+		try {
+			const data = await fs.readFile(path)
+			const now = new Date()
+
+			await fs.utimes(path, now, now).catch(() => {})
+
+			return data
+		} catch {
+			return null
+		}
+	}
+
+	/**
+	 * Store a chunk and prune the cache if it grew beyond it's size limit.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} key
+	 * @param {number} index
+	 * @param {Buffer} data
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async set(key: string, index: number, data: Buffer, username?: string): Promise<void> {
+		await fs.ensureDir(this.userPath(username))
+		await writeFileAtomic(this.entryPath(key, index, username), data)
+
+		// The size is tracked in memory, the directory is only scanned once it is unknown or exceeds the limit
+		if (this.size !== null) {
+			this.size += data.byteLength
+		}
+
+		if (this.size !== null && this.size <= this.maxSize) {
+			return
+		}
+
+		if (!this.pruning) {
+			this.pruning = this.prune().finally(() => {
+				this.pruning = null
+			})
+		}
+
+		await this.pruning
+	}
+
+	/**
+	 * Remove the least recently used chunks until the cache fits into it's size limit.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<void>}
+	 */
+	public async prune(): Promise<void> {
+		if (!(await fs.exists(this.path))) {
+			this.size = 0
+
+			return
+		}
+
+		const entries: { path: string; size: number; mtimeMs: number }[] = []
+		let total = 0
+
+		for (const userDirectory of await fs.readdir(this.path)) {
+			const userPath = pathModule.join(this.path, userDirectory)
+			let names: string[]
+
+			try {
+				if (!(await fs.stat(userPath)).isDirectory()) {
+					// Chunks stored without a user directory by earlier versions
+					await fs.rm(userPath, { force: true })
+
+					continue
+				}
+
+				names = await fs.readdir(userPath)
+			} catch {
+				// Removed concurrently
+				continue
+			}
+
+			for (const name of names) {
+				const path = pathModule.join(userPath, name)
+
+				try {
+					const stat = await fs.stat(path)
+
+					entries.push({
+						path,
+						size: stat.size,
+						mtimeMs: stat.mtimeMs
+					})
+
+					total += stat.size
+				} catch {
+					// Removed concurrently
+				}
+			}
+		}
+
+		entries.sort((a, b) => a.mtimeMs - b.mtimeMs)
+
+		for (const entry of entries) {
+			if (total <= this.maxSize) {
+				break
+			}
+
+			await fs.rm(entry.path, { force: true })
+
+			total -= entry.size
+		}
+
+		this.size = total
+	}
+
+	/**
+	 * The length of a chunk of a file.
+	 *
+	 * @private
+	 * @param {number} index
+	 * @param {number} fileSize
+	 * @returns {number}
+	 */
+	private chunkLength(index: number, fileSize: number): number {
+		return Math.min(fileSize, (index + 1) * this.chunkSize) - index * this.chunkSize
+	}
+
+	/**
+	 * The part of a chunk that lies within a byte range.
+	 *
+	 * @private
+	 * @param {Buffer} chunk
+	 * @param {number} index
+	 * @param {ByteRange} range
+	 * @returns {Buffer}
+	 */
+	private slice(chunk: Buffer, index: number, range: ByteRange): Buffer {
+		const chunkStart = index * this.chunkSize
+
+		return chunk.subarray(Math.max(range.start - chunkStart, 0), Math.min(range.end - chunkStart + 1, chunk.byteLength))
+	}
+
+	/**
+	 * Read the chunks covering a byte range. Cached chunks are read from disk, every run of missing chunks is fetched with a single request and cached.
+	 *
+	 * @private
+	 * @async
+	 * @param {string} key
+	 * @param {number} fileSize
+	 * @param {ByteRange} range
+	 * @param {(start: number, end: number) => Readable} fetch
+	 * @param {?string} [username]
+	 * @returns {AsyncGenerator<Buffer>}
+	 */
+	private async *read(
+		key: string,
+		fileSize: number,
+		range: ByteRange,
+		fetch: (start: number, end: number) => Readable,
+		username?: string
+	): AsyncGenerator<Buffer> {
+		const last = Math.floor(range.end / this.chunkSize)
+		let index = Math.floor(range.start / this.chunkSize)
+
+		while (index <= last) {
+			const cached = await this.get(key, index, username)
+
+			if (cached && cached.byteLength === this.chunkLength(index, fileSize)) {
+				yield this.slice(cached, index, range)
+
+				index++
+
+				continue
+			}
+
+			let runEnd = index
+
+			while (runEnd < last && !(await fs.exists(this.entryPath(key, runEnd + 1, username)))) {
+				runEnd++
+			}
+
+			const source = fetch(index * this.chunkSize, Math.min(fileSize, (runEnd + 1) * this.chunkSize) - 1)
+			const parts: Buffer[] = []
+			let length = 0
+
+			try {
+				for await (const data of source) {
+					parts.push(data)
+					length += data.byteLength
+
+					while (index <= runEnd && length >= this.chunkLength(index, fileSize)) {
+						const buffer = Buffer.concat(parts)
+						const chunk = buffer.subarray(0, this.chunkLength(index, fileSize))
+						const rest = buffer.subarray(chunk.byteLength)
+
+						parts.length = 0
+						length = rest.byteLength
+
+						if (length > 0) {
+							parts.push(rest)
+						}
+
+						// Failing to cache a chunk must not fail the download
+						await this.set(key, index, chunk, username).catch(() => {})
+
+						yield this.slice(chunk, index, range)
+
+						index++
+					}
+				}
+			} finally {
+				source.destroy()
+			}
+
+			if (index <= runEnd) {
+				throw new Error("File content ended unexpectedly.")
+			}
+		}
+	}
+
+	/**
+	 * Open a stream of a byte range of a file, read through the cache. Destroying the stream stops reading.
+	 *
+	 * @public
+	 * @param {string} key
+	 * @param {number} fileSize
+	 * @param {ByteRange} range
+	 * @param {(start: number, end: number) => Readable} fetch Opens a stream of a byte range (inclusive) of the file's content.
+	 * @param {?string} [username]
+	 * @returns {Readable}
+	 */
+	public stream(
+		key: string,
+		fileSize: number,
+		range: ByteRange,
+		fetch: (start: number, end: number) => Readable,
+		username?: string
+	): Readable {
+		return Readable.from(this.read(key, fileSize, range, fetch, username), { objectMode: false })
+	}
+}
+
+export default ChunkCache
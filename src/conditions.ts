@@ -0,0 +1,371 @@
+import { type Request } from "express"
+import { type WebDAVServer as Server, type Resource } from "."
+import { resourceETag, removeLastSlash, parseByteRanges, isValidDate, type ByteRange } from "./utils"
+
+export type IfCondition = {
+	not: boolean
+	type: "stateToken" | "entityTag"
+	value: string
+}
+
+export type IfList = {
+	resource: string | null
+	conditions: IfCondition[]
+}
+
+export type PreconditionResult = "ok" | "failed" | "badRequest"
+
+/**
+ * Parse the RFC 4918 If header into it's (optionally tagged) lists. Returns null if the header is malformed.
+ *
+ * @export
+ * @param {string} header
+ * @returns {(IfList[] | null)}
+ */
+export function parseIfHeader(header: string): IfList[] | null {
+	const lists: IfList[] = []
+	let resource: string | null = null
+	let tagged: boolean | null = null
+	let index = 0
+
+	const skipWhitespace = (): void => {
+		while (index < header.length && /\s/.test(header[index]!)) {
+			index++
+		}
+	}
+
+	const readUntil = (char: string): string | null => {
+		const end = header.indexOf(char, index + 1)
+
+		if (end === -1) {
+			return null
+		}
+
+		const value = header.slice(index + 1, end)
+
+		index = end + 1
+
+		return value
+	}
+
+	skipWhitespace()
+
+	while (index < header.length) {
+		const char = header[index]
+
+		if (char === "<") {
+			// Resource-Tag, either all lists are tagged or none of them
+			if (tagged === false) {
+				return null
+			}
+
+			const tag = readUntil(">")
+
+			if (tag === null || tag.length === 0) {
+				return null
+			}
+
+			tagged = true
+			resource = tag
+
+			skipWhitespace()
+
+			continue
+		}
+
+		if (char !== "(") {
+			return null
+		}
+
+		if (tagged === null) {
+			tagged = false
+		}
+
+		if (tagged && resource === null) {
+			return null
+		}
+
+		index++
+
+		const conditions: IfCondition[] = []
+
+		skipWhitespace()
+
+		while (index < header.length && header[index] !== ")") {
+			let not = false
+
+			if (header.slice(index, index + 3).toLowerCase() === "not") {
+				not = true
+				index += 3
+
+				skipWhitespace()
+			}
+
+			if (header[index] === "<") {
+				const token = readUntil(">")
+
+				if (token === null || token.length === 0) {
+					return null
+				}
+
+				conditions.push({
+					not,
+					type: "stateToken",
+					value: token
+				})
+			} else if (header[index] === "[") {
+				const entityTag = readUntil("]")
+
+				if (entityTag === null || entityTag.length === 0) {
+					return null
+				}
+
+				conditions.push({
+					not,
+					type: "entityTag",
+					value: entityTag
+				})
+			} else {
+				return null
+			}
+
+			skipWhitespace()
+		}
+
+		if (index >= header.length || conditions.length === 0) {
+			return null
+		}
+
+		index++
+
+		lists.push({
+			resource,
+			conditions
+		})
+
+		skipWhitespace()
+	}
+
+	return lists.length > 0 ? lists : null
+}
+
+/**
+ * Compare two entity tags using the weak comparison function.
+ *
+ * @export
+ * @param {string} a
+ * @param {string} b
+ * @returns {boolean}
+ */
+export function entityTagsMatch(a: string, b: string): boolean {
+	const normalize = (tag: string): string => tag.trim().replace(/^W\//, "").replace(/^"/, "").replace(/"$/, "")
+
+	return normalize(a) === normalize(b)
+}
+
+/**
+ * Compare two entity tags using the strong comparison function. Weak entity tags never match.
+ *
+ * @export
+ * @param {string} a
+ * @param {string} b
+ * @returns {boolean}
+ */
+export function entityTagsMatchStrong(a: string, b: string): boolean {
+	const tagA = a.trim()
+	const tagB = b.trim()
+
+	return !tagA.startsWith("W/") && !tagB.startsWith("W/") && tagA === tagB
+}
+
+/**
+ * Parse a comma separated entity tag list as used by If-Match and If-None-Match.
+ *
+ * @export
+ * @param {string} header
+ * @returns {string[]}
+ */
+export function parseEntityTagList(header: string): string[] {
+	return header
+		.split(",")
+		.map(tag => tag.trim())
+		.filter(tag => tag.length > 0)
+}
+
+/**
+ * Convert a Resource-Tag of the If header to a path.
+ *
+ * @param {Request} req
+ * @param {string} tag
+ * @returns {(string | null)}
+ */
+function resourceTagToPath(req: Request, tag: string): string | null {
+	try {
+		const path = decodeURIComponent(new URL(tag, `${req.protocol}://${req.get("host") ?? "localhost"}`).pathname)
+
+		return path === "/" ? path : removeLastSlash(path)
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Evaluate the If, If-Match and If-None-Match request headers against the requested resource.
+ * Tagged If lists are evaluated against the resource identified by their tag.
+ *
+ * @export
+ * @async
+ * @param {Server} server
+ * @param {Request} req
+ * @param {(Resource | null)} resource The resource of the request URL, null if it does not exist.
+ * @param {string} path The decoded request path.
+ * @returns {Promise<PreconditionResult>}
+ */
+export async function checkPreconditions(
+	server: Server,
+	req: Request,
+	resource: Resource | null,
+	path: string
+): Promise<PreconditionResult> {
+	const ifMatch = req.headers["if-match"]
+	const ifNoneMatch = req.headers["if-none-match"]
+	const ifHeader = req.headers["if"]
+
+	if (typeof ifMatch === "string" && ifMatch.length > 0) {
+		const tags = parseEntityTagList(ifMatch)
+
+		if (!resource) {
+			return "failed"
+		}
+
+		if (!tags.includes("*") && !tags.some(tag => entityTagsMatchStrong(tag, resourceETag(resource)))) {
+			return "failed"
+		}
+	}
+
+	if (typeof ifNoneMatch === "string" && ifNoneMatch.length > 0 && resource) {
+		const tags = parseEntityTagList(ifNoneMatch)
+
+		if (tags.includes("*") || tags.some(tag => entityTagsMatch(tag, resourceETag(resource)))) {
+			return "failed"
+		}
+	}
+
+	if (typeof ifHeader !== "string" || ifHeader.trim().length === 0) {
+		return "ok"
+	}
+
+	const lists = parseIfHeader(ifHeader)
+
+	if (!lists) {
+		return "badRequest"
+	}
+
+	const resources: Record<string, Resource | null> = {
+		[path]: resource
+	}
+
+	for (const list of lists) {
+		const listPath = list.resource ? resourceTagToPath(req, list.resource) : path
+
+		if (!listPath) {
+			continue
+		}
+
+		if (typeof resources[listPath] === "undefined") {
+			resources[listPath] = await server.pathToResource(req, listPath)
+		}
+
+		const listResource = resources[listPath] ?? null
+		const locks = server.locks.locksForPath(listPath, req.username)
+		const matches = list.conditions.every(condition => {
+			const result =
+				condition.type === "stateToken"
+					? locks.some(lock => lock.token === condition.value)
+					: listResource !== null && entityTagsMatch(condition.value, resourceETag(listResource))
+
+			return condition.not ? !result : result
+		})
+
+		if (matches) {
+			return "ok"
+		}
+	}
+
+	return "failed"
+}
+
+/**
+ * Evaluate the If-None-Match and If-Modified-Since headers of a GET or HEAD request (RFC 7232 section 6).
+ * Returns true if the client's cached representation is still current and a 304 Not Modified response should be sent.
+ * If-Modified-Since is ignored when If-None-Match is present.
+ *
+ * @export
+ * @param {Request} req
+ * @param {Resource} resource
+ * @param {string} [entityTag=resourceETag(resource)] The entity tag of the representation being sent.
+ * @returns {boolean}
+ */
+export function isNotModified(req: Request, resource: Resource, entityTag: string = resourceETag(resource)): boolean {
+	const ifNoneMatch = req.headers["if-none-match"]
+
+	if (typeof ifNoneMatch === "string" && ifNoneMatch.length > 0) {
+		const tags = parseEntityTagList(ifNoneMatch)
+
+		return tags.includes("*") || tags.some(tag => entityTagsMatch(tag, entityTag))
+	}
+
+	const ifModifiedSince = req.headers["if-modified-since"]
+
+	if (typeof ifModifiedSince !== "string" || !isValidDate(ifModifiedSince)) {
+		return false
+	}
+
+	return Math.floor(resource.mtimeMs / 1000) <= Math.floor(new Date(ifModifiedSince).getTime() / 1000)
+}
+
+/**
+ * Evaluate the If-Range header (RFC 7233 section 3.2). The Range header is only honored if the representation is unchanged,
+ * which requires a strong match of the entity tag or an exact match of the modification date.
+ *
+ * @export
+ * @param {Request} req
+ * @param {Resource} resource
+ * @returns {boolean}
+ */
+export function ifRangeMatches(req: Request, resource: Resource): boolean {
+	const header = req.headers["if-range"]
+
+	if (typeof header !== "string" || header.trim().length === 0) {
+		return true
+	}
+
+	const value = header.trim()
+
+	if (/^(W\/)?"/.test(value)) {
+		return entityTagsMatchStrong(value, resourceETag(resource))
+	}
+
+	const date = new Date(value).getTime()
+
+	return !isNaN(date) && Math.floor(date / 1000) === Math.floor(resource.mtimeMs / 1000)
+}
+
+/**
+ * Get the byte ranges requested for a file. Returns null if the full representation should be sent
+ * and an empty list if none of the requested ranges can be satisfied.
+ *
+ * @export
+ * @param {Request} req
+ * @param {Resource} resource
+ * @returns {(ByteRange[] | null)}
+ */
+export function requestedByteRanges(req: Request, resource: Resource): ByteRange[] | null {
+	const range = req.headers.range
+
+	if (typeof range !== "string" || !ifRangeMatches(req, resource)) {
+		return null
+	}
+
+	return parseByteRanges(range, resource.size)
+}
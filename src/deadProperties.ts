@@ -0,0 +1,245 @@
+import pathModule from "path"
+import { platformConfigPath, fastStringHash, sanitizeFileName } from "./utils"
+import PersistentStore from "./store"
+import { type XMLElement } from "./xml"
+
+export type DeadPropertiesDocument = Record<string, Record<string, XMLElement>>
+
+/**
+ * Build the Clark notation key of a property, e.g. "{DAV:}displayname".
+ *
+ * @export
+ * @param {string} name
+ * @param {string} namespace
+ * @returns {string}
+ */
+export function propertyKey(name: string, namespace: string): string {
+	return `{${namespace}}${name}`
+}
+
+/**
+ * DeadPropertyStore
+ * Persists arbitrary client properties set through PROPPATCH. Properties are keyed by the item UUID so they follow the item when it is moved or renamed.
+ *
+ * @export
+ * @class DeadPropertyStore
+ * @typedef {DeadPropertyStore}
+ */
+export class DeadPropertyStore {
+	private readonly stores: Record<string, PersistentStore<DeadPropertiesDocument>> = {}
+	public readonly path: string
+
+	/**
+	 * Creates an instance of DeadPropertyStore.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {string} [path=pathModule.join(platformConfigPath(), "deadProperties")]
+	 */
+	public constructor(path: string = pathModule.join(platformConfigPath(), "deadProperties")) {
+		this.path = path
+	}
+
+	/**
+	 * Get the underlying store of a user.
+	 *
+	 * @private
+	 * @param {?string} [username]
+	 * @returns {PersistentStore<DeadPropertiesDocument>}
+	 */
+	private storeForUser(username?: string): PersistentStore<DeadPropertiesDocument> {
+		const key = username ?? ""
+
+		if (!this.stores[key]) {
+			this.stores[key] = new PersistentStore<DeadPropertiesDocument>(
+				pathModule.join(this.path, `${sanitizeFileName(fastStringHash(key))}.json`),
+				() => ({})
+			)
+		}
+
+		return this.stores[key]!
+	}
+
+	/**
+	 * Get all dead properties of an item.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} uuid
+	 * @param {?string} [username]
+	 * @returns {Promise<XMLElement[]>}
+	 */
+	public async get(uuid: string, username?: string): Promise<XMLElement[]> {
+		const document = await this.storeForUser(username).load()
+
+		return Object.values(document[uuid] ?? {})
+	}
+
+	/**
+	 * Check if the user has any dead properties stored at all.
+	 *
+	 * @public
+	 * @async
+	 * @param {?string} [username]
+	 * @returns {Promise<boolean>}
+	 */
+	public async isEmpty(username?: string): Promise<boolean> {
+		const document = await this.storeForUser(username).load()
+
+		return Object.keys(document).length === 0
+	}
+
+	/**
+	 * Set (or replace) a dead property of an item.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} uuid
+	 * @param {XMLElement} property
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async set(uuid: string, property: XMLElement, username?: string): Promise<void> {
+		const store = this.storeForUser(username)
+		const document = await store.load()
+
+		if (!document[uuid]) {
+			document[uuid] = {}
+		}
+
+		document[uuid]![propertyKey(property.name, property.namespace)] = property
+
+		store.changed([uuid])
+	}
+
+	/**
+	 * Remove a dead property of an item. Removing a property that does not exist is not an error.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} uuid
+	 * @param {string} name
+	 * @param {string} namespace
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async remove(uuid: string, name: string, namespace: string, username?: string): Promise<void> {
+		const store = this.storeForUser(username)
+		const document = await store.load()
+		const properties = document[uuid]
+
+		if (!properties) {
+			return
+		}
+
+		delete properties[propertyKey(name, namespace)]
+
+		if (Object.keys(properties).length === 0) {
+			delete document[uuid]
+		}
+
+		store.changed([uuid])
+	}
+
+	/**
+	 * Copy all dead properties from one item to another, e.g. after a COPY.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} from
+	 * @param {string} to
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async copy(from: string, to: string, username?: string): Promise<void> {
+		if (from === to) {
+			return
+		}
+
+		const store = this.storeForUser(username)
+		const document = await store.load()
+		const properties = document[from]
+
+		if (!properties) {
+			return
+		}
+
+		document[to] = {
+			...(document[to] ?? {}),
+			...JSON.parse(JSON.stringify(properties))
+		}
+
+		store.changed([to])
+	}
+
+	/**
+	 * Move all dead properties from one item to another, e.g. when a new file version with a new UUID replaces an item.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} from
+	 * @param {string} to
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async move(from: string, to: string, username?: string): Promise<void> {
+		if (from === to) {
+			return
+		}
+
+		const store = this.storeForUser(username)
+		const document = await store.load()
+		const properties = document[from]
+
+		if (!properties) {
+			return
+		}
+
+		document[to] = {
+			...(document[to] ?? {}),
+			...properties
+		}
+
+		delete document[from]
+
+		store.changed([from], [to])
+	}
+
+	/**
+	 * Remove all dead properties of the given items, e.g. once they were deleted.
+	 *
+	 * @public
+	 * @async
+	 * @param {string[]} uuids
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async removeAll(uuids: string[], username?: string): Promise<void> {
+		const store = this.storeForUser(username)
+		const document = await store.load()
+		const removed = uuids.filter(uuid => document[uuid])
+
+		if (removed.length === 0) {
+			return
+		}
+
+		for (const uuid of removed) {
+			delete document[uuid]
+		}
+
+		store.changed(...removed.map(uuid => [uuid]))
+	}
+
+	/**
+	 * Write all pending changes to disk.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<void>}
+	 */
+	public async flush(): Promise<void> {
+		await Promise.all(Object.values(this.stores).map(store => store.flush()))
+	}
+}
+
+export default DeadPropertyStore
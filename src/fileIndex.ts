@@ -0,0 +1,267 @@
+import pathModule from "path"
+import fs from "fs-extra"
+import { platformConfigPath, fastStringHash, sanitizeFileName } from "./utils"
+import PersistentStore from "./store"
+import { type Resource } from "."
+
+/**
+ * Virtual (zero byte placeholder) and temp disk files are kept for 7 days after they were last written, unless they are uploaded or deleted earlier.
+ */
+export const DEFAULT_TEMP_FILES_RETENTION = 86400 * 7 * 1000
+
+export type FileIndexKind = "virtual" | "tempDisk"
+
+export const FILE_INDEX_KINDS: FileIndexKind[] = ["virtual", "tempDisk"]
+
+export type FileIndexDocument = Record<FileIndexKind, Record<string, Resource>> & {
+	/**
+	 * Timestamp of the last write of every entry, the retention policy is based on it.
+	 */
+	updated: Record<FileIndexKind, Record<string, number>>
+}
+
+/**
+ * Bring a document read from disk into shape. JSON drops the `isDirectory` and `isFile` methods of resources, so they are added back.
+ *
+ * @param {Partial<FileIndexDocument>} document
+ * @returns {FileIndexDocument}
+ */
+function restoreDocument(document: Partial<FileIndexDocument>): FileIndexDocument {
+	const restored = document as FileIndexDocument
+
+	if (!restored.updated) {
+		restored.updated = {
+			virtual: {},
+			tempDisk: {}
+		}
+	}
+
+	for (const kind of FILE_INDEX_KINDS) {
+		if (!restored[kind]) {
+			restored[kind] = {}
+		}
+
+		if (!restored.updated[kind]) {
+			restored.updated[kind] = {}
+		}
+
+		for (const path in restored[kind]) {
+			const resource = restored[kind][path]!
+
+			resource.isDirectory = () => resource.type === "directory"
+			resource.isFile = () => resource.type === "file"
+		}
+	}
+
+	return restored
+}
+
+/**
+ * FileIndexStore
+ * Journals the virtual and temp disk file handles of every user to disk, so they survive restarts.
+ * The handles are plain records, every assignment to or deletion from them schedules a write of the user's index.
+ *
+ * @export
+ * @class FileIndexStore
+ * @typedef {FileIndexStore}
+ */
+export class FileIndexStore {
+	private readonly stores: Record<string, PersistentStore<FileIndexDocument>> = {}
+	private readonly loaded: Record<string, Record<FileIndexKind, Record<string, Resource>>> = {}
+	public readonly path: string
+
+	/**
+	 * Creates an instance of FileIndexStore.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {string} [path=pathModule.join(platformConfigPath(), "fileIndexes")]
+	 */
+	public constructor(path: string = pathModule.join(platformConfigPath(), "fileIndexes")) {
+		this.path = path
+	}
+
+	/**
+	 * Get the store backed by a file of the index directory.
+	 *
+	 * @private
+	 * @param {string} fileName
+	 * @returns {PersistentStore<FileIndexDocument>}
+	 */
+	private storeForFile(fileName: string): PersistentStore<FileIndexDocument> {
+		if (!this.stores[fileName]) {
+			// The handles wrap the loaded document, so it is read only once per process
+			this.stores[fileName] = new PersistentStore<FileIndexDocument>(
+				pathModule.join(this.path, fileName),
+				() => ({
+					virtual: {},
+					tempDisk: {},
+					updated: {
+						virtual: {},
+						tempDisk: {}
+					}
+				}),
+				1000,
+				false
+			)
+		}
+
+		return this.stores[fileName]!
+	}
+
+	/**
+	 * Get the underlying store of a user.
+	 *
+	 * @private
+	 * @param {string} username
+	 * @returns {PersistentStore<FileIndexDocument>}
+	 */
+	private storeForUser(username: string): PersistentStore<FileIndexDocument> {
+		return this.storeForFile(`${sanitizeFileName(fastStringHash(username))}.json`)
+	}
+
+	/**
+	 * Wrap one of the records of a document so changes to it are journaled.
+	 *
+	 * @private
+	 * @param {PersistentStore<FileIndexDocument>} store
+	 * @param {FileIndexDocument} document
+	 * @param {FileIndexKind} kind
+	 * @returns {Record<string, Resource>}
+	 */
+	private track(store: PersistentStore<FileIndexDocument>, document: FileIndexDocument, kind: FileIndexKind): Record<string, Resource> {
+		return new Proxy(document[kind], {
+			set: (target, path, resource: Resource) => {
+				if (typeof path !== "string") {
+					return false
+				}
+
+				target[path] = resource
+				document.updated[kind][path] = Date.now()
+
+				store.changed([kind, path], ["updated", kind, path])
+
+				return true
+			},
+			deleteProperty: (target, path) => {
+				if (typeof path !== "string") {
+					return false
+				}
+
+				delete target[path]
+				delete document.updated[kind][path]
+
+				store.changed([kind, path], ["updated", kind, path])
+
+				return true
+			}
+		})
+	}
+
+	/**
+	 * Load the index of a user. Has to be called before the user's handles are accessed.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} username
+	 * @returns {Promise<void>}
+	 */
+	public async load(username: string): Promise<void> {
+		if (this.loaded[username]) {
+			return
+		}
+
+		const store = this.storeForUser(username)
+		const document = restoreDocument(await store.load())
+
+		this.loaded[username] = {
+			virtual: this.track(store, document, "virtual"),
+			tempDisk: this.track(store, document, "tempDisk")
+		}
+	}
+
+	/**
+	 * Forget the in-memory handles of a user. The index stays on disk and is read again by the next load.
+	 *
+	 * @public
+	 * @param {string} username
+	 */
+	public unload(username: string): void {
+		delete this.loaded[username]
+	}
+
+	/**
+	 * Get the virtual or temp disk file handles of a user, keyed by path. Returns an empty, untracked record if the user's index is not loaded.
+	 *
+	 * @public
+	 * @param {FileIndexKind} kind
+	 * @param {string} username
+	 * @returns {Record<string, Resource>}
+	 */
+	public files(kind: FileIndexKind, username: string): Record<string, Resource> {
+		return this.loaded[username]?.[kind] ?? {}
+	}
+
+	/**
+	 * Apply the retention policy to the indexes of all users: Entries not written within the retention period are dropped (unless they wait for their write-back upload), as are temp disk entries whose file is gone.
+	 * Returns the ids of the temp disk files that are still referenced.
+	 *
+	 * @public
+	 * @async
+	 * @param {number} retention Retention period in milliseconds.
+	 * @param {string} tempDiskPath Directory the temp disk files are stored in.
+	 * @returns {Promise<Set<string>>}
+	 */
+	public async prune(retention: number, tempDiskPath: string): Promise<Set<string>> {
+		const referenced = new Set<string>()
+		const now = Date.now()
+
+		await fs.ensureDir(this.path)
+
+		for (const fileName of await fs.readdir(this.path)) {
+			if (!fileName.endsWith(".json")) {
+				continue
+			}
+
+			const store = this.storeForFile(fileName)
+			const document = restoreDocument(await store.load())
+
+			for (const kind of FILE_INDEX_KINDS) {
+				for (const path in document[kind]) {
+					const { tempDiskId, pendingUpload } = document[kind][path]!
+					// Files waiting for their write-back upload are kept until they are uploaded
+					const expired = !pendingUpload && now - (document.updated[kind][path] ?? 0) >= retention
+					const missing = kind === "tempDisk" && (!tempDiskId || !(await fs.exists(pathModule.join(tempDiskPath, tempDiskId))))
+
+					if (expired || missing) {
+						delete document[kind][path]
+						delete document.updated[kind][path]
+
+						store.changed([kind, path], ["updated", kind, path])
+
+						continue
+					}
+
+					if (tempDiskId) {
+						referenced.add(tempDiskId)
+					}
+				}
+			}
+		}
+
+		return referenced
+	}
+
+	/**
+	 * Write all pending changes to disk.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<void>}
+	 */
+	public async flush(): Promise<void> {
+		await Promise.all(Object.values(this.stores).map(store => store.flush()))
+	}
+}
+
+export default FileIndexStore
@@ -0,0 +1,414 @@
+import { type Request, type Response } from "express"
+import { type WebDAVServer as Server, type Resource } from ".."
+import Responses from "../responses"
+import pathModule from "path"
+import fs from "fs-extra"
+import { Readable, PassThrough, pipeline } from "stream"
+import { promisify } from "util"
+import mimeTypes from "mime-types"
+import { removeLastSlash, clientTimestamps, acceptClientTimestamps } from "../utils"
+import { submittedLockTokens, isPathInside } from "../locks"
+import { parsePropfindRequest } from "../properties"
+import { CHUNKED_UPLOADS_PATH, ASSEMBLE_MARKER, parseChunkedUploadPath, type ChunkedUploadSession, type UploadChunk } from "../uploads"
+
+const pipelineAsync = promisify(pipeline)
+
+/**
+ * ChunkedUpload
+ * Handles the chunked upload namespace (Nextcloud chunking v2). A client creates a session with MKCOL, uploads numbered chunks with PUT
+ * and assembles them by moving the `.file` marker of the session to the final destination. Broken uploads can be resumed by listing the
+ * already uploaded chunks with PROPFIND, sessions can be aborted with DELETE.
+ *
+ * @export
+ * @class ChunkedUpload
+ * @typedef {ChunkedUpload}
+ */
+export class ChunkedUpload {
+	/**
+	 * Creates an instance of ChunkedUpload.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {Server} server
+	 */
+	public constructor(private readonly server: Server) {
+		this.handle = this.handle.bind(this)
+	}
+
+	/**
+	 * Parse the path of the Destination header. Returns null if the header is missing or does not point to this server.
+	 *
+	 * @public
+	 * @param {Request} req
+	 * @returns {(string | null)}
+	 */
+	public destination(req: Request): string | null {
+		const header = req.headers["destination"]
+
+		if (typeof header !== "string" || !header.includes(req.hostname) || !header.includes(req.protocol)) {
+			return null
+		}
+
+		try {
+			const destination = removeLastSlash(decodeURIComponent(new URL(header).pathname))
+
+			return destination.length > 0 ? destination : null
+		} catch {
+			return null
+		}
+	}
+
+	/**
+	 * Build the WebDAV resource of a session or a chunk, so they can be listed through PROPFIND.
+	 *
+	 * @public
+	 * @param {string} path
+	 * @param {(UploadChunk | null)} chunk
+	 * @returns {Resource}
+	 */
+	public resource(path: string, chunk: UploadChunk | null): Resource {
+		if (!chunk) {
+			return {
+				type: "directory",
+				uuid: path,
+				name: pathModule.posix.basename(path),
+				size: 0,
+				mtimeMs: Date.now(),
+				birthtimeMs: Date.now(),
+				isDirectory: () => true,
+				isFile: () => false,
+				url: `${path}/`,
+				path,
+				isVirtual: true
+			}
+		}
+
+		return {
+			type: "file",
+			uuid: path,
+			name: chunk.name,
+			size: chunk.size,
+			mime: mimeTypes.lookup(chunk.name) || "application/octet-stream",
+			key: "",
+			lastModified: chunk.mtimeMs,
+			bucket: "",
+			region: "",
+			version: 2,
+			chunks: 1,
+			mtimeMs: chunk.mtimeMs,
+			birthtimeMs: chunk.mtimeMs,
+			isDirectory: () => false,
+			isFile: () => true,
+			url: path,
+			path,
+			isVirtual: true
+		}
+	}
+
+	/**
+	 * List a session and it's chunks, or a single chunk.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {string} path
+	 * @param {(ChunkedUploadSession | null)} session
+	 * @param {(string | null)} chunkName
+	 * @returns {Promise<void>}
+	 */
+	public async propfind(
+		req: Request,
+		res: Response,
+		path: string,
+		session: ChunkedUploadSession | null,
+		chunkName: string | null
+	): Promise<void> {
+		const request = await parsePropfindRequest(req.body)
+
+		if (!request) {
+			await Responses.badRequest(res)
+
+			return
+		}
+
+		const resources: Resource[] = []
+
+		if (session && chunkName) {
+			const chunk = (await this.server.uploads.chunks(session)).find(chunk => chunk.name === chunkName)
+
+			if (!chunk) {
+				await Responses.notFound(res, req.url)
+
+				return
+			}
+
+			resources.push(this.resource(path, chunk))
+		} else {
+			resources.push(this.resource(path, null))
+
+			if (session && req.header("depth") !== "0") {
+				const chunks = await this.server.uploads.chunks(session)
+
+				resources.push(...chunks.map(chunk => this.resource(pathModule.posix.join(path, chunk.name), chunk)))
+			}
+		}
+
+		await Responses.propfind(res, resources, request, async resource => ({
+			quota: null,
+			locks: this.server.locks.locksForPath(resource.path, req.username),
+			deadProperties: [],
+			syncToken: null,
+			versionHistory: null
+		}))
+	}
+
+	/**
+	 * Store a chunk. It is written to a temporary file first, so a broken request never leaves an incomplete chunk behind.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {ChunkedUploadSession} session
+	 * @param {string} chunkName
+	 * @returns {Promise<void>}
+	 */
+	public async uploadChunk(req: Request, res: Response, session: ChunkedUploadSession, chunkName: string): Promise<void> {
+		const totalLength = parseInt(req.header("oc-total-length") ?? "", 10)
+
+		if (!isNaN(totalLength) && totalLength > (await this.server.quota(req.username)).available) {
+			await Responses.insufficientStorage(res, "quota-not-exceeded")
+
+			return
+		}
+
+		const path = this.server.uploads.chunkPath(session, chunkName)
+		const stream = new PassThrough()
+
+		if (req.firstBodyChunk) {
+			stream.write(req.firstBodyChunk)
+		}
+
+		try {
+			await pipelineAsync(
+				req.pipe(stream),
+				fs.createWriteStream(`${path}.part`, {
+					flags: "w",
+					autoClose: true
+				})
+			)
+
+			await fs.rename(`${path}.part`, path)
+		} catch (e) {
+			await fs.rm(`${path}.part`, { force: true })
+
+			throw e
+		}
+
+		await Responses.created(res)
+	}
+
+	/**
+	 * Assemble all chunks of a session into the final file and upload it to the cloud.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {ChunkedUploadSession} session
+	 * @returns {Promise<void>}
+	 */
+	public async assemble(req: Request, res: Response, session: ChunkedUploadSession): Promise<void> {
+		const destination = this.destination(req)
+
+		if (!destination || isPathInside(destination, CHUNKED_UPLOADS_PATH)) {
+			await Responses.badRequest(res)
+
+			return
+		}
+
+		const chunks = await this.server.uploads.chunks(session)
+		const size = chunks.reduce((total, chunk) => total + chunk.size, 0)
+		const totalLength = parseInt(req.header("oc-total-length") ?? "", 10)
+
+		if (chunks.length === 0 || (!isNaN(totalLength) && totalLength !== size)) {
+			await Responses.badRequest(res)
+
+			return
+		}
+
+		const parentPath = pathModule.posix.dirname(destination)
+		const destinationResource = await this.server.pathToResource(req, destination)
+
+		if (destinationResource && destinationResource.type === "directory") {
+			await Responses.conflict(res)
+
+			return
+		}
+
+		if (destinationResource && req.headers["overwrite"] === "F") {
+			await Responses.preconditionFailed(res)
+
+			return
+		}
+
+		const tokens = submittedLockTokens(req)
+		const lock =
+			this.server.locks.conflictingLock({ path: destination, tokens, username: req.username }) ??
+			(!destinationResource ? this.server.locks.conflictingLock({ path: parentPath, tokens, username: req.username }) : null)
+
+		if (lock) {
+			await Responses.locked(res, lock.path)
+
+			return
+		}
+
+		if (size > (await this.server.quota(req.username)).available) {
+			await Responses.insufficientStorage(res, "quota-not-exceeded")
+
+			return
+		}
+
+		const storage = this.server.getStorageForUser(req.username)
+
+		if (!storage) {
+			await Responses.notAuthorized(res)
+
+			return
+		}
+
+		await storage.mkdir({ path: parentPath })
+
+		const parentResource = await this.server.pathToResource(req, parentPath)
+
+		if (!parentResource || parentResource.type !== "directory") {
+			await Responses.preconditionFailed(res)
+
+			return
+		}
+
+		const timestamps = clientTimestamps(req)
+		const item = await storage.writeFile({
+			path: destination,
+			source: Readable.from(
+				(async function* () {
+					for (const chunk of chunks) {
+						yield* fs.createReadStream(chunk.path)
+					}
+				})()
+			),
+			lastModified: timestamps.lastModified ?? undefined,
+			creation: timestamps.creation ?? undefined
+		})
+
+		delete this.server.getVirtualFilesForUser(req.username)[destination]
+		delete this.server.getTempDiskFilesForUser(req.username)[destination]
+
+		await this.server.registerUpload(destination, item, destinationResource, req.username)
+		await this.server.uploads.remove(session)
+
+		acceptClientTimestamps(res, timestamps)
+
+		if (destinationResource) {
+			await Responses.noContent(res)
+
+			return
+		}
+
+		await Responses.created(res)
+	}
+
+	/**
+	 * Handle all requests to the chunked upload namespace.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @returns {Promise<void>}
+	 */
+	public async handle(req: Request, res: Response): Promise<void> {
+		try {
+			const path = removeLastSlash(decodeURIComponent(req.path))
+			const parsed = parseChunkedUploadPath(path)
+			const method = req.method.toUpperCase()
+
+			this.server.uploads.cleanup().catch(() => {})
+
+			if (method === "OPTIONS") {
+				await Responses.ok(res)
+
+				return
+			}
+
+			if (!parsed) {
+				// The namespace root and the user collections
+				if (method === "PROPFIND") {
+					await this.propfind(req, res, path, null, null)
+
+					return
+				}
+
+				await Responses.forbidden(res)
+
+				return
+			}
+
+			if (method === "MKCOL" && !parsed.chunk) {
+				await this.server.uploads.create(parsed.transferId, this.destination(req), req.username)
+
+				await Responses.created(res)
+
+				return
+			}
+
+			const session = await this.server.uploads.get(parsed.transferId, req.username)
+
+			if (!session) {
+				await Responses.notFound(res, req.url)
+
+				return
+			}
+
+			if (method === "PROPFIND") {
+				await this.propfind(req, res, path, session, parsed.chunk)
+
+				return
+			}
+
+			if (method === "PUT" && parsed.chunk && parsed.chunk !== ASSEMBLE_MARKER) {
+				await this.uploadChunk(req, res, session, parsed.chunk)
+
+				return
+			}
+
+			if (method === "MOVE" && parsed.chunk === ASSEMBLE_MARKER) {
+				await this.assemble(req, res, session)
+
+				return
+			}
+
+			if (method === "DELETE") {
+				if (parsed.chunk) {
+					await fs.rm(this.server.uploads.chunkPath(session, parsed.chunk), { force: true })
+				} else {
+					await this.server.uploads.remove(session)
+				}
+
+				await Responses.noContent(res)
+
+				return
+			}
+
+			await Responses.forbidden(res)
+		} catch (e) {
+			this.server.logger.log("error", e, "chunkedUpload")
+			this.server.logger.log("error", e)
+
+			Responses.internalError(res).catch(() => {})
+		}
+	}
+}
+
+export default ChunkedUpload
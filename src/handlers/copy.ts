@@ -1,9 +1,13 @@
 import { type Request, type Response } from "express"
-import type Server from ".."
+import { type WebDAVServer as Server, type Resource } from ".."
 import Responses from "../responses"
 import { removeLastSlash, pathToTempDiskFileId } from "../utils"
 import pathModule from "path"
 import fs from "fs-extra"
+import { submittedLockTokens, isPathInside } from "../locks"
+import { checkPreconditions } from "../conditions"
+import { v4 as uuidv4 } from "uuid"
+import { type StorageBackend } from "../storage"
 
 /**
  * Copy
@@ -24,6 +28,162 @@ export class Copy {
 		this.handle = this.handle.bind(this)
 	}
 
+	/**
+	 * Copy the dead properties of a stored resource (and all of it's children) to it's freshly created copy.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {StorageBackend} storage
+	 * @param {Resource} resource
+	 * @param {string} destination
+	 * @returns {Promise<void>}
+	 */
+	public async copyDeadProperties(req: Request, storage: StorageBackend, resource: Resource, destination: string): Promise<void> {
+		if (await this.server.deadProperties.isEmpty(req.username)) {
+			return
+		}
+
+		const destinationStat = await storage.stat({ path: destination })
+
+		await this.server.deadProperties.copy(resource.uuid, destinationStat.uuid, req.username)
+
+		if (resource.type !== "directory" || destinationStat.type !== "directory") {
+			return
+		}
+
+		const [sourceTree, destinationTree] = await Promise.all([
+			storage.tree(resource),
+			storage.tree({
+				path: destination,
+				uuid: destinationStat.uuid,
+				skipCache: true
+			})
+		])
+
+		for (const entry in destinationTree) {
+			const from = sourceTree[entry]
+			const to = destinationTree[entry]
+
+			if (from && to) {
+				await this.server.deadProperties.copy(from.uuid, to.uuid, req.username)
+			}
+		}
+	}
+
+	/**
+	 * Copy a stored resource. A collection copied with Depth: 0 is created without any of it's members.
+	 *
+	 * @public
+	 * @async
+	 * @param {StorageBackend} storage
+	 * @param {Resource} resource
+	 * @param {string} destination
+	 * @param {string} depth
+	 * @returns {Promise<void>}
+	 */
+	public async copyToStorage(storage: StorageBackend, resource: Resource, destination: string, depth: string): Promise<void> {
+		if (resource.type === "directory" && depth === "0") {
+			await storage.mkdir({ path: destination })
+
+			return
+		}
+
+		await storage.copy({
+			from: resource.path,
+			to: destination
+		})
+	}
+
+	/**
+	 * Restore a previous version of a file by copying it onto the file it belongs to.
+	 * The restored version becomes the current one, the replaced content is kept as a version.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {Resource} resource
+	 * @param {string} destination
+	 * @param {(Resource | null)} destinationResource
+	 * @returns {Promise<void>}
+	 */
+	public async restoreVersion(
+		req: Request,
+		res: Response,
+		resource: Resource,
+		destination: string,
+		destinationResource: Resource | null
+	): Promise<void> {
+		if (removeLastSlash(destination) !== resource.versionOf) {
+			await Responses.forbidden(res)
+
+			return
+		}
+
+		if (!destinationResource || destinationResource.type !== "file" || destinationResource.isVirtual || destinationResource.tempDiskId) {
+			await Responses.conflict(res)
+
+			return
+		}
+
+		if (req.headers["overwrite"] === "F") {
+			await Responses.preconditionFailed(res)
+
+			return
+		}
+
+		const precondition = await checkPreconditions(this.server, req, resource, resource.path)
+
+		if (precondition === "badRequest") {
+			await Responses.badRequest(res)
+
+			return
+		}
+
+		if (precondition === "failed") {
+			await Responses.preconditionFailed(res, "precondition-failed")
+
+			return
+		}
+
+		const lock = this.server.locks.conflictingLock({
+			path: destinationResource.path,
+			tokens: submittedLockTokens(req),
+			username: req.username
+		})
+
+		if (lock) {
+			await Responses.locked(res, lock.path)
+
+			return
+		}
+
+		const sdk = this.server.getSDKForUser(req.username)
+
+		if (!sdk) {
+			await Responses.notAuthorized(res)
+
+			return
+		}
+
+		if (resource.uuid !== destinationResource.uuid) {
+			await sdk.cloud().restoreFileVersion({
+				uuid: resource.uuid,
+				currentUUID: destinationResource.uuid
+			})
+
+			// The restored version takes over the UUID of the file, so it's dead properties have to move along
+			await this.server.deadProperties.move(destinationResource.uuid, resource.uuid, req.username)
+			await sdk.fs()._removeItem({ path: destinationResource.path })
+			await this.server.invalidateDirectoryListing(destinationResource.path, req.username)
+
+			this.server.changes.record([destinationResource.uuid, resource.uuid], req.username)
+		}
+
+		await Responses.noContent(res)
+	}
+
 	/**
 	 * Copy a resource to the destination defined in the destination header. Overwrite if needed.
 	 *
@@ -36,7 +196,8 @@ export class Copy {
 	public async handle(req: Request, res: Response): Promise<void> {
 		try {
 			const destinationHeader = req.headers["destination"]
-			const overwrite = req.headers["overwrite"] === "T"
+			// RFC 4918 section 10.6: A missing Overwrite header is treated as "T"
+			const overwrite = req.headers["overwrite"] !== "F"
 
 			if (
 				typeof destinationHeader !== "string" ||
@@ -83,51 +244,99 @@ export class Copy {
 				return
 			}
 
-			if (resource.path === destination) {
-				await Responses.created(res)
+			if (resource.versionOf) {
+				await this.restoreVersion(req, res, resource, destination, destinationResource)
+
+				return
+			}
+
+			const depth = req.header("depth") ?? "infinity"
+
+			if (depth !== "infinity" && (depth !== "0" || resource.type !== "directory")) {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			// A resource can neither replace itself nor be placed inside itself
+			if (isPathInside(destination, resource.path)) {
+				await Responses.forbidden(res)
 
 				return
 			}
 
 			if (!overwrite && destinationResource) {
-				await Responses.alreadyExists(res)
+				await Responses.preconditionFailed(res)
+
+				return
+			}
+
+			const parentResource = await this.server.pathToResource(req, pathModule.posix.dirname(removeLastSlash(destination)))
+
+			if (!parentResource || parentResource.type !== "directory") {
+				await Responses.conflict(res)
+
+				return
+			}
+
+			const precondition = await checkPreconditions(this.server, req, resource, resource.path)
+
+			if (precondition === "badRequest") {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			if (precondition === "failed") {
+				await Responses.preconditionFailed(res, "precondition-failed")
 
 				return
 			}
 
-			const sdk = this.server.getSDKForUser(req.username)
+			const tokens = submittedLockTokens(req)
+			const lock =
+				this.server.locks.conflictingLock({ path: destination, tokens, recursive: true, username: req.username }) ??
+				this.server.locks.conflictingLock({ path: pathModule.posix.dirname(destination), tokens, username: req.username })
+
+			if (lock) {
+				await Responses.locked(res, lock.path)
 
-			if (!sdk) {
+				return
+			}
+
+			const storage = this.server.getStorageForUser(req.username)
+
+			if (!storage) {
 				await Responses.notAuthorized(res)
 
 				return
 			}
 
+			// Like deleted items, a replaced destination does not keep it's dead properties
+			if (destinationResource) {
+				await this.server.removeDeadProperties(destinationResource, req.username)
+
+				if (destinationResource.type === "directory") {
+					await this.server.removeFilesInside(destinationResource.path, req.username)
+				}
+			}
+
 			if (resource.isVirtual) {
-				if (overwrite && destinationResource) {
-					if (destinationResource.tempDiskId) {
-						await fs.rm(pathModule.join(this.server.tempDiskPath, destinationResource.tempDiskId), {
-							force: true,
-							maxRetries: 60 * 10,
-							recursive: true,
-							retryDelay: 100
-						})
-					}
+				const destinationUUID = uuidv4()
 
-					if (!destinationResource.isVirtual) {
-						await sdk.fs().unlink({
-							path: destinationResource.path,
-							permanent: true
-						})
-					}
+				if (overwrite && destinationResource) {
+					await this.server.removeReplacedDestination(destinationResource, false, req.username)
 
 					this.server.getVirtualFilesForUser(req.username)[destination] = {
 						...resource,
+						uuid: destinationUUID,
 						url: destination,
 						path: destination,
 						name: pathModule.posix.basename(destination)
 					}
 
+					await this.server.deadProperties.copy(resource.uuid, destinationUUID, req.username)
+
 					await Responses.noContent(res)
 
 					return
@@ -135,11 +344,14 @@ export class Copy {
 
 				this.server.getVirtualFilesForUser(req.username)[destination] = {
 					...resource,
+					uuid: destinationUUID,
 					url: destination,
 					path: destination,
 					name: pathModule.posix.basename(destination)
 				}
 
+				await this.server.deadProperties.copy(resource.uuid, destinationUUID, req.username)
+
 				await Responses.created(res)
 
 				return
@@ -147,23 +359,11 @@ export class Copy {
 
 			if (resource.tempDiskId) {
 				const destinationTempDiskFileId = pathToTempDiskFileId(destination, req.username)
+				const destinationUUID = uuidv4()
 
 				if (overwrite && destinationResource) {
-					if (destinationResource.tempDiskId) {
-						await fs.rm(pathModule.join(this.server.tempDiskPath, destinationResource.tempDiskId), {
-							force: true,
-							maxRetries: 60 * 10,
-							recursive: true,
-							retryDelay: 100
-						})
-					}
-
-					if (!destinationResource.isVirtual) {
-						await sdk.fs().unlink({
-							path: destinationResource.path,
-							permanent: true
-						})
-					}
+					// A pending copy replaces the stored destination once it is uploaded
+					await this.server.removeReplacedDestination(destinationResource, resource.pendingUpload === true, req.username)
 
 					await fs.copy(
 						pathModule.join(this.server.tempDiskPath, resource.tempDiskId),
@@ -172,12 +372,15 @@ export class Copy {
 
 					this.server.getTempDiskFilesForUser(req.username)[destination] = {
 						...resource,
+						uuid: destinationUUID,
 						url: destination,
 						path: destination,
 						name: pathModule.posix.basename(destination),
 						tempDiskId: destinationTempDiskFileId
 					}
 
+					await this.server.deadProperties.copy(resource.uuid, destinationUUID, req.username)
+
 					await Responses.noContent(res)
 
 					return
@@ -190,37 +393,39 @@ export class Copy {
 
 				this.server.getTempDiskFilesForUser(req.username)[destination] = {
 					...resource,
+					uuid: destinationUUID,
 					url: destination,
 					path: destination,
 					name: pathModule.posix.basename(destination),
 					tempDiskId: destinationTempDiskFileId
 				}
 
+				await this.server.deadProperties.copy(resource.uuid, destinationUUID, req.username)
+
 				await Responses.created(res)
 
 				return
 			}
 
 			if (overwrite && destinationResource) {
-				await sdk.fs().unlink({
-					path: destinationResource.path,
-					permanent: false
-				})
+				await this.server.removeReplacedDestination(destinationResource, false, req.username)
+
+				await this.copyToStorage(storage, resource, destination, depth)
+
+				await this.server.invalidateDirectoryListing(destination, req.username)
 
-				await sdk.fs().cp({
-					from: resource.path,
-					to: destination
-				})
+				await this.copyDeadProperties(req, storage, resource, destination)
 
 				await Responses.noContent(res)
 
 				return
 			}
 
-			await sdk.fs().cp({
-				from: resource.path,
-				to: destination
-			})
+			await this.copyToStorage(storage, resource, destination, depth)
+
+			await this.server.invalidateDirectoryListing(destination, req.username)
+
+			await this.copyDeadProperties(req, storage, resource, destination)
 
 			await Responses.created(res)
 		} catch (e) {
@@ -3,6 +3,9 @@ import type Server from ".."
 import Responses from "../responses"
 import fs from "fs-extra"
 import pathModule from "path"
+import { submittedLockTokens } from "../locks"
+import { checkPreconditions } from "../conditions"
+import { isTrashPath, deleteTrashItem } from "../trash"
 
 /**
  * Delete
@@ -42,9 +45,61 @@ export class Delete {
 				return
 			}
 
+			const precondition = await checkPreconditions(this.server, req, resource, resource.path)
+
+			if (precondition === "badRequest") {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			if (precondition === "failed") {
+				await Responses.preconditionFailed(res, "precondition-failed")
+
+				return
+			}
+
+			const tokens = submittedLockTokens(req)
+			const lock =
+				this.server.locks.conflictingLock({ path: resource.path, tokens, recursive: true, username: req.username }) ??
+				this.server.locks.conflictingLock({ path: pathModule.posix.dirname(resource.path), tokens, username: req.username })
+
+			if (lock) {
+				await Responses.locked(res, lock.path)
+
+				return
+			}
+
+			// Items of the trash collection are deleted permanently
+			if (isTrashPath(this.server, resource.path)) {
+				const sdk = this.server.getSDKForUser(req.username)
+
+				if (!sdk) {
+					await Responses.notAuthorized(res)
+
+					return
+				}
+
+				if (!(await deleteTrashItem(this.server, req, sdk, resource.path))) {
+					await Responses.notFound(res, req.url)
+
+					return
+				}
+
+				this.server.locks.removeLocksForPath(resource.path, req.username)
+
+				await Responses.ok(res)
+
+				return
+			}
+
+			await this.server.removeDeadProperties(resource, req.username)
+
 			if (resource.isVirtual) {
 				delete this.server.getVirtualFilesForUser(req.username)[resource.path]
 
+				this.server.locks.removeLocksForPath(resource.path, req.username)
+
 				await Responses.ok(res)
 
 				return
@@ -60,24 +115,39 @@ export class Delete {
 
 				delete this.server.getTempDiskFilesForUser(req.username)[resource.path]
 
+				if (resource.pendingUpload) {
+					await this.server.writeBack.removeReplaced(resource.path, req.username)
+				}
+
+				this.server.locks.removeLocksForPath(resource.path, req.username)
+
 				await Responses.ok(res)
 
 				return
 			}
 
-			const sdk = this.server.getSDKForUser(req.username)
+			const storage = this.server.getStorageForUser(req.username)
 
-			if (!sdk) {
+			if (!storage) {
 				await Responses.notAuthorized(res)
 
 				return
 			}
 
-			await sdk.fs().unlink({
+			if (resource.type === "directory") {
+				await this.server.removeFilesInside(resource.path, req.username)
+			}
+
+			await storage.unlink({
 				path: resource.path,
 				permanent: false
 			})
 
+			await this.server.invalidateDirectoryListing(resource.path, req.username)
+
+			this.server.invalidateTrashListing(req.username)
+			this.server.locks.removeLocksForPath(resource.path, req.username)
+
 			await Responses.ok(res)
 		} catch (e) {
 			this.server.logger.log("error", e, "delete")
@@ -1,10 +1,25 @@
 import { type Request, type Response } from "express"
-import type Server from ".."
+import { type WebDAVServer as Server, type Resource } from ".."
 import mimeTypes from "mime-types"
 import { Readable, pipeline } from "stream"
-import { type ReadableStream as ReadableStreamWebType } from "stream/web"
 import Responses from "../responses"
-import { parseByteRange } from "../utils"
+import { resourceETag, resourceLastModified, multipartByteRanges, type ByteRange } from "../utils"
+import { requestedByteRanges, isNotModified } from "../conditions"
+import { type StorageBackend } from "../storage"
+import { v4 as uuidv4 } from "uuid"
+import Propfind from "./propfind"
+import { renderDirectoryIndex } from "../browser"
+import { isVersionsPath } from "../versions"
+import { isTrashPath } from "../trash"
+import { createZipStream, type ZipEntry } from "../zip"
+import {
+	parseThumbnailSize,
+	generateThumbnail,
+	thumbnailMime,
+	THUMBNAIL_SOURCE_MIME_TYPES,
+	MAX_THUMBNAIL_SOURCE_SIZE,
+	type ThumbnailSize
+} from "../thumbnails"
 import fs from "fs-extra"
 import pathModule from "path"
 import { promisify } from "util"
@@ -19,6 +34,8 @@ const pipelineAsync = promisify(pipeline)
  * @typedef {Get}
  */
 export class Get {
+	private readonly propfind: Propfind
+
 	/**
 	 * Creates an instance of Get.
 	 *
@@ -27,11 +44,308 @@ export class Get {
 	 * @param {Server} server
 	 */
 	public constructor(private readonly server: Server) {
+		this.propfind = new Propfind(server)
+
 		this.handle = this.handle.bind(this)
 	}
 
 	/**
-	 * Download the requested file as a readStream.
+	 * Check if a GET request on a collection should be answered with the HTML directory index.
+	 *
+	 * @public
+	 * @param {Request} req
+	 * @param {Resource} resource
+	 * @returns {boolean}
+	 */
+	public wantsDirectoryIndex(req: Request, resource: Resource): boolean {
+		return this.server.enableDirectoryBrowser && resource.type === "directory" && (req.header("accept") ?? "").includes("text/html")
+	}
+
+	/**
+	 * Render the HTML index of a collection.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {Resource} resource
+	 * @returns {Promise<void>}
+	 */
+	public async directoryIndex(req: Request, res: Response, resource: Resource): Promise<void> {
+		const html = renderDirectoryIndex({
+			resource,
+			children: await this.propfind.children(req, resource),
+			writable: !isVersionsPath(this.server, resource.path) && !isTrashPath(this.server, resource.path)
+		})
+
+		res.status(200)
+		res.set("Content-Type", "text/html; charset=utf-8")
+		res.set("Content-Length", Buffer.byteLength(html).toString())
+		res.set("Cache-Control", "no-store")
+		res.set("Vary", "Accept")
+
+		await new Promise<void>(resolve => {
+			res.end(html, () => {
+				resolve()
+			})
+		})
+	}
+
+	/**
+	 * Check if a GET request on a collection asks for a ZIP archive of it, either with the "format=zip" query parameter or "Accept: application/zip".
+	 *
+	 * @public
+	 * @param {Request} req
+	 * @param {Resource} resource
+	 * @returns {boolean}
+	 */
+	public wantsArchive(req: Request, resource: Resource): boolean {
+		return resource.type === "directory" && (req.query.format === "zip" || (req.header("accept") ?? "").includes("application/zip"))
+	}
+
+	/**
+	 * Walk a collection depth first and yield it's descendants as archive entries. Directories are listed lazily while the archive is written.
+	 * The virtual trash and versions collections are only included if the archived collection lies inside them, an archive of the drive contains the live files only.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {StorageBackend} storage
+	 * @param {Resource} resource
+	 * @param {string} prefix Path of the collection inside the archive.
+	 * @returns {AsyncGenerator<ZipEntry>}
+	 */
+	public async *archiveEntries(req: Request, storage: StorageBackend, resource: Resource, prefix: string): AsyncGenerator<ZipEntry> {
+		const isNamespace = (path: string): boolean => isTrashPath(this.server, path) || isVersionsPath(this.server, path)
+
+		for (const child of await this.propfind.children(req, resource)) {
+			if (isNamespace(child.path) && !isNamespace(resource.path)) {
+				continue
+			}
+
+			const name = prefix.length > 0 ? `${prefix}/${child.name}` : child.name
+
+			if (child.type === "directory") {
+				yield {
+					type: "directory",
+					name,
+					mtimeMs: child.mtimeMs
+				}
+
+				yield* this.archiveEntries(req, storage, child, name)
+
+				continue
+			}
+
+			yield {
+				type: "file",
+				name,
+				mtimeMs: child.mtimeMs,
+				open: () =>
+					child.size === 0 ? Readable.from([]) : this.stream(storage, child, { start: 0, end: child.size - 1 }, req.username)
+			}
+		}
+	}
+
+	/**
+	 * Stream a collection and all of it's descendants as a ZIP64 archive. Files are downloaded one after another while the archive is written,
+	 * the download pauses while the client is not reading and stops as soon as the client disconnects.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {StorageBackend} storage
+	 * @param {Resource} resource
+	 * @returns {Promise<void>}
+	 */
+	public async archive(req: Request, res: Response, storage: StorageBackend, resource: Resource): Promise<void> {
+		const name = `${resource.path === "/" ? "Filen" : resource.name}.zip`
+		const fallbackName = name.replace(/[^\x20-\x7e]|["\\]/g, "_")
+		const encodedName = encodeURIComponent(name).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+		res.status(200)
+		res.set("Content-Type", "application/zip")
+		res.set("Content-Disposition", `attachment; filename="${fallbackName}"; filename*=UTF-8''${encodedName}`)
+		res.set("Cache-Control", "no-store")
+
+		await pipelineAsync(createZipStream(this.archiveEntries(req, storage, resource, "")), res)
+	}
+
+	/**
+	 * Read a whole file into memory.
+	 *
+	 * @public
+	 * @async
+	 * @param {StorageBackend} storage
+	 * @param {(Resource & { type: "file" })} resource
+	 * @param {?string} [username]
+	 * @returns {Promise<Buffer>}
+	 */
+	public async readFile(storage: StorageBackend, resource: Resource & { type: "file" }, username?: string): Promise<Buffer> {
+		if (resource.isVirtual || resource.size === 0) {
+			return Buffer.alloc(0)
+		}
+
+		const chunks: Buffer[] = []
+
+		for await (const chunk of this.stream(storage, resource, { start: 0, end: resource.size - 1 }, username)) {
+			chunks.push(chunk as Buffer)
+		}
+
+		return Buffer.concat(chunks)
+	}
+
+	/**
+	 * Send a scaled down version of an image. Thumbnails are cached on disk, keyed by the entity tag of the file and the requested size,
+	 * so the original only has to be downloaded and decrypted once.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {StorageBackend} storage
+	 * @param {(Resource & { type: "file" })} resource
+	 * @param {ThumbnailSize} size
+	 * @returns {Promise<void>}
+	 */
+	public async thumbnail(
+		req: Request,
+		res: Response,
+		storage: StorageBackend,
+		resource: Resource & { type: "file" },
+		size: ThumbnailSize
+	): Promise<void> {
+		const sourceMime = mimeTypes.lookup(resource.name) || resource.mime
+
+		if (!THUMBNAIL_SOURCE_MIME_TYPES.includes(sourceMime) || resource.size === 0 || resource.size > MAX_THUMBNAIL_SOURCE_SIZE) {
+			await Responses.unsupportedMediaType(res)
+
+			return
+		}
+
+		const key = resourceETag(resource).slice(1, -1)
+		const entityTag = `"${key}-${size.width}x${size.height}"`
+		const mime = thumbnailMime(sourceMime)
+
+		res.set("ETag", entityTag)
+		res.set("Last-Modified", resourceLastModified(resource))
+
+		if (isNotModified(req, resource, entityTag)) {
+			await Responses.notModified(res)
+
+			return
+		}
+
+		let data: Buffer
+
+		try {
+			data = await this.server.thumbnails.getOrGenerate(key, size, mime, async () =>
+				generateThumbnail(await this.readFile(storage, resource, req.username), sourceMime, size)
+			)
+		} catch (e) {
+			this.server.logger.log("error", e, "get.thumbnail")
+
+			await Responses.unsupportedMediaType(res)
+
+			return
+		}
+
+		res.status(200)
+		res.set("Content-Type", mime)
+		res.set("Content-Length", data.byteLength.toString())
+
+		await new Promise<void>(resolve => {
+			res.end(data, () => {
+				resolve()
+			})
+		})
+	}
+
+	/**
+	 * Open a stream of a byte range of a file, read through the chunk cache. Reading from the storage stops once the stream is destroyed,
+	 * callers have to destroy it when the response closes early (pipeline does that).
+	 *
+	 * @public
+	 * @param {StorageBackend} storage
+	 * @param {(Resource & { type: "file" })} resource
+	 * @param {ByteRange} range
+	 * @param {?string} [username]
+	 * @returns {Readable}
+	 */
+	public stream(storage: StorageBackend, resource: Resource & { type: "file" }, range: ByteRange, username?: string): Readable {
+		if (resource.tempDiskId) {
+			return fs.createReadStream(pathModule.join(this.server.tempDiskPath, resource.tempDiskId), {
+				autoClose: true,
+				flags: "r",
+				start: range.start,
+				end: range.end
+			})
+		}
+
+		if (!this.server.chunkCache.accepts(resource.size)) {
+			return storage.createReadStream({
+				path: resource.path,
+				file: resource,
+				start: range.start,
+				end: range.end
+			})
+		}
+
+		return this.server.chunkCache.stream(
+			resourceETag(resource).slice(1, -1),
+			resource.size,
+			range,
+			(start, end) =>
+				storage.createReadStream({
+					path: resource.path,
+					file: resource,
+					start,
+					end
+				}),
+			username
+		)
+	}
+
+	/**
+	 * Write a stream into the response without ending it. Resolves once the stream ended or the response was closed.
+	 *
+	 * @public
+	 * @async
+	 * @param {Readable} stream
+	 * @param {Response} res
+	 * @returns {Promise<void>}
+	 */
+	public async pipeWithoutEnd(stream: Readable, res: Response): Promise<void> {
+		await new Promise<void>((resolve, reject) => {
+			const onClose = () => {
+				stream.destroy()
+
+				resolve()
+			}
+
+			res.once("close", onClose)
+
+			stream.once("error", err => {
+				res.off("close", onClose)
+
+				reject(err)
+			})
+
+			stream.once("end", () => {
+				res.off("close", onClose)
+
+				resolve()
+			})
+
+			stream.pipe(res, {
+				end: false
+			})
+		})
+	}
+
+	/**
+	 * Download the requested file as a readStream. Supports single and multiple byte ranges (RFC 7233), the latter are sent as multipart/byteranges.
 	 *
 	 * @public
 	 * @async
@@ -43,12 +357,62 @@ export class Get {
 		try {
 			const resource = await this.server.urlToResource(req)
 
+			if (resource && this.wantsArchive(req, resource)) {
+				const storage = this.server.getStorageForUser(req.username)
+
+				if (!storage) {
+					await Responses.notAuthorized(res)
+
+					return
+				}
+
+				await this.archive(req, res, storage, resource)
+
+				return
+			}
+
+			if (resource && this.wantsDirectoryIndex(req, resource)) {
+				await this.directoryIndex(req, res, resource)
+
+				return
+			}
+
 			if (!resource || resource.type === "directory") {
 				await Responses.notFound(res, req.url)
 
 				return
 			}
 
+			if (typeof req.query.thumbnail === "string") {
+				const size = parseThumbnailSize(req.query.thumbnail)
+				const storage = this.server.getStorageForUser(req.username)
+
+				if (!size) {
+					await Responses.badRequest(res)
+
+					return
+				}
+
+				if (!storage) {
+					await Responses.notAuthorized(res)
+
+					return
+				}
+
+				await this.thumbnail(req, res, storage, resource, size)
+
+				return
+			}
+
+			res.set("ETag", resourceETag(resource))
+			res.set("Last-Modified", resourceLastModified(resource))
+
+			if (isNotModified(req, resource)) {
+				await Responses.notModified(res)
+
+				return
+			}
+
 			if (resource.isVirtual) {
 				res.status(200)
 				res.set("Content-Type", resource.mime)
@@ -59,9 +423,9 @@ export class Get {
 				return
 			}
 
-			const sdk = this.server.getSDKForUser(req.username)
+			const storage = this.server.getStorageForUser(req.username)
 
-			if (!sdk) {
+			if (!storage) {
 				await Responses.notAuthorized(res)
 
 				return
@@ -69,96 +433,58 @@ export class Get {
 
 			const mimeType = mimeTypes.lookup(resource.name) || "application/octet-stream"
 			const totalLength = resource.size
-			const range = req.headers.range || req.headers["content-range"]
-			let start = 0
-			let end = totalLength - 1
-
-			if (range) {
-				const parsedRange = parseByteRange(range, totalLength)
-
-				if (!parsedRange) {
-					await Responses.badRequest(res)
-
-					return
-				}
+			const ranges = requestedByteRanges(req, resource)
 
-				start = parsedRange.start
-				end = parsedRange.end
+			if (ranges && ranges.length === 0) {
+				await Responses.rangeNotSatisfiable(res, totalLength)
 
-				res.status(206)
-				res.set("Content-Range", `bytes ${start}-${end}/${totalLength}`)
-				res.set("Content-Length", (end - start + 1).toString())
-			} else {
-				res.status(200)
-				res.set("Content-Length", resource.size.toString())
+				return
 			}
 
-			res.set("Content-Type", mimeType)
 			res.set("Accept-Ranges", "bytes")
 
-			if (resource.tempDiskId) {
-				await pipelineAsync(
-					fs.createReadStream(pathModule.join(this.server.tempDiskPath, resource.tempDiskId), {
-						autoClose: true,
-						flags: "r",
-						start,
-						end
-					}),
-					res
-				)
-			} else {
-				const stream = sdk.cloud().downloadFileToReadableStream({
-					uuid: resource.uuid,
-					bucket: resource.bucket,
-					region: resource.region,
-					version: resource.version,
-					key: resource.key,
-					size: resource.size,
-					chunks: resource.chunks,
-					start,
-					end
-				})
-
-				const nodeStream = Readable.fromWeb(stream as unknown as ReadableStreamWebType<Buffer>)
+			if (ranges && ranges.length > 1) {
+				const boundary = uuidv4().split("-").join("")
+				const multipart = multipartByteRanges(ranges, mimeType, totalLength, boundary)
 
-				const cleanup = () => {
-					try {
-						stream.cancel().catch(() => {})
+				res.status(206)
+				res.set("Content-Type", `multipart/byteranges; boundary=${boundary}`)
+				res.set("Content-Length", multipart.length.toString())
 
-						if (!nodeStream.closed && !nodeStream.destroyed) {
-							nodeStream.destroy()
-						}
-					} catch {
-						// Noop
+				for (let i = 0; i < ranges.length; i++) {
+					if (res.destroyed) {
+						return
 					}
+
+					res.write(multipart.headers[i]!)
+
+					await this.pipeWithoutEnd(this.stream(storage, resource, ranges[i]!, req.username), res)
 				}
 
-				res.once("close", () => {
-					cleanup()
-				})
+				res.end(multipart.trailer)
 
-				res.once("error", () => {
-					cleanup()
-				})
+				return
+			}
 
-				res.once("finish", () => {
-					cleanup()
-				})
+			const range = ranges ? ranges[0]! : { start: 0, end: totalLength - 1 }
 
-				req.once("close", () => {
-					cleanup()
-				})
+			if (ranges) {
+				res.status(206)
+				res.set("Content-Range", `bytes ${range.start}-${range.end}/${totalLength}`)
+			} else {
+				res.status(200)
+			}
 
-				req.once("error", () => {
-					cleanup()
-				})
+			res.set("Content-Length", (range.end - range.start + 1).toString())
+			res.set("Content-Type", mimeType)
 
-				nodeStream.once("error", () => {
-					cleanup()
-				})
+			if (totalLength === 0) {
+				res.end()
 
-				nodeStream.pipe(res)
+				return
 			}
+
+			await pipelineAsync(this.stream(storage, resource, range, req.username), res)
 		} catch (e) {
 			this.server.logger.log("error", e, "get")
 			this.server.logger.log("error", e)
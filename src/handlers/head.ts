@@ -2,7 +2,9 @@ import { type Request, type Response } from "express"
 import type Server from ".."
 import mimeTypes from "mime-types"
 import Responses from "../responses"
-import { parseByteRange } from "../utils"
+import { resourceETag, resourceLastModified, multipartByteRanges } from "../utils"
+import { requestedByteRanges, isNotModified } from "../conditions"
+import { v4 as uuidv4 } from "uuid"
 
 /**
  * Head
@@ -48,35 +50,46 @@ export class Head {
 				return
 			}
 
+			res.set("ETag", resourceETag(resource))
+			res.set("Last-Modified", resourceLastModified(resource))
+
+			if (isNotModified(req, resource)) {
+				await Responses.notModified(res)
+
+				return
+			}
+
 			const mimeType = mimeTypes.lookup(resource.name) || "application/octet-stream"
 			const totalLength = resource.size
-			const range = req.headers.range || req.headers["content-range"]
-			let start = 0
-			let end = totalLength - 1
+			const ranges = requestedByteRanges(req, resource)
+
+			if (ranges && ranges.length === 0) {
+				await Responses.rangeNotSatisfiable(res, totalLength)
 
-			if (range) {
-				const parsedRange = parseByteRange(range, totalLength)
+				return
+			}
 
-				if (!parsedRange) {
-					res.status(400).end()
+			res.set("Accept-Ranges", "bytes")
 
-					return
-				}
+			if (ranges && ranges.length > 1) {
+				const boundary = uuidv4().split("-").join("")
 
-				start = parsedRange.start
-				end = parsedRange.end
+				res.status(206)
+				res.set("Content-Type", `multipart/byteranges; boundary=${boundary}`)
+				res.set("Content-Length", multipartByteRanges(ranges, mimeType, totalLength, boundary).length.toString())
+			} else if (ranges) {
+				const range = ranges[0]!
 
 				res.status(206)
-				res.set("Content-Range", `bytes ${start}-${end}/${totalLength}`)
-				res.set("Content-Length", (end - start + 1).toString())
+				res.set("Content-Range", `bytes ${range.start}-${range.end}/${totalLength}`)
+				res.set("Content-Length", (range.end - range.start + 1).toString())
+				res.set("Content-Type", mimeType)
 			} else {
 				res.status(200)
-				res.set("Content-Length", resource.size.toString())
+				res.set("Content-Length", totalLength.toString())
+				res.set("Content-Type", mimeType)
 			}
 
-			res.set("Content-Type", mimeType)
-			res.set("Accept-Ranges", "bytes")
-
 			await new Promise<void>(resolve => {
 				res.end(() => {
 					resolve()
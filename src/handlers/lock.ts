@@ -1,6 +1,12 @@
 import { type Request, type Response } from "express"
 import Responses from "../responses"
 import type Server from ".."
+import { parseXML, findChild } from "../xml"
+import { parseLockTimeout, submittedLockTokens, type LockScope } from "../locks"
+import { removeLastSlash } from "../utils"
+import pathModule from "path"
+import { v4 as uuidv4 } from "uuid"
+import mimeTypes from "mime-types"
 
 /**
  * Lock
@@ -22,17 +28,137 @@ export class Lock {
 	}
 
 	/**
-	 * Handle locking. Not implemented (needed) right now.
+	 * Handle locking. Creates a new exclusive or shared write lock or refreshes an existing one when no body is sent.
+	 * Locking an unmapped URL creates an empty virtual file, just like an empty PUT does.
 	 *
 	 * @public
 	 * @async
-	 * @param {Request} _
+	 * @param {Request} req
 	 * @param {Response} res
 	 * @returns {Promise<void>}
 	 */
-	public async handle(_: Request, res: Response): Promise<void> {
+	public async handle(req: Request, res: Response): Promise<void> {
 		try {
-			await Responses.notImplemented(res)
+			const url = decodeURIComponent(req.url)
+			const path = url === "/" ? url : removeLastSlash(url)
+			const timeout = parseLockTimeout(req.header("timeout"))
+			const lockInfo = await parseXML(req.body)
+
+			if (!lockInfo) {
+				// No body means the client wants to refresh an existing lock, identified by the If header
+				const tokens = submittedLockTokens(req)
+				const lock = tokens
+					.map(token => this.server.locks.get(token, req.username))
+					.find(lock => lock !== null && this.server.locks.locksForPath(path, req.username).includes(lock))
+
+				if (!lock) {
+					await Responses.preconditionFailed(res)
+
+					return
+				}
+
+				await Responses.lock(res, this.server.locks.refresh(lock.token, timeout, req.username)!)
+
+				return
+			}
+
+			if (lockInfo.name !== "lockinfo") {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			const scopeElement = findChild(lockInfo, "lockscope")
+			const scope: LockScope | null = findChild(scopeElement, "exclusive")
+				? "exclusive"
+				: findChild(scopeElement, "shared")
+				? "shared"
+				: null
+
+			if (!scope || !findChild(findChild(lockInfo, "locktype"), "write")) {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			const depthHeader = (req.header("depth") ?? "infinity").toLowerCase()
+
+			if (depthHeader !== "0" && depthHeader !== "infinity") {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			let resource = await this.server.urlToResource(req)
+			let created = false
+
+			if (!resource) {
+				const storage = this.server.getStorageForUser(req.username)
+
+				if (!storage) {
+					await Responses.notAuthorized(res)
+
+					return
+				}
+
+				const parentResource = await this.server.pathToResource(req, pathModule.posix.dirname(path))
+
+				if (!parentResource || parentResource.type !== "directory") {
+					await Responses.conflict(res)
+
+					return
+				}
+
+				const name = pathModule.posix.basename(path)
+
+				resource = {
+					type: "file",
+					uuid: uuidv4(),
+					path: path,
+					url: path,
+					isDirectory() {
+						return false
+					},
+					isFile() {
+						return true
+					},
+					mtimeMs: Date.now(),
+					region: "",
+					bucket: "",
+					birthtimeMs: Date.now(),
+					key: "",
+					lastModified: Date.now(),
+					name,
+					mime: mimeTypes.lookup(name) || "application/octet-stream",
+					version: 2,
+					chunks: 1,
+					size: 0,
+					isVirtual: true
+				}
+
+				created = true
+			}
+
+			const lock = this.server.locks.lock({
+				path,
+				scope,
+				depth: resource.type === "directory" ? depthHeader : "0",
+				owner: findChild(lockInfo, "owner"),
+				timeout,
+				username: req.username
+			})
+
+			if (!lock) {
+				await Responses.locked(res, path)
+
+				return
+			}
+
+			if (created) {
+				this.server.getVirtualFilesForUser(req.username)[path] = resource
+			}
+
+			await Responses.lock(res, lock, created)
 		} catch (e) {
 			this.server.logger.log("error", e, "lock")
 			this.server.logger.log("error", e)
@@ -1,6 +1,8 @@
 import { type Request, type Response } from "express"
 import type Server from ".."
 import Responses from "../responses"
+import { submittedLockTokens } from "../locks"
+import pathModule from "path"
 
 /**
  * Mkcol
@@ -22,7 +24,7 @@ export class Mkcol {
 	}
 
 	/**
-	 * Create a directory at the requested URL.
+	 * Create a directory at the requested URL. Existing resources are refused with 405, a missing parent with 409 (RFC 4918 section 9.3.1).
 	 *
 	 * @public
 	 * @async
@@ -33,16 +35,50 @@ export class Mkcol {
 	public async handle(req: Request, res: Response): Promise<void> {
 		try {
 			const path = decodeURIComponent(req.url.endsWith("/") ? req.url.slice(0, req.url.length - 1) : req.url)
-			const sdk = this.server.getSDKForUser(req.username)
+			const storage = this.server.getStorageForUser(req.username)
 
-			if (!sdk) {
+			if (!storage) {
 				await Responses.notAuthorized(res)
 
 				return
 			}
 
-			// The SDK handles checking if a directory with the same name and parent already exists
-			await sdk.fs().mkdir({ path })
+			const tokens = submittedLockTokens(req)
+			const lock =
+				this.server.locks.conflictingLock({ path, tokens, username: req.username }) ??
+				this.server.locks.conflictingLock({ path: pathModule.posix.dirname(path), tokens, username: req.username })
+
+			if (lock) {
+				await Responses.locked(res, lock.path)
+
+				return
+			}
+
+			// MKCOL bodies are not specified by RFC 4918, so we do not support any
+			if (parseInt(req.header("content-length") ?? "0", 10) > 0 || req.header("transfer-encoding")) {
+				await Responses.unsupportedMediaType(res)
+
+				return
+			}
+
+			if (await this.server.urlToResource(req)) {
+				await Responses.methodNotAllowed(res)
+
+				return
+			}
+
+			// Only the last segment is created, intermediate collections have to exist already
+			const parentResource = await this.server.pathToResource(req, pathModule.posix.dirname(path))
+
+			if (!parentResource || parentResource.type !== "directory") {
+				await Responses.conflict(res)
+
+				return
+			}
+
+			await storage.mkdir({ path })
+
+			await this.server.invalidateDirectoryListing(path, req.username)
 
 			const resource = await this.server.urlToResource(req)
 
@@ -1,9 +1,12 @@
 import { type Request, type Response } from "express"
-import type Server from ".."
+import { type WebDAVServer as Server, type Resource } from ".."
 import Responses from "../responses"
 import { removeLastSlash, pathToTempDiskFileId } from "../utils"
 import pathModule from "path"
 import fs from "fs-extra"
+import { submittedLockTokens, isPathInside } from "../locks"
+import { checkPreconditions } from "../conditions"
+import { isTrashPath, restoreTrashItem } from "../trash"
 
 /**
  * Move
@@ -24,6 +27,93 @@ export class Move {
 		this.handle = this.handle.bind(this)
 	}
 
+	/**
+	 * Restore an item of the trash collection by moving it out of the trash to the destination. Overwrite if needed.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {Resource} resource
+	 * @param {string} destination
+	 * @param {(Resource | null)} destinationResource
+	 * @param {boolean} overwrite
+	 * @returns {Promise<void>}
+	 */
+	public async restore(
+		req: Request,
+		res: Response,
+		resource: Resource,
+		destination: string,
+		destinationResource: Resource | null,
+		overwrite: boolean
+	): Promise<void> {
+		if (!overwrite && destinationResource) {
+			await Responses.preconditionFailed(res)
+
+			return
+		}
+
+		const tokens = submittedLockTokens(req)
+		const lock =
+			this.server.locks.conflictingLock({ path: destination, tokens, recursive: true, username: req.username }) ??
+			this.server.locks.conflictingLock({ path: pathModule.posix.dirname(destination), tokens, username: req.username })
+
+		if (lock) {
+			await Responses.locked(res, lock.path)
+
+			return
+		}
+
+		const parent = await this.server.pathToResource(req, pathModule.posix.dirname(destination))
+
+		if (!parent || parent.type !== "directory") {
+			await Responses.conflict(res)
+
+			return
+		}
+
+		const sdk = this.server.getSDKForUser(req.username)
+		const storage = this.server.getStorageForUser(req.username)
+
+		if (!sdk || !storage) {
+			await Responses.notAuthorized(res)
+
+			return
+		}
+
+		if (destinationResource) {
+			await this.server.removeDeadProperties(destinationResource, req.username)
+
+			if (destinationResource.type === "directory") {
+				await this.server.removeFilesInside(destinationResource.path, req.username)
+			}
+
+			await this.server.removeReplacedDestination(destinationResource, false, req.username)
+		}
+
+		const restored = await restoreTrashItem(this.server, req, sdk, resource.path, {
+			parent: parent.uuid,
+			name: pathModule.posix.basename(destination)
+		})
+
+		if (!restored) {
+			await Responses.notFound(res, req.url)
+
+			return
+		}
+
+		this.server.locks.removeLocksForPath(resource.path, req.username)
+
+		if (destinationResource) {
+			await Responses.noContent(res)
+
+			return
+		}
+
+		await Responses.created(res)
+	}
+
 	/**
 	 * Move a file or a directory to the destination chosen in the header.
 	 *
@@ -36,7 +126,8 @@ export class Move {
 	public async handle(req: Request, res: Response): Promise<void> {
 		try {
 			const destinationHeader = req.headers["destination"]
-			const overwrite = req.headers["overwrite"] === "T"
+			// RFC 4918 section 10.6: A missing Overwrite header is treated as "T"
+			const overwrite = req.headers["overwrite"] !== "F"
 
 			if (
 				typeof destinationHeader !== "string" ||
@@ -83,43 +174,87 @@ export class Move {
 				return
 			}
 
-			if (resource.path === destination) {
-				await Responses.created(res)
+			if (isTrashPath(this.server, resource.path)) {
+				await this.restore(req, res, resource, destination, destinationResource, overwrite)
+
+				return
+			}
+
+			// Collections are always moved as a whole (RFC 4918 section 9.9.2)
+			if ((req.header("depth") ?? "infinity") !== "infinity") {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			// A resource can neither replace itself nor be placed inside itself
+			if (isPathInside(destination, resource.path)) {
+				await Responses.forbidden(res)
 
 				return
 			}
 
 			if (!overwrite && destinationResource) {
-				await Responses.alreadyExists(res)
+				await Responses.preconditionFailed(res)
 
 				return
 			}
 
-			const sdk = this.server.getSDKForUser(req.username)
+			const parentResource = await this.server.pathToResource(req, pathModule.posix.dirname(removeLastSlash(destination)))
 
-			if (!sdk) {
+			if (!parentResource || parentResource.type !== "directory") {
+				await Responses.conflict(res)
+
+				return
+			}
+
+			const precondition = await checkPreconditions(this.server, req, resource, resource.path)
+
+			if (precondition === "badRequest") {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			if (precondition === "failed") {
+				await Responses.preconditionFailed(res, "precondition-failed")
+
+				return
+			}
+
+			const tokens = submittedLockTokens(req)
+			const lock =
+				this.server.locks.conflictingLock({ path: resource.path, tokens, recursive: true, username: req.username }) ??
+				this.server.locks.conflictingLock({ path: pathModule.posix.dirname(resource.path), tokens, username: req.username }) ??
+				this.server.locks.conflictingLock({ path: destination, tokens, recursive: true, username: req.username }) ??
+				this.server.locks.conflictingLock({ path: pathModule.posix.dirname(destination), tokens, username: req.username })
+
+			if (lock) {
+				await Responses.locked(res, lock.path)
+
+				return
+			}
+
+			const storage = this.server.getStorageForUser(req.username)
+
+			if (!storage) {
 				await Responses.notAuthorized(res)
 
 				return
 			}
 
+			// Like deleted items, a replaced destination does not keep it's dead properties
+			if (destinationResource) {
+				await this.server.removeDeadProperties(destinationResource, req.username)
+
+				if (destinationResource.type === "directory") {
+					await this.server.removeFilesInside(destinationResource.path, req.username)
+				}
+			}
+
 			if (resource.isVirtual) {
 				if (overwrite && destinationResource) {
-					if (destinationResource.tempDiskId) {
-						await fs.rm(pathModule.join(this.server.tempDiskPath, destinationResource.tempDiskId), {
-							force: true,
-							maxRetries: 60 * 10,
-							recursive: true,
-							retryDelay: 100
-						})
-					}
-
-					if (!destinationResource.isVirtual) {
-						await sdk.fs().unlink({
-							path: destinationResource.path,
-							permanent: true
-						})
-					}
+					await this.server.removeReplacedDestination(destinationResource, false, req.username)
 
 					this.server.getVirtualFilesForUser(req.username)[destination] = {
 						...resource,
@@ -130,6 +265,8 @@ export class Move {
 
 					delete this.server.getVirtualFilesForUser(req.username)[resource.path]
 
+					this.server.locks.removeLocksForPath(resource.path, req.username)
+
 					await Responses.noContent(res)
 
 					return
@@ -144,6 +281,8 @@ export class Move {
 
 				delete this.server.getVirtualFilesForUser(req.username)[resource.path]
 
+				this.server.locks.removeLocksForPath(resource.path, req.username)
+
 				await Responses.created(res)
 
 				return
@@ -153,21 +292,8 @@ export class Move {
 				const destinationTempDiskFileId = pathToTempDiskFileId(destination, req.username)
 
 				if (overwrite && destinationResource) {
-					if (destinationResource.tempDiskId) {
-						await fs.rm(pathModule.join(this.server.tempDiskPath, destinationResource.tempDiskId), {
-							force: true,
-							maxRetries: 60 * 10,
-							recursive: true,
-							retryDelay: 100
-						})
-					}
-
-					if (!destinationResource.isVirtual) {
-						await sdk.fs().unlink({
-							path: destinationResource.path,
-							permanent: true
-						})
-					}
+					// A pending file replaces the stored destination once it is uploaded
+					await this.server.removeReplacedDestination(destinationResource, resource.pendingUpload === true, req.username)
 
 					await fs.rename(
 						pathModule.join(this.server.tempDiskPath, resource.tempDiskId),
@@ -184,6 +310,12 @@ export class Move {
 
 					delete this.server.getTempDiskFilesForUser(req.username)[resource.path]
 
+					if (resource.pendingUpload) {
+						await this.server.writeBack.removeReplaced(resource.path, req.username)
+					}
+
+					this.server.locks.removeLocksForPath(resource.path, req.username)
+
 					await Responses.noContent(res)
 
 					return
@@ -204,32 +336,53 @@ export class Move {
 
 				delete this.server.getTempDiskFilesForUser(req.username)[resource.path]
 
+				if (resource.pendingUpload) {
+					await this.server.writeBack.removeReplaced(resource.path, req.username)
+				}
+
+				this.server.locks.removeLocksForPath(resource.path, req.username)
+
 				await Responses.created(res)
 
 				return
 			}
 
 			if (overwrite && destinationResource) {
-				await sdk.fs().unlink({
-					path: destinationResource.path,
-					permanent: false
-				})
+				await this.server.removeReplacedDestination(destinationResource, false, req.username)
 
-				await sdk.fs().rename({
+				await storage.rename({
 					from: resource.path,
 					to: destination
 				})
 
+				if (resource.type === "directory") {
+					await this.server.moveFilesInside(resource.path, destination, req.username)
+				}
+
+				await this.server.invalidateDirectoryListing(resource.path, req.username)
+				await this.server.invalidateDirectoryListing(destination, req.username)
+
+				this.server.locks.removeLocksForPath(resource.path, req.username)
+
 				await Responses.noContent(res)
 
 				return
 			}
 
-			await sdk.fs().rename({
+			await storage.rename({
 				from: resource.path,
 				to: destination
 			})
 
+			if (resource.type === "directory") {
+				await this.server.moveFilesInside(resource.path, destination, req.username)
+			}
+
+			await this.server.invalidateDirectoryListing(resource.path, req.username)
+			await this.server.invalidateDirectoryListing(destination, req.username)
+
+			this.server.locks.removeLocksForPath(resource.path, req.username)
+
 			await Responses.created(res)
 		} catch (e) {
 			this.server.logger.log("error", e, "move")
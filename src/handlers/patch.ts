@@ -0,0 +1,274 @@
+import { type Request, type Response } from "express"
+import { type WebDAVServer as Server, type Resource } from ".."
+import Responses from "../responses"
+import pathModule from "path"
+import fs from "fs-extra"
+import { PassThrough, pipeline } from "stream"
+import { promisify } from "util"
+import { v4 as uuidv4 } from "uuid"
+import { UPLOAD_CHUNK_SIZE } from "@filen/sdk"
+import { type StorageBackend } from "../storage"
+import { removeLastSlash, parseUpdateRange, clientTimestamps, acceptClientTimestamps, type UpdateRange } from "../utils"
+import { submittedLockTokens } from "../locks"
+import { checkPreconditions } from "../conditions"
+import { CHECKSUMS_PROPERTY } from "../checksums"
+
+const pipelineAsync = promisify(pipeline)
+
+export const PARTIAL_UPDATE_CONTENT_TYPE = "application/x-sabredav-partialupdate"
+
+/**
+ * Patch
+ * Partial updates of existing files, compatible with sabre/dav's partial update plugin. Also used for PUT requests carrying a Content-Range.
+ * The current content is copied into a temporary file, the request body is written into it at the requested offset and the result replaces the file (creating a new version in the cloud).
+ *
+ * @export
+ * @class Patch
+ * @typedef {Patch}
+ */
+export class Patch {
+	/**
+	 * Creates an instance of Patch.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {Server} server
+	 */
+	public constructor(private readonly server: Server) {
+		this.handle = this.handle.bind(this)
+	}
+
+	/**
+	 * Copy the current content of a file to a local path.
+	 *
+	 * @public
+	 * @async
+	 * @param {StorageBackend} storage
+	 * @param {Resource} resource
+	 * @param {string} destination
+	 * @returns {Promise<void>}
+	 */
+	public async download(storage: StorageBackend, resource: Resource, destination: string): Promise<void> {
+		if (resource.type !== "file" || resource.isVirtual || resource.size === 0) {
+			await fs.writeFile(destination, Buffer.alloc(0))
+
+			return
+		}
+
+		if (resource.tempDiskId) {
+			await fs.copy(pathModule.join(this.server.tempDiskPath, resource.tempDiskId), destination)
+
+			return
+		}
+
+		await pipelineAsync(
+			storage.createReadStream({
+				path: resource.path,
+				file: resource
+			}),
+			fs.createWriteStream(destination, {
+				flags: "w",
+				autoClose: true
+			})
+		)
+	}
+
+	/**
+	 * Write the request body into the requested file at the given range.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {UpdateRange} range
+	 * @returns {Promise<void>}
+	 */
+	public async update(req: Request, res: Response, range: UpdateRange): Promise<void> {
+		const path = removeLastSlash(decodeURIComponent(req.url))
+		const resource = await this.server.pathToResource(req, path)
+
+		if (!resource) {
+			await Responses.notFound(res, req.url)
+
+			return
+		}
+
+		if (resource.type !== "file") {
+			await Responses.forbidden(res)
+
+			return
+		}
+
+		const precondition = await checkPreconditions(this.server, req, resource, path)
+
+		if (precondition === "badRequest") {
+			await Responses.badRequest(res)
+
+			return
+		}
+
+		if (precondition === "failed") {
+			await Responses.preconditionFailed(res, "precondition-failed")
+
+			return
+		}
+
+		const lock = this.server.locks.conflictingLock({ path, tokens: submittedLockTokens(req), username: req.username })
+
+		if (lock) {
+			await Responses.locked(res, lock.path)
+
+			return
+		}
+
+		const storage = this.server.getStorageForUser(req.username)
+
+		if (!storage) {
+			await Responses.notAuthorized(res)
+
+			return
+		}
+
+		const contentLength = /^\d+$/.test(req.header("content-length") ?? "") ? parseInt(req.header("content-length")!, 10) : null
+		const size = resource.size
+		const start = range.type === "append" ? size : range.type === "suffix" ? size - range.length : range.start
+		const length =
+			range.type === "range" && range.end !== null
+				? range.end - range.start + 1
+				: range.type === "suffix"
+				? range.length
+				: contentLength
+
+		if (start < 0 || start > size) {
+			await Responses.rangeNotSatisfiable(res, size)
+
+			return
+		}
+
+		if (length === null || (contentLength !== null && contentLength !== length)) {
+			await Responses.badRequest(res)
+
+			return
+		}
+
+		const newSize = Math.max(size, start + length)
+
+		if (!resource.tempDiskId && newSize - size > (await this.server.quota(req.username)).available) {
+			await Responses.insufficientStorage(res, "quota-not-exceeded")
+
+			return
+		}
+
+		const tempPath = pathModule.join(this.server.tempDiskPath, `${uuidv4()}.partial`)
+		const timestamps = clientTimestamps(req)
+
+		try {
+			await this.download(storage, resource, tempPath)
+
+			const stream = new PassThrough()
+			const writeStream = fs.createWriteStream(tempPath, {
+				flags: "r+",
+				start,
+				autoClose: true
+			})
+
+			if (req.firstBodyChunk) {
+				stream.write(req.firstBodyChunk)
+			}
+
+			await pipelineAsync(req.pipe(stream), writeStream)
+
+			if (writeStream.bytesWritten !== length) {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			if (resource.tempDiskId) {
+				await fs.move(tempPath, pathModule.join(this.server.tempDiskPath, resource.tempDiskId), {
+					overwrite: true
+				})
+
+				await this.server.deadProperties.remove(resource.uuid, CHECKSUMS_PROPERTY.name, CHECKSUMS_PROPERTY.namespace, req.username)
+
+				this.server.getTempDiskFilesForUser(req.username)[path] = {
+					...resource,
+					size: newSize,
+					chunks: Math.ceil(newSize / UPLOAD_CHUNK_SIZE),
+					mtimeMs: timestamps.lastModified ?? Date.now(),
+					lastModified: timestamps.lastModified ?? Date.now()
+				}
+
+				acceptClientTimestamps(res, timestamps)
+
+				await Responses.noContent(res)
+
+				return
+			}
+
+			const parentResource = await this.server.pathToResource(req, pathModule.posix.dirname(path))
+
+			if (!parentResource || parentResource.type !== "directory") {
+				await Responses.preconditionFailed(res)
+
+				return
+			}
+
+			const item = await storage.writeFile({
+				path,
+				source: fs.createReadStream(tempPath),
+				lastModified: timestamps.lastModified ?? undefined
+			})
+
+			delete this.server.getVirtualFilesForUser(req.username)[path]
+
+			await this.server.registerUpload(path, item, resource, req.username)
+
+			acceptClientTimestamps(res, timestamps)
+
+			await Responses.noContent(res)
+		} finally {
+			await fs.rm(tempPath, {
+				force: true,
+				maxRetries: 60 * 10,
+				retryDelay: 100
+			})
+		}
+	}
+
+	/**
+	 * Handle a sabre/dav style partial update. The range is given in the X-Update-Range header.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @returns {Promise<void>}
+	 */
+	public async handle(req: Request, res: Response): Promise<void> {
+		try {
+			if (!(req.header("content-type") ?? "").toLowerCase().startsWith(PARTIAL_UPDATE_CONTENT_TYPE)) {
+				await Responses.unsupportedMediaType(res)
+
+				return
+			}
+
+			const range = parseUpdateRange(req.header("x-update-range") ?? "")
+
+			if (!range) {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			await this.update(req, res, range)
+		} catch (e) {
+			this.server.logger.log("error", e, "patch")
+			this.server.logger.log("error", e)
+
+			Responses.internalError(res).catch(() => {})
+		}
+	}
+}
+
+export default Patch
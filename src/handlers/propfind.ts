@@ -1,9 +1,13 @@
 import { type Request, type Response } from "express"
-import type Server from ".."
+import { type WebDAVServer as Server, type Resource } from ".."
 import Responses from "../responses"
 import pathModule from "path"
-import { promiseAllChunked } from "../utils"
-import { type StatFS, type FilenSDK } from "@filen/sdk"
+import { statsToResource } from "../utils"
+import { type StorageBackend } from "../storage"
+import { isPathInside } from "../locks"
+import { parsePropfindRequest, requestsQuota, isVersionedFile, type PropertyContext } from "../properties"
+import { isVersionsPath, versionsChildren, versionHistoryPath } from "../versions"
+import { isTrashPath, trashChildren, trashPathToResource, TRASH_PATH } from "../trash"
 
 /**
  * Propfind
@@ -24,23 +28,143 @@ export class Propfind {
 		this.handle = this.handle.bind(this)
 	}
 
-	public async statfs(req: Request, sdk: FilenSDK): Promise<StatFS> {
-		const cache = this.server.getCacheForUser(req.username)
-		const get = cache.get<StatFS>("statfs")
+	/**
+	 * Build the property context of a resource.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Resource} resource
+	 * @param {PropertyContext["quota"]} quota
+	 * @param {boolean} deadProperties Whether the dead property store should be consulted at all.
+	 * @returns {Promise<PropertyContext>}
+	 */
+	public async context(
+		req: Request,
+		resource: Resource,
+		quota: PropertyContext["quota"],
+		deadProperties: boolean
+	): Promise<PropertyContext> {
+		return {
+			quota,
+			locks: this.server.locks.locksForPath(resource.path, req.username),
+			deadProperties: deadProperties ? await this.server.deadProperties.get(resource.uuid, req.username) : [],
+			syncToken:
+				resource.type === "directory" && !isVersionsPath(this.server, resource.path) && !isTrashPath(this.server, resource.path)
+					? this.server.changes.token(req.username)
+					: null,
+			versionHistory: this.server.enableVersions && isVersionedFile(resource) ? versionHistoryPath(resource.path) : null
+		}
+	}
+
+	/**
+	 * Check if a stored item is hidden behind the trash or versions namespace, a real ".trash" or ".versions" folder at the root of the drive is not listed while they are enabled.
+	 *
+	 * @public
+	 * @param {string} path
+	 * @returns {boolean}
+	 */
+	public isHidden(path: string): boolean {
+		return isTrashPath(this.server, path) || isVersionsPath(this.server, path)
+	}
+
+	/**
+	 * List the direct children of a directory. Names and metadata are fetched with a single (cached) directory listing.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Resource} resource
+	 * @returns {Promise<Resource[]>}
+	 */
+	public async children(req: Request, resource: Resource): Promise<Resource[]> {
+		if (isVersionsPath(this.server, resource.path)) {
+			return await versionsChildren(this.server, req, resource)
+		}
+
+		if (isTrashPath(this.server, resource.path)) {
+			return await trashChildren(this.server, req, resource)
+		}
+
+		const local: Resource[] = []
+
+		for (const path in this.server.getVirtualFilesForUser(req.username)) {
+			const parentPath = pathModule.dirname(path)
+
+			if (parentPath === resource.path || parentPath === resource.url) {
+				local.push(this.server.getVirtualFilesForUser(req.username)[path]!)
+			}
+		}
+
+		for (const path in this.server.getTempDiskFilesForUser(req.username)) {
+			const parentPath = pathModule.dirname(path)
+
+			if (parentPath === resource.path || parentPath === resource.url) {
+				local.push(this.server.getTempDiskFilesForUser(req.username)[path]!)
+			}
+		}
+
+		// Local files shadow the cloud file they replace, e.g. a file waiting for it's write-back upload
+		const content: Resource[] = [
+			...(await this.server.listDirectory(resource, req.username))
+				.filter(item => !local.some(file => file.name === item.name))
+				.map(item => statsToResource(item, pathModule.posix.join(resource.path, item.name))),
+			...local
+		].filter(item => !this.isHidden(item.path))
+
+		if (resource.path === "/" && this.server.enableTrash) {
+			const trash = await trashPathToResource(this.server, req, TRASH_PATH)
 
-		if (get) {
-			return get
+			if (trash) {
+				content.push(trash)
+			}
+		}
+
+		return content.map(item => ({
+			...item,
+			path: pathModule.posix.join(resource.path, item.name),
+			url: `${pathModule.posix.join(resource.path, item.name)}${item.type === "directory" ? "/" : ""}`
+		}))
+	}
+
+	/**
+	 * List all descendants of a directory using a single directory tree request.
+	 * Returns null if infinite depth requests are disabled, the tree exceeds the configured limit or the directory is part of the versions namespace or the trash.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {StorageBackend} storage
+	 * @param {Resource} resource
+	 * @returns {Promise<Resource[] | null>}
+	 */
+	public async descendants(req: Request, storage: StorageBackend, resource: Resource): Promise<Resource[] | null> {
+		// Listing the versions of every file (or the contents of every trashed directory) below a directory would need one request each
+		if (this.server.infiniteDepthLimit <= 0 || isVersionsPath(this.server, resource.path) || isTrashPath(this.server, resource.path)) {
+			return null
 		}
 
-		const stat = await sdk.fs().statfs()
+		const tree = await storage.tree(resource)
+		const entries = Object.keys(tree)
+		const local = [
+			...Object.values(this.server.getVirtualFilesForUser(req.username)),
+			...Object.values(this.server.getTempDiskFilesForUser(req.username))
+		].filter(file => isPathInside(file.path, resource.path) && file.path !== resource.path)
 
-		cache.set<StatFS>("statfs", stat, 60)
+		if (entries.length + local.length > this.server.infiniteDepthLimit) {
+			return null
+		}
 
-		return stat
+		return [
+			...entries
+				.map(entry => statsToResource(tree[entry]!, pathModule.posix.join(resource.path, entry)))
+				.filter(item => !local.some(file => file.path === item.path)),
+			...local
+		].filter(item => !this.isHidden(item.path))
 	}
 
 	/**
-	 * List a file or a directory and it's children.
+	 * List a file or a directory and it's children (Depth 1) or all of it's descendants (Depth infinity).
 	 *
 	 * @public
 	 * @async
@@ -50,7 +174,22 @@ export class Propfind {
 	 */
 	public async handle(req: Request, res: Response): Promise<void> {
 		try {
-			const depth = req.header("depth") ?? "1"
+			const depth = (req.header("depth") ?? "1").toLowerCase()
+
+			if (depth !== "0" && depth !== "1" && depth !== "infinity") {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			const request = await parsePropfindRequest(req.body)
+
+			if (!request) {
+				await Responses.badRequest(res)
+
+				return
+			}
+
 			const resource = await this.server.urlToResource(req)
 
 			if (!resource) {
@@ -59,75 +198,55 @@ export class Propfind {
 				return
 			}
 
-			const sdk = this.server.getSDKForUser(req.username)
+			const storage = this.server.getStorageForUser(req.username)
 
-			if (!sdk) {
+			if (!storage) {
 				await Responses.notAuthorized(res)
 
 				return
 			}
 
-			const statfs = await this.statfs(req, sdk)
+			const quota = requestsQuota(request) ? await this.server.quota(req.username) : null
+			const resources: Resource[] = [
+				{
+					...resource,
+					url: `${resource.url}${resource.type === "directory" && !resource.url.endsWith("/") ? "/" : ""}`
+				}
+			]
 
 			if (resource.type === "directory" && depth !== "0") {
-				const content = await sdk.fs().readdir({ path: resource.url })
-				const contentIncludingStats = await promiseAllChunked(
-					content.map(item => sdk.fs().stat({ path: pathModule.posix.join(resource.url, item) }))
-				)
+				const content = depth === "1" ? await this.children(req, resource) : await this.descendants(req, storage, resource)
 
-				for (const path in this.server.getVirtualFilesForUser(req.username)) {
-					const parentPath = pathModule.dirname(path)
+				if (!content) {
+					await Responses.forbidden(res, "propfind-finite-depth")
 
-					if (parentPath === resource.path || parentPath === resource.url) {
-						contentIncludingStats.push(this.server.getVirtualFilesForUser(req.username)[path]!)
-					}
+					return
 				}
 
-				for (const path in this.server.getTempDiskFilesForUser(req.username)) {
-					const parentPath = pathModule.dirname(path)
+				resources.push(...content)
+			}
 
-					if (parentPath === resource.path || parentPath === resource.url) {
-						contentIncludingStats.push(this.server.getTempDiskFilesForUser(req.username)[path]!)
-					}
+			// Sync tokens can also be obtained through PROPFIND, so the journal needs to know which paths clients have seen
+			for (const item of resources) {
+				if (!item.isVirtual && !item.tempDiskId && !isVersionsPath(this.server, item.path) && !isTrashPath(this.server, item.path)) {
+					this.server.changes.remember(item.uuid, item.type, item.path, req.username)
 				}
-
-				await Responses.propfind(
-					res,
-					[
-						resource,
-						...contentIncludingStats.map(item => ({
-							...item,
-							path: pathModule.posix.join(resource.path, item.name),
-							url: `${pathModule.posix.join(resource.path, item.name)}${item.type === "directory" ? "/" : ""}`,
-							isVirtual: false
-						}))
-					],
-					{
-						available: (statfs.max - statfs.used) * 1,
-						used: statfs.used * 1
-					}
-				)
-
-				return
 			}
 
-			await Responses.propfind(
-				res,
-				[
-					{
-						...resource,
-						url: `${resource.url}${resource.type === "directory" && !resource.url.endsWith("/") ? "/" : ""}`
-					}
-				],
-				{
-					available: (statfs.max - statfs.used) * 1,
-					used: statfs.used * 1
-				}
-			)
+			const deadProperties = !(await this.server.deadProperties.isEmpty(req.username))
+
+			await Responses.propfind(res, resources, request, resource => this.context(req, resource, quota, deadProperties))
 		} catch (e) {
 			this.server.logger.log("error", e, "propfind")
 			this.server.logger.log("error", e)
 
+			// The multistatus is streamed, if it already started the only way to signal the error is to abort the response
+			if (res.headersSent) {
+				res.destroy()
+
+				return
+			}
+
 			Responses.internalError(res).catch(() => {})
 		}
 	}
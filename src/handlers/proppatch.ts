@@ -1,46 +1,16 @@
 import { type Request, type Response } from "express"
 import Responses from "../responses"
 import type Server from ".."
-import { parseStringPromise } from "xml2js"
 import { isValidDate, removeLastSlash } from "../utils"
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function extractSetProperties(parsedXml: any): { [key: string]: string | null } {
-	const properties: { [key: string]: string | null } = {}
-
-	// Ensure the root and "d:set" structure exist, with case-insensitive handling for namespaces
-	if (!parsedXml || !parsedXml["d:propertyupdate"]) {
-		return properties
-	}
-
-	const propertyUpdate = parsedXml["d:propertyupdate"]
-	const setSection = propertyUpdate["d:set"] || propertyUpdate["D:set"]
-
-	if (!setSection || (!setSection["d:prop"] && !setSection["D:prop"])) {
-		return properties
-	}
-
-	const propSection = setSection["d:prop"] || setSection["D:prop"]
-	const propEntries = Array.isArray(propSection) ? propSection : [propSection]
-
-	for (const prop of propEntries) {
-		for (const key in prop) {
-			// Skip non-property keys or metadata
-			if (key.startsWith("_") || key === "$") {
-				continue
-			}
-
-			// Handle namespaces (e.g., "d:property1" becomes "property1")
-			const cleanKey = key.split(":").pop() || key
-
-			// Extract value, considering multiple possible formats
-			const value = typeof prop[key] === "string" ? prop[key] : prop[key]?._text || prop[key]?._ || null
-
-			properties[cleanKey] = value
-		}
-	}
-
-	return properties
+import { submittedLockTokens } from "../locks"
+import { checkPreconditions } from "../conditions"
+import { parseXML, findChild, DAV_NAMESPACE, type XMLElement } from "../xml"
+import { LIVE_PROPERTIES, TIMESTAMP_PROPERTIES } from "../properties"
+import { CHECKSUMS_PROPERTY } from "../checksums"
+
+export type PropertyInstruction = {
+	action: "set" | "remove"
+	property: XMLElement
 }
 
 /**
@@ -63,7 +33,32 @@ export class Proppatch {
 	}
 
 	/**
-	 * Handle property patching. Not implemented (needed) right now.
+	 * Check if a single set or remove instruction can be applied and return the status of the property.
+	 * Live properties and the checksums computed on upload are protected, except the modification and creation dates which can be set (but not removed).
+	 *
+	 * @private
+	 * @param {PropertyInstruction} instruction
+	 * @returns {number}
+	 */
+	private validate({ action, property }: PropertyInstruction): number {
+		if (property.namespace === CHECKSUMS_PROPERTY.namespace && property.name === CHECKSUMS_PROPERTY.name) {
+			return 403
+		}
+
+		if (property.namespace !== DAV_NAMESPACE || !LIVE_PROPERTIES[property.name]) {
+			return 200
+		}
+
+		if (!TIMESTAMP_PROPERTIES[property.name] || action === "remove") {
+			return 403
+		}
+
+		return isValidDate(property.text.trim()) ? 200 : 409
+	}
+
+	/**
+	 * Handle property patching. Last modified and creation dates of files are written to the file metadata,
+	 * all other (non live) properties are kept in the dead property store, as are the dates of directories.
 	 *
 	 * @public
 	 * @async
@@ -82,132 +77,175 @@ export class Proppatch {
 				return
 			}
 
-			if (resource.type !== "file") {
-				await Responses.proppatch(res, req.url)
+			const precondition = await checkPreconditions(this.server, req, resource, path)
+
+			if (precondition === "badRequest") {
+				await Responses.badRequest(res)
 
 				return
 			}
 
-			// eslint-disable-next-line @typescript-eslint/no-explicit-any
-			const parsed: Record<any, any> = await parseStringPromise(req.body, {
-				trim: true,
-				normalize: true,
-				normalizeTags: true,
-				explicitArray: false
-			})
+			if (precondition === "failed") {
+				await Responses.preconditionFailed(res, "precondition-failed")
 
-			const properties = extractSetProperties(parsed)
-			let lastModified: number | undefined
-			let creation: number | undefined
-
-			if (
-				!lastModified &&
-				properties["getlastmodified"] &&
-				typeof properties["getlastmodified"] === "string" &&
-				isValidDate(properties["getlastmodified"])
-			) {
-				lastModified = new Date(properties["getlastmodified"]).getTime()
+				return
 			}
 
-			if (
-				!lastModified &&
-				properties["lastmodified"] &&
-				typeof properties["lastmodified"] === "string" &&
-				isValidDate(properties["lastmodified"])
-			) {
-				lastModified = new Date(properties["lastmodified"]).getTime()
+			const lock = this.server.locks.conflictingLock({ path, tokens: submittedLockTokens(req), username: req.username })
+
+			if (lock) {
+				await Responses.locked(res, lock.path)
+
+				return
 			}
 
-			if (
-				!creation &&
-				properties["creationdate"] &&
-				typeof properties["creationdate"] === "string" &&
-				isValidDate(properties["creationdate"])
-			) {
-				creation = new Date(properties["creationdate"]).getTime()
+			const propertyUpdate = await parseXML(req.body)
+
+			if (!propertyUpdate || propertyUpdate.name !== "propertyupdate" || propertyUpdate.namespace !== DAV_NAMESPACE) {
+				await Responses.badRequest(res)
+
+				return
 			}
 
-			if (
-				!creation &&
-				properties["getcreationdate"] &&
-				typeof properties["getcreationdate"] === "string" &&
-				isValidDate(properties["getcreationdate"])
-			) {
-				creation = new Date(properties["getcreationdate"]).getTime()
+			const instructions: PropertyInstruction[] = []
+
+			for (const instruction of propertyUpdate.children) {
+				if (instruction.namespace !== DAV_NAMESPACE || (instruction.name !== "set" && instruction.name !== "remove")) {
+					continue
+				}
+
+				for (const property of findChild(instruction, "prop")?.children ?? []) {
+					instructions.push({
+						action: instruction.name,
+						property
+					})
+				}
 			}
 
-			if (!lastModified && !creation) {
-				await Responses.proppatch(res, req.url, Object.keys(properties))
+			const statuses = instructions.map(instruction => this.validate(instruction))
+
+			// PROPPATCH is atomic, either all instructions are applied or none of them (RFC 4918 section 9.2)
+			if (statuses.some(status => status !== 200)) {
+				await Responses.proppatch(
+					res,
+					req.url,
+					instructions.map((instruction, index) => ({
+						name: instruction.property.name,
+						namespace: instruction.property.namespace,
+						status: statuses[index] !== 200 ? statuses[index]! : 424
+					}))
+				)
 
 				return
 			}
 
-			if (resource.isVirtual) {
-				const current = this.server.getVirtualFilesForUser(req.username)[path]
+			let lastModified: number | undefined
+			let creation: number | undefined
 
-				if (current && current.type === "file") {
-					this.server.getVirtualFilesForUser(req.username)[path] = {
-						...current,
-						lastModified: lastModified ? lastModified : current.lastModified,
-						creation: creation ? creation : current.creation
-					}
-				}
-			} else if (resource.tempDiskId) {
-				const current = this.server.getTempDiskFilesForUser(req.username)[path]
-
-				if (current && current.type === "file") {
-					this.server.getTempDiskFilesForUser(req.username)[path] = {
-						...current,
-						lastModified: lastModified ? lastModified : current.lastModified,
-						creation: creation ? creation : current.creation
+			// Instructions are applied in document order, a later instruction for the same property wins
+			for (const { action, property } of instructions) {
+				const timestamp = property.namespace === DAV_NAMESPACE ? TIMESTAMP_PROPERTIES[property.name] : undefined
+
+				if (timestamp) {
+					const value = new Date(property.text.trim()).getTime()
+
+					if (timestamp === "lastModified") {
+						lastModified = value
+					} else {
+						creation = value
 					}
-				}
-			} else {
-				const sdk = this.server.getSDKForUser(req.username)
 
-				if (!sdk) {
-					await Responses.notAuthorized(res)
+					continue
+				}
 
-					return
+				if (action === "set") {
+					await this.server.deadProperties.set(resource.uuid, property, req.username)
+				} else {
+					await this.server.deadProperties.remove(resource.uuid, property.name, property.namespace, req.username)
 				}
+			}
+
+			if (lastModified || creation) {
+				if (resource.type === "directory") {
+					// The directory metadata of the SDK only carries the name, timestamps of directories are kept in the dead property store
+					if (lastModified) {
+						await this.server.deadProperties.set(
+							resource.uuid,
+							{
+								name: "getlastmodified",
+								namespace: DAV_NAMESPACE,
+								attributes: {},
+								children: [],
+								text: new Date(lastModified).toUTCString()
+							},
+							req.username
+						)
+					}
 
-				await sdk.cloud().editFileMetadata({
-					uuid: resource.uuid,
-					metadata: {
-						name: resource.name,
-						key: resource.key,
-						lastModified: lastModified ? lastModified : resource.lastModified,
-						creation: creation ? creation : resource.creation,
-						hash: resource.hash,
-						size: resource.size,
-						mime: resource.mime
+					if (creation) {
+						await this.server.deadProperties.set(
+							resource.uuid,
+							{
+								name: "creationdate",
+								namespace: DAV_NAMESPACE,
+								attributes: {},
+								children: [],
+								text: new Date(creation).toISOString()
+							},
+							req.username
+						)
 					}
-				})
-
-				await sdk.fs()._removeItem({ path })
-				await sdk.fs()._addItem({
-					path,
-					item: {
-						type: "file",
-						uuid: resource.uuid,
-						metadata: {
-							name: resource.name,
-							size: resource.size,
-							lastModified: lastModified ? lastModified : resource.lastModified,
-							creation: creation ? creation : resource.creation,
-							hash: resource.hash,
-							key: resource.key,
-							bucket: resource.bucket,
-							region: resource.region,
-							version: resource.version,
-							chunks: resource.chunks,
-							mime: resource.mime
+				} else if (resource.isVirtual) {
+					const current = this.server.getVirtualFilesForUser(req.username)[path]
+
+					if (current && current.type === "file") {
+						this.server.getVirtualFilesForUser(req.username)[path] = {
+							...current,
+							lastModified: lastModified ? lastModified : current.lastModified,
+							creation: creation ? creation : current.creation
 						}
 					}
-				})
+				} else if (resource.tempDiskId) {
+					const current = this.server.getTempDiskFilesForUser(req.username)[path]
+
+					if (current && current.type === "file") {
+						this.server.getTempDiskFilesForUser(req.username)[path] = {
+							...current,
+							lastModified: lastModified ? lastModified : current.lastModified,
+							creation: creation ? creation : current.creation
+						}
+					}
+				} else {
+					const storage = this.server.getStorageForUser(req.username)
+
+					if (!storage) {
+						await Responses.notAuthorized(res)
+
+						return
+					}
+
+					await storage.editMetadata({
+						path,
+						file: resource,
+						lastModified: lastModified ? lastModified : undefined,
+						creation: creation ? creation : undefined
+					})
+
+					await this.server.invalidateDirectoryListing(path, req.username)
+				}
 			}
 
-			await Responses.proppatch(res, req.url, Object.keys(properties))
+			this.server.changes.record([resource.uuid], req.username)
+
+			await Responses.proppatch(
+				res,
+				req.url,
+				instructions.map(({ property }) => ({
+					name: property.name,
+					namespace: property.namespace,
+					status: 200
+				}))
+			)
 		} catch (e) {
 			this.server.logger.log("error", e, "proppatch")
 			this.server.logger.log("error", e)
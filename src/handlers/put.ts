@@ -1,33 +1,72 @@
 import { type Request, type Response } from "express"
-import type Server from ".."
+import { type WebDAVServer as Server, type Resource } from ".."
 import pathModule from "path"
 import { v4 as uuidv4 } from "uuid"
 import mimeTypes from "mime-types"
-import { removeLastSlash, pathToTempDiskFileId } from "../utils"
+import { removeLastSlash, pathToTempDiskFileId, parseContentRange, clientTimestamps, acceptClientTimestamps } from "../utils"
 import Responses from "../responses"
 import { PassThrough, pipeline, Transform } from "stream"
 import { promisify } from "util"
 import fs from "fs-extra"
 import { UPLOAD_CHUNK_SIZE } from "@filen/sdk"
+import { type StorageBackend, type StorageFile } from "../storage"
+import { submittedLockTokens } from "../locks"
+import { checkPreconditions } from "../conditions"
+import Patch from "./patch"
+import crypto, { type Hash } from "crypto"
+import { requestChecksums, checksumMismatch, checksumsProperty, DEFAULT_CHECKSUM_ALGORITHMS, type ChecksumAlgorithm } from "../checksums"
+import { isVersionedFile } from "../properties"
 
 const pipelineAsync = promisify(pipeline)
 
 export class SizeCounter extends Transform {
 	private totalBytes: number
+	private readonly hashes: Partial<Record<ChecksumAlgorithm, Hash>> = {}
 
-	public constructor() {
+	/**
+	 * Creates an instance of SizeCounter.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {ChecksumAlgorithm[]} [algorithms=[]] Algorithms to hash the passing data with.
+	 */
+	public constructor(algorithms: ChecksumAlgorithm[] = []) {
 		super()
 
 		this.totalBytes = 0
+
+		for (const algorithm of algorithms) {
+			this.hashes[algorithm] = crypto.createHash(algorithm)
+		}
 	}
 
 	public size(): number {
 		return this.totalBytes
 	}
 
+	/**
+	 * The hex digests of all data that passed through. Only call once the stream finished.
+	 *
+	 * @public
+	 * @returns {Partial<Record<ChecksumAlgorithm, string>>}
+	 */
+	public digests(): Partial<Record<ChecksumAlgorithm, string>> {
+		const digests: Partial<Record<ChecksumAlgorithm, string>> = {}
+
+		for (const algorithm in this.hashes) {
+			digests[algorithm as ChecksumAlgorithm] = this.hashes[algorithm as ChecksumAlgorithm]!.digest("hex")
+		}
+
+		return digests
+	}
+
 	public _transform(chunk: Buffer, _: BufferEncoding, callback: () => void): void {
 		this.totalBytes += chunk.length
 
+		for (const algorithm in this.hashes) {
+			this.hashes[algorithm as ChecksumAlgorithm]!.update(chunk)
+		}
+
 		this.push(chunk)
 
 		callback()
@@ -46,6 +85,8 @@ export class SizeCounter extends Transform {
  * @typedef {Put}
  */
 export class Put {
+	private readonly patch: Patch
+
 	/**
 	 * Creates an instance of Put.
 	 *
@@ -54,9 +95,71 @@ export class Put {
 	 * @param {Server} server
 	 */
 	public constructor(private readonly server: Server) {
+		this.patch = new Patch(server)
+
 		this.handle = this.handle.bind(this)
 	}
 
+	/**
+	 * The size of the upload announced by the client, if any. Clients that send chunked bodies (e.g. macOS Finder) announce it in X-Expected-Entity-Length.
+	 *
+	 * @public
+	 * @param {Request} req
+	 * @returns {(number | null)}
+	 */
+	public expectedLength(req: Request): number | null {
+		const header = req.headers["x-expected-entity-length"] ?? req.headers["content-length"]
+
+		if (typeof header !== "string" || !/^\d+$/.test(header.trim())) {
+			return null
+		}
+
+		return parseInt(header.trim(), 10)
+	}
+
+	/**
+	 * Undo an upload whose content does not match the checksum sent by the client.
+	 * An overwritten Filen file is restored to it's previous version, the uploaded item is deleted permanently.
+	 * Other storage backends keep no versions, they reject a mismatching upload before it replaces anything. Should one get through anyway,
+	 * it is only deleted if it did not replace a file.
+	 *
+	 * @public
+	 * @async
+	 * @param {StorageBackend} storage
+	 * @param {StorageFile} item
+	 * @param {(Resource | null)} previous
+	 * @param {string} path
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async discardUpload(
+		storage: StorageBackend,
+		item: StorageFile,
+		previous: Resource | null,
+		path: string,
+		username?: string
+	): Promise<void> {
+		const sdk = this.server.getSDKForUser(username)
+
+		if (sdk) {
+			if (previous && isVersionedFile(previous)) {
+				await sdk.cloud().restoreFileVersion({
+					uuid: previous.uuid,
+					currentUUID: item.uuid
+				})
+			}
+
+			await sdk.cloud().deleteFile({ uuid: item.uuid })
+		} else if (!previous) {
+			await storage.unlink({
+				path,
+				permanent: true
+			})
+		}
+
+		await this.server.invalidateDirectoryListing(path, username)
+	}
+
 	/**
 	 * Upload a file to the requested URL. If the incoming stream contains no data, we create a virtual file instead (Windows likes this).
 	 *
@@ -68,6 +171,23 @@ export class Put {
 	 */
 	public async handle(req: Request, res: Response): Promise<void> {
 		try {
+			const contentRange = req.headers["content-range"]
+
+			// A PUT with a Content-Range only replaces the given range of the file
+			if (typeof contentRange === "string") {
+				const range = parseContentRange(contentRange)
+
+				if (!range) {
+					await Responses.badRequest(res)
+
+					return
+				}
+
+				await this.patch.update(req, res, range)
+
+				return
+			}
+
 			const path = removeLastSlash(decodeURIComponent(req.url))
 			const parentPath = pathModule.posix.dirname(path)
 			const name = pathModule.posix.basename(path)
@@ -80,15 +200,61 @@ export class Put {
 				return
 			}
 
-			const sdk = this.server.getSDKForUser(req.username)
+			const precondition = await checkPreconditions(this.server, req, thisResource, path)
+
+			if (precondition === "badRequest") {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			if (precondition === "failed") {
+				await Responses.preconditionFailed(res, "precondition-failed")
+
+				return
+			}
+
+			const tokens = submittedLockTokens(req)
+			const lock =
+				this.server.locks.conflictingLock({ path, tokens, username: req.username }) ??
+				(!thisResource ? this.server.locks.conflictingLock({ path: parentPath, tokens, username: req.username }) : null)
+
+			if (lock) {
+				await Responses.locked(res, lock.path)
 
-			if (!sdk) {
+				return
+			}
+
+			const storage = this.server.getStorageForUser(req.username)
+
+			if (!storage) {
 				await Responses.notAuthorized(res)
 
 				return
 			}
 
-			await sdk.fs().mkdir({ path: parentPath })
+			const checksums = requestChecksums(req)
+
+			if (!checksums) {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			// Uploads are always hashed with the default algorithms so their checksums can be listed, plus whatever the client sent
+			const algorithms = Array.from(new Set([...DEFAULT_CHECKSUM_ALGORITHMS, ...checksums.map(checksum => checksum.algorithm)]))
+			const timestamps = clientTimestamps(req)
+			const storeOnDisk = this.server.putMatcher !== null && (this.server.putMatcher(path) || this.server.putMatcher(name))
+			const expectedLength = this.expectedLength(req)
+
+			// Fail before anything is uploaded if the file can not fit into the remaining storage
+			if (!storeOnDisk && expectedLength !== null && expectedLength > (await this.server.quota(req.username)).available) {
+				await Responses.insufficientStorage(res, "quota-not-exceeded")
+
+				return
+			}
+
+			await storage.mkdir({ path: parentPath })
 
 			const parentResource = await this.server.pathToResource(req, parentPath)
 
@@ -99,9 +265,18 @@ export class Put {
 			}
 
 			if (!req.firstBodyChunk || req.firstBodyChunk.byteLength === 0) {
+				const uuid = uuidv4()
+				const digests = new SizeCounter(algorithms).digests()
+
+				if (checksumMismatch(checksums, digests)) {
+					await Responses.badRequest(res)
+
+					return
+				}
+
 				this.server.getVirtualFilesForUser(req.username)[path] = {
 					type: "file",
-					uuid: uuidv4(),
+					uuid,
 					path: path,
 					url: path,
 					isDirectory() {
@@ -110,12 +285,12 @@ export class Put {
 					isFile() {
 						return true
 					},
-					mtimeMs: Date.now(),
+					mtimeMs: timestamps.lastModified ?? Date.now(),
 					region: "",
 					bucket: "",
-					birthtimeMs: Date.now(),
+					birthtimeMs: timestamps.creation ?? Date.now(),
 					key: "",
-					lastModified: Date.now(),
+					lastModified: timestamps.lastModified ?? Date.now(),
 					name,
 					mime: mimeTypes.lookup(name) || "application/octet-stream",
 					version: 2,
@@ -124,6 +299,14 @@ export class Put {
 					isVirtual: true
 				}
 
+				if (thisResource) {
+					await this.server.deadProperties.move(thisResource.uuid, uuid, req.username)
+				}
+
+				await this.server.deadProperties.set(uuid, checksumsProperty(digests), req.username)
+
+				acceptClientTimestamps(res, timestamps)
+
 				await Responses.created(res)
 
 				delete this.server.getTempDiskFilesForUser(req.username)[path]
@@ -155,7 +338,8 @@ export class Put {
 				Responses.internalError(res).catch(() => {})
 			})
 
-			if (this.server.putMatcher && (this.server.putMatcher(path) || this.server.putMatcher(name))) {
+			// In write-back mode the body is stored on the temp disk as well, the write-back queue uploads it afterwards
+			if (storeOnDisk || this.server.enableWriteBack) {
 				const destinationTempDiskFileId = pathToTempDiskFileId(path, req.username)
 
 				await fs.rm(pathModule.join(this.server.tempDiskPath, destinationTempDiskFileId), {
@@ -165,7 +349,8 @@ export class Put {
 					retryDelay: 100
 				})
 
-				const sizeCounter = new SizeCounter()
+				const sizeCounter = new SizeCounter(algorithms)
+				const uuid = uuidv4()
 
 				await pipelineAsync(
 					req.pipe(stream),
@@ -176,9 +361,26 @@ export class Put {
 					})
 				)
 
+				const digests = sizeCounter.digests()
+
+				if (checksumMismatch(checksums, digests)) {
+					await fs.rm(pathModule.join(this.server.tempDiskPath, destinationTempDiskFileId), {
+						force: true,
+						maxRetries: 60 * 10,
+						recursive: true,
+						retryDelay: 100
+					})
+
+					delete this.server.getTempDiskFilesForUser(req.username)[path]
+
+					await Responses.badRequest(res)
+
+					return
+				}
+
 				this.server.getTempDiskFilesForUser(req.username)[path] = {
 					type: "file",
-					uuid: uuidv4(),
+					uuid,
 					path: path,
 					url: path,
 					isDirectory() {
@@ -187,76 +389,101 @@ export class Put {
 					isFile() {
 						return true
 					},
-					mtimeMs: Date.now(),
+					mtimeMs: timestamps.lastModified ?? Date.now(),
 					region: "",
 					bucket: "",
-					birthtimeMs: Date.now(),
+					birthtimeMs: timestamps.creation ?? Date.now(),
 					key: "",
-					lastModified: Date.now(),
+					lastModified: timestamps.lastModified ?? Date.now(),
 					name,
 					mime: mimeTypes.lookup(name) || "application/octet-stream",
 					version: 2,
 					chunks: Math.ceil(sizeCounter.size() / UPLOAD_CHUNK_SIZE),
 					size: sizeCounter.size(),
 					isVirtual: false,
-					tempDiskId: destinationTempDiskFileId
+					tempDiskId: destinationTempDiskFileId,
+					pendingUpload: !storeOnDisk
 				}
 
 				delete this.server.getVirtualFilesForUser(req.username)[path]
 
+				if (!storeOnDisk) {
+					this.server.writeBack.schedule(req.username)
+				}
+
+				if (thisResource) {
+					await this.server.deadProperties.move(thisResource.uuid, uuid, req.username)
+				}
+
+				await this.server.deadProperties.set(uuid, checksumsProperty(digests), req.username)
+
+				acceptClientTimestamps(res, timestamps)
+
 				await Responses.created(res)
 
 				return
 			}
 
-			const item = await sdk.cloud().uploadLocalFileStream({
-				source: req.pipe(stream),
-				parent: parentResource.uuid,
-				name,
-				onError: () => {
-					delete this.server.getVirtualFilesForUser(req.username)[path]
-					delete this.server.getTempDiskFilesForUser(req.username)[path]
+			const sizeCounter = new SizeCounter(algorithms)
+			let digests: Partial<Record<ChecksumAlgorithm, string>> | null = null
+			let rejected = false
+			let item: StorageFile
+
+			try {
+				item = await storage.writeFile({
+					path,
+					source: req.pipe(stream).pipe(sizeCounter),
+					lastModified: timestamps.lastModified ?? undefined,
+					creation: timestamps.creation ?? undefined,
+					onError: () => {
+						delete this.server.getVirtualFilesForUser(req.username)[path]
+						delete this.server.getTempDiskFilesForUser(req.username)[path]
+
+						didError = true
 
-					didError = true
+						Responses.internalError(res).catch(() => {})
+					},
+					// Lets backends without versions discard a mismatching upload before it replaces the previous file
+					verify: () => {
+						digests = sizeCounter.digests()
+						rejected = checksumMismatch(checksums, digests) !== null
 
-					Responses.internalError(res).catch(() => {})
+						return !rejected
+					}
+				})
+			} catch (e) {
+				if (!rejected) {
+					throw e
 				}
-			})
 
-			delete this.server.getVirtualFilesForUser(req.username)[path]
-			delete this.server.getTempDiskFilesForUser(req.username)[path]
+				await Responses.badRequest(res)
 
-			if (didError) {
 				return
 			}
 
-			if (item.type !== "file") {
+			if (!didError && !digests) {
+				digests = sizeCounter.digests()
+			}
+
+			if (!didError && checksumMismatch(checksums, digests ?? {})) {
+				await this.discardUpload(storage, item, thisResource, path, req.username)
+
 				await Responses.badRequest(res)
 
 				return
 			}
 
-			await sdk.fs()._removeItem({ path })
-			await sdk.fs()._addItem({
-				path,
-				item: {
-					type: "file",
-					uuid: item.uuid,
-					metadata: {
-						name,
-						size: item.size,
-						lastModified: item.lastModified,
-						creation: item.creation,
-						hash: item.hash,
-						key: item.key,
-						bucket: item.bucket,
-						region: item.region,
-						version: item.version,
-						chunks: item.chunks,
-						mime: item.mime
-					}
-				}
-			})
+			delete this.server.getVirtualFilesForUser(req.username)[path]
+			delete this.server.getTempDiskFilesForUser(req.username)[path]
+
+			if (didError) {
+				return
+			}
+
+			await this.server.registerUpload(path, item, thisResource, req.username)
+			await this.server.deadProperties.set(item.uuid, checksumsProperty(digests ?? {}), req.username)
+
+			acceptClientTimestamps(res, timestamps)
 
 			await Responses.created(res)
 		} catch (e) {
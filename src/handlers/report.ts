@@ -0,0 +1,284 @@
+import { type Request, type Response } from "express"
+import { type WebDAVServer as Server, type Resource } from ".."
+import Responses from "../responses"
+import pathModule from "path"
+import { parseXML, findChild, DAV_NAMESPACE, type XMLElement } from "../xml"
+import { parsePropertyRequest, isVersionedFile, requestsQuota } from "../properties"
+import { statsToResource } from "../utils"
+import { type StorageBackend } from "../storage"
+import { isPathInside } from "../locks"
+import Propfind from "./propfind"
+import { isVersionsPath, fileVersions } from "../versions"
+import { isTrashPath } from "../trash"
+
+/**
+ * Report
+ *
+ * @export
+ * @class Report
+ * @typedef {Report}
+ */
+export class Report {
+	private readonly propfind: Propfind
+
+	/**
+	 * Creates an instance of Report.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {Server} server
+	 */
+	public constructor(private readonly server: Server) {
+		this.propfind = new Propfind(server)
+
+		this.handle = this.handle.bind(this)
+	}
+
+	/**
+	 * List the current members of a collection, either only it's direct children (sync-level 1) or all descendants (sync-level infinite).
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {StorageBackend} storage
+	 * @param {Resource} resource
+	 * @param {("1" | "infinite")} level
+	 * @returns {Promise<Resource[]>}
+	 */
+	public async members(req: Request, storage: StorageBackend, resource: Resource, level: "1" | "infinite"): Promise<Resource[]> {
+		if (level === "1") {
+			return (await this.server.listDirectory(resource, req.username)).map(item =>
+				statsToResource(item, pathModule.posix.join(resource.path, item.name))
+			)
+		}
+
+		const tree = await storage.tree({
+			path: resource.path,
+			uuid: resource.uuid,
+			skipCache: true
+		})
+
+		return Object.keys(tree).map(entry => statsToResource(tree[entry]!, pathModule.posix.join(resource.path, entry)))
+	}
+
+	/**
+	 * Handle a sync-collection report (RFC 6578). Without a sync token all members are returned,
+	 * otherwise only the members that changed or were removed since the token was handed out.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {Resource} resource
+	 * @param {XMLElement} report
+	 * @returns {Promise<void>}
+	 */
+	public async syncCollection(req: Request, res: Response, resource: Resource, report: XMLElement): Promise<void> {
+		const request = parsePropertyRequest(report)
+		const level = findChild(report, "sync-level")?.text.trim()
+		const token = findChild(report, "sync-token")?.text.trim() ?? ""
+		const limit = findChild(report, "limit")
+		const nresults = limit ? findChild(limit, "nresults") : null
+		const maxResults = nresults ? parseInt(nresults.text.trim(), 10) : null
+
+		if (!request || (level !== "1" && level !== "infinite") || (maxResults !== null && (isNaN(maxResults) || maxResults < 0))) {
+			await Responses.badRequest(res)
+
+			return
+		}
+
+		if (resource.type !== "directory" || isVersionsPath(this.server, resource.path) || isTrashPath(this.server, resource.path)) {
+			await Responses.forbidden(res, "supported-report")
+
+			return
+		}
+
+		const sequence = token.length > 0 ? this.server.changes.parseToken(token, req.username) : null
+
+		if (token.length > 0 && sequence === null) {
+			await Responses.forbidden(res, "valid-sync-token")
+
+			return
+		}
+
+		const storage = this.server.getStorageForUser(req.username)
+
+		if (!storage) {
+			await Responses.notAuthorized(res)
+
+			return
+		}
+
+		// Taken before listing the members, changes that happen while the report is built are returned again by the next sync
+		const syncToken = this.server.changes.token(req.username)
+		const members = await this.members(req, storage, resource, level)
+		const removed = new Set<string>()
+		let changed = members
+
+		if (sequence !== null) {
+			const uuids = this.server.changes.changedSince(sequence, req.username)
+			const currentPaths = new Set<string>(members.map(member => member.path))
+			const currentDirectories = members.filter(member => member.type === "directory")
+
+			// Items below a moved or removed directory change their path without an event of their own
+			for (const uuid of Array.from(uuids)) {
+				const known = this.server.changes.known(uuid, req.username)
+
+				if (known && known.type === "directory") {
+					for (const path of known.paths) {
+						for (const below of this.server.changes.knownBelow(path, req.username)) {
+							uuids.add(below)
+						}
+					}
+				}
+
+				const directory = currentDirectories.find(member => member.uuid === uuid)
+
+				if (directory) {
+					for (const member of members) {
+						if (isPathInside(member.path, directory.path)) {
+							uuids.add(member.uuid)
+						}
+					}
+				}
+			}
+
+			changed = members.filter(member => uuids.has(member.uuid))
+
+			for (const uuid of uuids) {
+				const known = this.server.changes.known(uuid, req.username)
+
+				if (!known) {
+					continue
+				}
+
+				for (const path of known.paths) {
+					if (
+						path !== resource.path &&
+						isPathInside(path, resource.path) &&
+						!currentPaths.has(path) &&
+						(level === "infinite" || pathModule.posix.dirname(path) === resource.path)
+					) {
+						removed.add(`${path}${known.type === "directory" ? "/" : ""}`)
+					}
+				}
+			}
+		}
+
+		if (maxResults !== null && changed.length + removed.size > maxResults) {
+			await Responses.insufficientStorage(res, "number-of-matches-within-limits")
+
+			return
+		}
+
+		for (const member of members) {
+			this.server.changes.remember(member.uuid, member.type, member.path, req.username)
+		}
+
+		const quota = requestsQuota(request) ? await this.server.quota(req.username) : null
+		const deadProperties = !(await this.server.deadProperties.isEmpty(req.username))
+
+		await Responses.syncCollection(
+			res,
+			changed,
+			Array.from(removed),
+			request,
+			member => this.propfind.context(req, member, quota, deadProperties),
+			syncToken
+		)
+	}
+
+	/**
+	 * Handle a version-tree report (RFC 3253 section 3.7), listing the requested properties of all versions of a file.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {Resource} resource
+	 * @param {XMLElement} report
+	 * @returns {Promise<void>}
+	 */
+	public async versionTree(req: Request, res: Response, resource: Resource, report: XMLElement): Promise<void> {
+		const request = parsePropertyRequest(report) ?? {
+			type: "allprop",
+			include: []
+		}
+
+		if (!this.server.enableVersions || !isVersionedFile(resource)) {
+			await Responses.forbidden(res, "supported-report")
+
+			return
+		}
+
+		const sdk = this.server.getSDKForUser(req.username)
+
+		if (!sdk) {
+			await Responses.notAuthorized(res)
+
+			return
+		}
+
+		const versions = await fileVersions(sdk, resource)
+		const deadProperties = !(await this.server.deadProperties.isEmpty(req.username))
+
+		await Responses.propfind(res, versions, request, version => this.propfind.context(req, version, null, deadProperties))
+	}
+
+	/**
+	 * Handle REPORT requests. The sync-collection and version-tree reports are supported.
+	 *
+	 * @public
+	 * @async
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @returns {Promise<void>}
+	 */
+	public async handle(req: Request, res: Response): Promise<void> {
+		try {
+			const report = await parseXML(req.body)
+
+			if (!report) {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			const resource = await this.server.urlToResource(req)
+
+			if (!resource) {
+				await Responses.notFound(res, req.url)
+
+				return
+			}
+
+			if (report.namespace === DAV_NAMESPACE && report.name === "sync-collection") {
+				await this.syncCollection(req, res, resource, report)
+
+				return
+			}
+
+			if (report.namespace === DAV_NAMESPACE && report.name === "version-tree") {
+				await this.versionTree(req, res, resource, report)
+
+				return
+			}
+
+			await Responses.forbidden(res, "supported-report")
+		} catch (e) {
+			this.server.logger.log("error", e, "report")
+			this.server.logger.log("error", e)
+
+			// The multistatus is streamed, if it already started the only way to signal the error is to abort the response
+			if (res.headersSent) {
+				res.destroy()
+
+				return
+			}
+
+			Responses.internalError(res).catch(() => {})
+		}
+	}
+}
+
+export default Report
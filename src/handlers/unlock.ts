@@ -1,6 +1,7 @@
 import { type Request, type Response } from "express"
 import Responses from "../responses"
 import type Server from ".."
+import { removeLastSlash } from "../utils"
 
 /**
  * Unlock
@@ -22,17 +23,38 @@ export class Unlock {
 	}
 
 	/**
-	 * Handle unlocking. Not implemented (needed) right now.
+	 * Handle unlocking. Removes the lock identified by the Lock-Token header if it applies to the requested URL.
 	 *
 	 * @public
 	 * @async
-	 * @param {Request} _
+	 * @param {Request} req
 	 * @param {Response} res
 	 * @returns {Promise<void>}
 	 */
-	public async handle(_: Request, res: Response): Promise<void> {
+	public async handle(req: Request, res: Response): Promise<void> {
 		try {
-			await Responses.notImplemented(res)
+			const url = decodeURIComponent(req.url)
+			const path = url === "/" ? url : removeLastSlash(url)
+			const lockTokenHeader = req.header("lock-token")
+
+			if (!lockTokenHeader) {
+				await Responses.badRequest(res)
+
+				return
+			}
+
+			const token = lockTokenHeader.trim().replace(/^</, "").replace(/>$/, "")
+			const lock = this.server.locks.get(token, req.username)
+
+			if (!lock || !this.server.locks.locksForPath(path, req.username).includes(lock)) {
+				await Responses.conflict(res)
+
+				return
+			}
+
+			this.server.locks.unlock(token, req.username)
+
+			await Responses.noContent(res)
 		} catch (e) {
 			this.server.logger.log("error", e, "unlock")
 			this.server.logger.log("error", e)
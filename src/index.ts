@@ -1,6 +1,6 @@
 import express, { type Express, type Request } from "express"
 import Head from "./handlers/head"
-import FilenSDK, { type FSStats, type FilenSDKConfig } from "@filen/sdk"
+import FilenSDK, { type FSStats, type FilenSDKConfig, type CloudItem, type SocketEvent } from "@filen/sdk"
 import Get from "./handlers/get"
 import Errors from "./middlewares/errors"
 import bodyParser from "body-parser"
@@ -13,13 +13,17 @@ import Copy from "./handlers/copy"
 import Proppatch from "./handlers/proppatch"
 import Move from "./handlers/move"
 import Auth, { parseDigestAuthHeader } from "./middlewares/auth"
-import { removeLastSlash, tempDiskPath } from "./utils"
+import { removeLastSlash, tempDiskPath, pathToTempDiskFileId } from "./utils"
 import Lock from "./handlers/lock"
 import Unlock from "./handlers/unlock"
+import Report from "./handlers/report"
+import Patch, { PARTIAL_UPDATE_CONTENT_TYPE } from "./handlers/patch"
 import { Semaphore, type ISemaphore } from "./semaphore"
 import https from "https"
 import Certs from "./certs"
 import body from "./middlewares/body"
+import Versions from "./middlewares/versions"
+import Trash from "./middlewares/trash"
 import NodeCache from "node-cache"
 import http, { type IncomingMessage, type ServerResponse } from "http"
 import { type Socket } from "net"
@@ -33,6 +37,21 @@ import os from "os"
 import picomatch from "picomatch/posix"
 import { type Matcher } from "picomatch"
 import fs from "fs-extra"
+import pathModule from "path"
+import LockManager, { isPathInside } from "./locks"
+import DeadPropertyStore from "./deadProperties"
+import ChangeJournal from "./changes"
+import ChunkedUploads, { CHUNKED_UPLOADS_PATH } from "./uploads"
+import ThumbnailCache, { DEFAULT_THUMBNAIL_CACHE_SIZE } from "./thumbnails"
+import ChunkCache, { DEFAULT_CHUNK_CACHE_SIZE } from "./chunkCache"
+import FileIndexStore, { DEFAULT_TEMP_FILES_RETENTION } from "./fileIndex"
+import WriteBackQueue from "./writeBack"
+import { CHECKSUMS_PROPERTY } from "./checksums"
+import ChunkedUpload from "./handlers/chunkedUpload"
+import { isVersionsPath, versionsPathToResource } from "./versions"
+import { isTrashPath, trashPathToResource } from "./trash"
+import { XML_BODY_METHODS } from "./xml"
+import { FilenStorageBackend, type StorageBackend, type StorageFile, type StorageQuota } from "./storage"
 
 export type ServerConfig = {
 	hostname: string
@@ -44,11 +63,27 @@ export type Resource = FSStats & {
 	path: string
 	isVirtual: boolean
 	tempDiskId?: string
+	/**
+	 * Set on previous versions of a file, the path of the file they belong to.
+	 */
+	versionOf?: string
+	/**
+	 * Set on the version history collections of the versions namespace, the path of the file whose versions they list.
+	 */
+	versionHistoryOf?: string
+	/**
+	 * Set on temp disk files written in write-back mode, they are uploaded to the storage by the write-back queue.
+	 */
+	pendingUpload?: boolean
 }
 
 export type User = {
 	sdkConfig?: FilenSDKConfig
 	sdk?: FilenSDK
+	/**
+	 * Serve this storage backend instead of a Filen account. Filen only features (versions, trash and socket updates) are not available then.
+	 */
+	storage?: StorageBackend
 	username: string
 	password: string
 }
@@ -72,8 +107,6 @@ export class WebDAVServer {
 	public readonly server: Express
 	public readonly users: Record<string, User> = {}
 	public readonly serverConfig: ServerConfig
-	public readonly virtualFiles: Record<string, Record<string, Resource>> = {}
-	public readonly tempDiskFiles: Record<string, Record<string, Resource>> = {}
 	public readonly proxyMode: boolean
 	public readonly defaultUsername: string = ""
 	public readonly defaultPassword: string = ""
@@ -90,6 +123,20 @@ export class WebDAVServer {
 	public readonly logger: Logger
 	public readonly tempDiskPath: string
 	public readonly putMatcher: Matcher | null
+	public readonly locks: LockManager = new LockManager()
+	public readonly deadProperties: DeadPropertyStore = new DeadPropertyStore()
+	public readonly changes: ChangeJournal = new ChangeJournal()
+	public readonly fileIndexes: FileIndexStore = new FileIndexStore()
+	public readonly tempFilesRetention: number
+	public readonly enableWriteBack: boolean
+	public readonly writeBack: WriteBackQueue
+	public readonly infiniteDepthLimit: number
+	public readonly enableTrash: boolean
+	public readonly enableVersions: boolean
+	public readonly enableDirectoryBrowser: boolean
+	public readonly thumbnails: ThumbnailCache
+	public readonly chunkCache: ChunkCache
+	public readonly uploads: ChunkedUploads
 
 	/**
 	 * Creates an instance of WebDAVServer.
@@ -105,6 +152,14 @@ export class WebDAVServer {
 	 * 		rateLimit?: RateLimit
 	 * 		disableLogging?: boolean
 	 * 		tempFilesToStoreOnDisk?: string[]
+	 * 		infiniteDepthLimit?: number
+	 * 		enableTrash?: boolean
+	 * 		enableVersions?: boolean
+	 * 		enableDirectoryBrowser?: boolean
+	 * 		thumbnailCacheSize?: number
+	 * 		chunkCacheSize?: number
+	 * 		tempFilesRetention?: number
+	 * 		enableWriteBack?: boolean
 	 * 	}} param0
 	 * @param {string} [param0.hostname="127.0.0.1"]
 	 * @param {number} [param0.port=1900]
@@ -118,6 +173,18 @@ export class WebDAVServer {
 	 * 		}]
 	 * @param {boolean} [param0.disableLogging=false]
 	 * @param {{}} [param0.tempFilesToStoreOnDisk=[]] Glob patterns of files that should not be uploaded to the cloud. Files matching the pattern will be served locally.
+	 * @param {number} [param0.infiniteDepthLimit=100000] Maximum number of entries a "Depth: infinity" PROPFIND may return. Set to 0 to reject infinite depth requests completely.
+	 * @param {boolean} [param0.enableTrash=false] Expose the trash as the virtual "/.trash" collection. Trashed items can be restored by moving them out of it and deleted permanently by deleting them inside of it.
+	 * A real ".trash" folder at the root of the drive is hidden and can neither be read nor written while enabled. Only available when serving a Filen account.
+	 * @param {boolean} [param0.enableVersions=false] Expose the previous versions of every file in the read-only virtual "/.versions" namespace, which mirrors the drive. Versions can be downloaded and restored by copying them onto their file.
+	 * A real ".versions" folder at the root of the drive is hidden while enabled. Only available when serving a Filen account.
+	 * @param {boolean} [param0.enableDirectoryBrowser=false] Render a HTML index with upload and new folder forms when a browser opens a collection (GET with "Accept: text/html").
+	 * @param {number} [param0.thumbnailCacheSize=268435456] Size limit in bytes of the on-disk cache for thumbnails generated by GET requests with "?thumbnail=WxH". Set to 0 to disable caching.
+	 * @param {number} [param0.chunkCacheSize=0] Size limit in bytes of the on-disk cache for downloaded file content. Repeated (range) reads of a file are served from it. Disabled (0) by default.
+	 * The cache holds the decrypted content in plaintext below the temp disk path (one subdirectory per user) and keeps it across restarts, only enable it on a disk you trust.
+	 * @param {number} [param0.tempFilesRetention=604800000] Milliseconds virtual and temp disk files are kept across restarts after they were last written. Set to 0 to discard them on every start.
+	 * @param {boolean} [param0.enableWriteBack=false] Acknowledge PUT requests as soon as the body is stored on the temp disk and upload it to the storage in the background, retrying failed uploads. Pending files are served from the temp disk until then.
+	 * Not available in a WebDAVServerCluster, only one process may upload the pending files of a temp disk path.
 	 */
 	public constructor({
 		hostname = "127.0.0.1",
@@ -131,7 +198,15 @@ export class WebDAVServer {
 			key: "username"
 		},
 		disableLogging = false,
-		tempFilesToStoreOnDisk = []
+		tempFilesToStoreOnDisk = [],
+		infiniteDepthLimit = 100000,
+		enableTrash = false,
+		enableVersions = false,
+		enableDirectoryBrowser = false,
+		thumbnailCacheSize = DEFAULT_THUMBNAIL_CACHE_SIZE,
+		chunkCacheSize = DEFAULT_CHUNK_CACHE_SIZE,
+		tempFilesRetention = DEFAULT_TEMP_FILES_RETENTION,
+		enableWriteBack = false
 	}: {
 		hostname?: string
 		port?: number
@@ -141,6 +216,14 @@ export class WebDAVServer {
 		rateLimit?: RateLimit
 		disableLogging?: boolean
 		tempFilesToStoreOnDisk?: string[]
+		infiniteDepthLimit?: number
+		enableTrash?: boolean
+		enableVersions?: boolean
+		enableDirectoryBrowser?: boolean
+		thumbnailCacheSize?: number
+		chunkCacheSize?: number
+		tempFilesRetention?: number
+		enableWriteBack?: boolean
 	}) {
 		this.enableHTTPS = https
 		this.authMode = authMode
@@ -153,30 +236,62 @@ export class WebDAVServer {
 		this.server = express()
 		this.logger = new Logger(disableLogging, false)
 		this.tempDiskPath = tempDiskPath()
+		this.uploads = new ChunkedUploads(pathModule.join(this.tempDiskPath, "chunkedUploads"))
+		this.thumbnails = new ThumbnailCache(pathModule.join(this.tempDiskPath, "thumbnails"), thumbnailCacheSize)
+		this.chunkCache = new ChunkCache(pathModule.join(this.tempDiskPath, "chunks"), chunkCacheSize)
+		this.tempFilesRetention = tempFilesRetention
+		this.enableWriteBack = enableWriteBack
+		this.writeBack = new WriteBackQueue(this)
 		this.putMatcher = tempFilesToStoreOnDisk.length > 0 ? picomatch(tempFilesToStoreOnDisk) : null
+		this.infiniteDepthLimit = infiniteDepthLimit
+		this.enableTrash = enableTrash
+		this.enableVersions = enableVersions
+		this.enableDirectoryBrowser = enableDirectoryBrowser
 
 		if (this.proxyMode && this.authMode === "digest") {
 			throw new Error("Digest authentication is not supported in proxy mode.")
 		}
 
 		if (user) {
-			if (!user.sdk && !user.sdkConfig) {
-				throw new Error("Either pass a configured SDK instance OR a SDKConfig object to the user object.")
+			if (!user.sdk && !user.sdkConfig && !user.storage) {
+				throw new Error("Either pass a configured SDK instance, a SDKConfig object OR a storage backend to the user object.")
+			}
+
+			if (user.storage && this.enableTrash) {
+				throw new Error("The trash is only available when serving a Filen account.")
+			}
+
+			if (user.storage && this.enableVersions) {
+				throw new Error("File versions are only available when serving a Filen account.")
 			}
 
 			this.defaultUsername = user.username
 			this.defaultPassword = user.password
 
-			this.users[user.username] = {
-				username: user.username,
-				password: user.password,
-				sdk: user.sdk
-					? user.sdk
-					: new FilenSDK({
-							...user.sdkConfig,
-							connectToSocket: true,
-							metadataCache: true
-					  })
+			if (user.storage) {
+				this.users[user.username] = {
+					username: user.username,
+					password: user.password,
+					storage: user.storage
+				}
+
+				user.storage.onChange?.(uuids => {
+					this.changes.record(uuids, user.username)
+				})
+			} else {
+				this.users[user.username] = {
+					username: user.username,
+					password: user.password,
+					sdk: user.sdk
+						? user.sdk
+						: new FilenSDK({
+								...user.sdkConfig,
+								connectToSocket: true,
+								metadataCache: true
+						  })
+				}
+
+				this.subscribeToSocket(user.username, this.users[user.username]!.sdk!)
 			}
 
 			if (this.defaultUsername.length === 0 || this.defaultPassword.length === 0) {
@@ -197,13 +312,7 @@ export class WebDAVServer {
 			return {}
 		}
 
-		if (this.virtualFiles[username]) {
-			return this.virtualFiles[username]!
-		}
-
-		this.virtualFiles[username] = {}
-
-		return this.virtualFiles[username]!
+		return this.fileIndexes.files("virtual", username)
 	}
 
 	/**
@@ -218,13 +327,7 @@ export class WebDAVServer {
 			return {}
 		}
 
-		if (this.tempDiskFiles[username]) {
-			return this.tempDiskFiles[username]!
-		}
-
-		this.tempDiskFiles[username] = {}
-
-		return this.tempDiskFiles[username]!
+		return this.fileIndexes.files("tempDisk", username)
 	}
 
 	/**
@@ -246,6 +349,27 @@ export class WebDAVServer {
 		return null
 	}
 
+	/**
+	 * Return the storage backend of the passed username. Users logged into a Filen account are served through a FilenStorageBackend wrapping their SDK instance.
+	 *
+	 * @public
+	 * @param {?string} [username]
+	 * @returns {(StorageBackend | null)}
+	 */
+	public getStorageForUser(username?: string): StorageBackend | null {
+		if (!username || !this.users[username]) {
+			return null
+		}
+
+		const user = this.users[username]!
+
+		if (!user.storage && user.sdk) {
+			user.storage = new FilenStorageBackend(user.sdk)
+		}
+
+		return user.storage ?? null
+	}
+
 	/**
 	 * Returns a NodeCache instance for each user.
 	 *
@@ -265,6 +389,422 @@ export class WebDAVServer {
 		return this.cache[username]!
 	}
 
+	/**
+	 * List the content of a directory with a single request. Listings are cached per user and invalidated by socket events and local writes.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ uuid: string; path: string }} directory
+	 * @param {?string} [username]
+	 * @returns {Promise<FSStats[]>}
+	 */
+	public async listDirectory(directory: { uuid: string; path: string }, username?: string): Promise<FSStats[]> {
+		const storage = this.getStorageForUser(username)
+
+		if (!storage) {
+			throw new Error("Could not find storage for user.")
+		}
+
+		const cache = this.getCacheForUser(username)
+		const key = `listDirectory:${directory.uuid}`
+		const get = cache.get<FSStats[]>(key)
+
+		if (get) {
+			return get
+		}
+
+		const items = await storage.readdir(directory)
+
+		cache.set<FSStats[]>(key, items, 600)
+
+		return items
+	}
+
+	/**
+	 * Invalidate the cached listing of the directory containing the given path, e.g. after the server changed it.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} path
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async invalidateDirectoryListing(path: string, username?: string): Promise<void> {
+		const storage = this.getStorageForUser(username)
+
+		if (!storage) {
+			return
+		}
+
+		try {
+			const parent = await storage.stat({ path: pathModule.posix.dirname(removeLastSlash(path)) || "/" })
+
+			this.getCacheForUser(username).del(`listDirectory:${parent.uuid}`)
+		} catch {
+			// The parent does not exist (anymore), so there is nothing to invalidate
+		}
+	}
+
+	/**
+	 * Invalidate all cached directory listings of a user.
+	 *
+	 * @public
+	 * @param {?string} [username]
+	 */
+	public invalidateDirectoryListings(username?: string): void {
+		const cache = this.getCacheForUser(username)
+
+		cache.del(cache.keys().filter(key => key.startsWith("listDirectory:")))
+	}
+
+	/**
+	 * Make a freshly uploaded file known to the directory listings, and let it take over the dead properties of the file it replaced.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} path
+	 * @param {StorageFile} item
+	 * @param {(Resource | null)} previous
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async registerUpload(path: string, item: StorageFile, previous: Resource | null, username?: string): Promise<void> {
+		await this.invalidateDirectoryListing(path, username)
+
+		if (previous) {
+			await this.deadProperties.move(previous.uuid, item.uuid, username)
+			// The content changed, the checksums of the previous version do not apply anymore
+			await this.deadProperties.remove(item.uuid, CHECKSUMS_PROPERTY.name, CHECKSUMS_PROPERTY.namespace, username)
+		}
+	}
+
+	/**
+	 * Drop the dead properties of a deleted or replaced item and, for directories, of all of it's descendants.
+	 *
+	 * @public
+	 * @async
+	 * @param {Resource} resource
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async removeDeadProperties(resource: Resource, username?: string): Promise<void> {
+		if (await this.deadProperties.isEmpty(username)) {
+			return
+		}
+
+		const uuids = [resource.uuid]
+		const storage = this.getStorageForUser(username)
+
+		if (resource.type === "directory" && !resource.isVirtual && storage) {
+			const tree = await storage.tree({
+				path: resource.path,
+				uuid: resource.uuid
+			})
+
+			uuids.push(...Object.values(tree).map(item => item.uuid))
+		}
+
+		for (const file of [...Object.values(this.getVirtualFilesForUser(username)), ...Object.values(this.getTempDiskFilesForUser(username))]) {
+			if (isPathInside(file.path, resource.path)) {
+				uuids.push(file.uuid)
+			}
+		}
+
+		await this.deadProperties.removeAll(uuids, username)
+	}
+
+	/**
+	 * Remove the destination a MOVE or COPY replaces. Virtual and temp disk files are dropped from the index, stored items are moved to the trash.
+	 * If the new destination is a pending upload, the stored file it replaces is kept: The upload replaces it and keeps it's content as a version, like a PUT does.
+	 *
+	 * @public
+	 * @async
+	 * @param {Resource} destination
+	 * @param {boolean} replacedByPendingUpload
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async removeReplacedDestination(destination: Resource, replacedByPendingUpload: boolean, username?: string): Promise<void> {
+		if (destination.isVirtual) {
+			delete this.getVirtualFilesForUser(username)[destination.path]
+
+			return
+		}
+
+		if (destination.tempDiskId) {
+			await fs.rm(pathModule.join(this.tempDiskPath, destination.tempDiskId), {
+				force: true,
+				maxRetries: 60 * 10,
+				recursive: true,
+				retryDelay: 100
+			})
+
+			delete this.getTempDiskFilesForUser(username)[destination.path]
+
+			if (destination.pendingUpload && !replacedByPendingUpload) {
+				await this.writeBack.removeReplaced(destination.path, username)
+			}
+
+			return
+		}
+
+		if (replacedByPendingUpload && destination.type === "file") {
+			return
+		}
+
+		const storage = this.getStorageForUser(username)
+
+		if (!storage) {
+			throw new Error("Could not find storage for user.")
+		}
+
+		await storage.unlink({
+			path: destination.path,
+			permanent: false
+		})
+
+		await this.invalidateDirectoryListing(destination.path, username)
+	}
+
+	/**
+	 * Drop the virtual and temp disk files inside of a stored directory that is deleted or replaced.
+	 * Pending uploads among them would recreate the directory otherwise.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} path
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async removeFilesInside(path: string, username?: string): Promise<void> {
+		const virtualFiles = this.getVirtualFilesForUser(username)
+		const tempDiskFiles = this.getTempDiskFilesForUser(username)
+
+		for (const filePath in virtualFiles) {
+			if (isPathInside(filePath, path)) {
+				delete virtualFiles[filePath]
+			}
+		}
+
+		for (const filePath in tempDiskFiles) {
+			const file = tempDiskFiles[filePath]!
+
+			if (!isPathInside(filePath, path)) {
+				continue
+			}
+
+			delete tempDiskFiles[filePath]
+
+			if (file.tempDiskId) {
+				await fs.rm(pathModule.join(this.tempDiskPath, file.tempDiskId), {
+					force: true,
+					maxRetries: 60 * 10,
+					recursive: true,
+					retryDelay: 100
+				})
+			}
+		}
+	}
+
+	/**
+	 * Move the virtual and temp disk files inside of a stored directory along with it, pending uploads are uploaded to the new location.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} from
+	 * @param {string} to
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async moveFilesInside(from: string, to: string, username?: string): Promise<void> {
+		from = removeLastSlash(from)
+		to = removeLastSlash(to)
+
+		const virtualFiles = this.getVirtualFilesForUser(username)
+		const tempDiskFiles = this.getTempDiskFilesForUser(username)
+
+		for (const filePath in virtualFiles) {
+			if (!isPathInside(filePath, from)) {
+				continue
+			}
+
+			const path = to + filePath.slice(from.length)
+
+			virtualFiles[path] = {
+				...virtualFiles[filePath]!,
+				url: path,
+				path
+			}
+
+			delete virtualFiles[filePath]
+		}
+
+		for (const filePath in tempDiskFiles) {
+			const file = tempDiskFiles[filePath]!
+
+			if (!isPathInside(filePath, from) || !file.tempDiskId) {
+				continue
+			}
+
+			const path = to + filePath.slice(from.length)
+			const tempDiskId = pathToTempDiskFileId(path, username)
+
+			await fs.rename(pathModule.join(this.tempDiskPath, file.tempDiskId), pathModule.join(this.tempDiskPath, tempDiskId))
+
+			tempDiskFiles[path] = {
+				...file,
+				url: path,
+				path,
+				tempDiskId
+			}
+
+			delete tempDiskFiles[filePath]
+		}
+	}
+
+	/**
+	 * Get the used and available storage of a user. Cached for a minute, it is only needed for quota properties and upload size checks.
+	 *
+	 * @public
+	 * @async
+	 * @param {?string} [username]
+	 * @returns {Promise<{ used: number; available: number }>}
+	 */
+	public async quota(username?: string): Promise<{ used: number; available: number }> {
+		const storage = this.getStorageForUser(username)
+
+		if (!storage) {
+			throw new Error("Could not find storage for user.")
+		}
+
+		const cache = this.getCacheForUser(username)
+		const get = cache.get<StorageQuota>("statfs")
+		const statfs = get ? get : await storage.statfs()
+
+		if (!get) {
+			cache.set<StorageQuota>("statfs", statfs, 60)
+		}
+
+		return {
+			available: Math.max(0, statfs.max - statfs.used),
+			used: statfs.used * 1
+		}
+	}
+
+	/**
+	 * List all items in the trash of a user. The listing is cached alongside the directory listings, so it is invalidated together with them.
+	 *
+	 * @public
+	 * @async
+	 * @param {?string} [username]
+	 * @returns {Promise<CloudItem[]>}
+	 */
+	public async listTrash(username?: string): Promise<CloudItem[]> {
+		const sdk = this.getSDKForUser(username)
+
+		if (!sdk) {
+			throw new Error("Could not find SDK for user.")
+		}
+
+		const cache = this.getCacheForUser(username)
+		const get = cache.get<CloudItem[]>("listDirectory:trash")
+
+		if (get) {
+			return get
+		}
+
+		const items = await sdk.cloud().listTrash()
+
+		cache.set<CloudItem[]>("listDirectory:trash", items, 600)
+
+		return items
+	}
+
+	/**
+	 * Invalidate the cached trash listing of a user.
+	 *
+	 * @public
+	 * @param {?string} [username]
+	 */
+	public invalidateTrashListing(username?: string): void {
+		this.getCacheForUser(username).del("listDirectory:trash")
+	}
+
+	/**
+	 * Listen to the socket events of a user's SDK instance to keep cached state in sync with changes made by other clients.
+	 *
+	 * @public
+	 * @param {string} username
+	 * @param {FilenSDK} sdk
+	 */
+	public subscribeToSocket(username: string, sdk: FilenSDK): void {
+		sdk.socket.on("socketEvent", (event: SocketEvent) => {
+			this.onSocketEvent(username, event)
+		})
+
+		// Events are lost while the socket is disconnected
+		sdk.socket.on("disconnected", () => {
+			this.invalidateDirectoryListings(username)
+			this.changes.reset(username)
+		})
+	}
+
+	/**
+	 * Handle a socket event of a user's SDK instance.
+	 *
+	 * @public
+	 * @param {string} username
+	 * @param {SocketEvent} event
+	 */
+	public onSocketEvent(username: string, event: SocketEvent): void {
+		switch (event.type) {
+			case "fileNew":
+			case "fileRestore":
+			case "folderSubCreated":
+			case "folderRestore": {
+				this.getCacheForUser(username).del(`listDirectory:${event.data.parent}`)
+				this.invalidateTrashListing(username)
+				this.changes.record([event.data.uuid], username)
+
+				break
+			}
+
+			case "fileArchiveRestored": {
+				this.getCacheForUser(username).del(`listDirectory:${event.data.parent}`)
+				this.changes.record([event.data.currentUUID, event.data.uuid], username)
+
+				break
+			}
+
+			// These events do not carry the (previous) parent of the item, so every listing might be stale
+			case "fileRename":
+			case "fileMove":
+			case "fileTrash":
+			case "fileArchived":
+			case "folderRename":
+			case "folderTrash":
+			case "folderMove": {
+				this.invalidateDirectoryListings(username)
+				this.changes.record([event.data.uuid], username)
+
+				break
+			}
+
+			case "fileDeletedPermanent": {
+				this.invalidateTrashListing(username)
+
+				break
+			}
+
+			case "folderColorChanged":
+			case "trashEmpty": {
+				this.invalidateDirectoryListings(username)
+
+				break
+			}
+		}
+	}
+
 	/**
 	 * Get the RW mutex for the given username and path.
 	 *
@@ -302,9 +842,17 @@ export class WebDAVServer {
 	 * @returns {Promise<Resource | null>}
 	 */
 	public async urlToResource(req: Request): Promise<Resource | null> {
-		const url = decodeURIComponent(req.url)
+		const url = decodeURIComponent(req.path)
 		const path = url === "/" ? url : removeLastSlash(url)
 
+		if (isVersionsPath(this, path)) {
+			return await versionsPathToResource(this, req, path)
+		}
+
+		if (isTrashPath(this, path)) {
+			return await trashPathToResource(this, req, path)
+		}
+
 		if (this.getVirtualFilesForUser(req.username)[path]) {
 			return this.getVirtualFilesForUser(req.username)[path]!
 		}
@@ -313,18 +861,18 @@ export class WebDAVServer {
 			return this.getTempDiskFilesForUser(req.username)[path]!
 		}
 
-		const sdk = this.getSDKForUser(req.username)
+		const storage = this.getStorageForUser(req.username)
 
-		if (!sdk) {
+		if (!storage) {
 			return null
 		}
 
 		try {
-			const stat = await sdk.fs().stat({ path })
+			const stat = await storage.stat({ path })
 
 			return {
 				...stat,
-				url: `${path}${stat.type === "directory" && stat.uuid !== sdk.config.baseFolderUUID ? "/" : ""}`,
+				url: `${path}${stat.type === "directory" && path !== "/" ? "/" : ""}`,
 				path,
 				isVirtual: false
 			}
@@ -343,6 +891,14 @@ export class WebDAVServer {
 	 * @returns {Promise<Resource | null>}
 	 */
 	public async pathToResource(req: Request, path: string): Promise<Resource | null> {
+		if (isVersionsPath(this, path)) {
+			return await versionsPathToResource(this, req, removeLastSlash(path))
+		}
+
+		if (isTrashPath(this, path)) {
+			return await trashPathToResource(this, req, removeLastSlash(path))
+		}
+
 		if (this.getVirtualFilesForUser(req.username)[path]) {
 			return this.getVirtualFilesForUser(req.username)[path]!
 		}
@@ -351,18 +907,18 @@ export class WebDAVServer {
 			return this.getTempDiskFilesForUser(req.username)[path]!
 		}
 
-		const sdk = this.getSDKForUser(req.username)
+		const storage = this.getStorageForUser(req.username)
 
-		if (!sdk) {
+		if (!storage) {
 			return null
 		}
 
 		try {
-			const stat = await sdk.fs().stat({ path: path === "/" ? path : removeLastSlash(path) })
+			const stat = await storage.stat({ path: path === "/" ? path : removeLastSlash(path) })
 
 			return {
 				...stat,
-				url: `${path}${stat.type === "directory" && stat.uuid !== sdk.config.baseFolderUUID ? "/" : ""}`,
+				url: `${path}${stat.type === "directory" && path !== "/" ? "/" : ""}`,
 				path,
 				isVirtual: false
 			}
@@ -438,11 +994,12 @@ export class WebDAVServer {
 		this.server.use(new Auth(this).handle)
 
 		this.server.use((_, res, next) => {
-			res.set("Allow", "OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, PROPPATCH, MKCOL, COPY, MOVE, LOCK")
-			res.set("DAV", "1, 2")
+			res.set("Allow", "OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, PROPPATCH, MKCOL, COPY, MOVE, LOCK, UNLOCK, REPORT, PATCH")
+			res.set("DAV", "1, 2, sabredav-partialupdate")
+			res.set("Accept-Patch", PARTIAL_UPDATE_CONTENT_TYPE)
 			res.set("Access-Control-Allow-Origin", "*")
 			res.set("Access-Control-Allow-Credentials", "true")
-			res.set("Access-Control-Expose-Headers", "DAV, content-length, Allow")
+			res.set("Access-Control-Expose-Headers", "DAV, content-length, Allow, Lock-Token")
 			res.set("MS-Author-Via", "DAV")
 			res.set("Server", "Filen WebDAV")
 			res.set("Cache-Control", "no-cache")
@@ -450,6 +1007,9 @@ export class WebDAVServer {
 			next()
 		})
 
+		this.server.use(new Versions(this).handle)
+		this.server.use(new Trash(this).handle)
+
 		this.server.use((req, res, next) => {
 			const method = req.method.toUpperCase()
 
@@ -459,11 +1019,13 @@ export class WebDAVServer {
 				return
 			}
 
+			// Some clients send the XML bodies of WebDAV methods without a content type or with a generic one
 			bodyParser.text({
-				type: ["application/xml", "text/xml"]
+				type: XML_BODY_METHODS.includes(method) ? () => true : ["application/xml", "text/xml"]
 			})(req, res, next)
 		})
 
+		this.server.all([CHUNKED_UPLOADS_PATH, `${CHUNKED_UPLOADS_PATH}/*`], new ChunkedUpload(this).handle)
 		this.server.head("*", new Head(this).handle)
 		this.server.get("*", new Get(this).handle)
 		this.server.options("*", new Options(this).handle)
@@ -477,10 +1039,45 @@ export class WebDAVServer {
 		this.server.unlock("*", new Unlock(this).handle)
 		this.server.proppatch("*", new Proppatch(this).handle)
 		this.server.move("*", new Move(this).handle)
+		this.server.report("*", new Report(this).handle)
+		this.server.patch("*", new Patch(this).handle)
 
 		this.server.use(Errors)
 
-		await fs.emptyDir(this.tempDiskPath)
+		// Chunked upload sessions survive restarts so clients can resume them, they expire on their own. Cached thumbnails and file chunks are kept as well.
+		// Temp disk files are kept as long as their index entry is retained, unreferenced files only once they are older than the retention period
+		const retainedTempDiskIds = await this.fileIndexes.prune(this.tempFilesRetention, this.tempDiskPath)
+
+		for (const entry of await fs.readdir(this.tempDiskPath)) {
+			const path = pathModule.join(this.tempDiskPath, entry)
+
+			if (path === this.uploads.path || path === this.thumbnails.path || path === this.chunkCache.path || retainedTempDiskIds.has(entry)) {
+				continue
+			}
+
+			if (Date.now() - (await fs.stat(path)).mtimeMs >= this.tempFilesRetention) {
+				await fs.rm(path, {
+					force: true,
+					maxRetries: 60 * 10,
+					recursive: true,
+					retryDelay: 100
+				})
+			}
+		}
+
+		await this.uploads.cleanup()
+		await this.thumbnails.prune()
+		await this.chunkCache.prune()
+
+		if (!this.proxyMode) {
+			await this.fileIndexes.load(this.defaultUsername)
+
+			// Uploads left pending by the last run, write-back mode might be disabled by now. Cluster workers leave them alone,
+			// every worker would upload the same files otherwise
+			if (this.enableWriteBack || !cluster.isWorker) {
+				this.writeBack.schedule(this.defaultUsername)
+			}
+		}
 
 		await new Promise<void>((resolve, reject) => {
 			if (this.enableHTTPS) {
@@ -546,6 +1143,11 @@ export class WebDAVServer {
 	 * @returns {Promise<void>}
 	 */
 	public async stop(terminate: boolean = false): Promise<void> {
+		this.writeBack.stop()
+
+		await this.deadProperties.flush()
+		await this.fileIndexes.flush()
+
 		await new Promise<void>((resolve, reject) => {
 			if (!this.serverInstance) {
 				resolve()
@@ -580,6 +1182,10 @@ export class WebDAVServer {
 
 /**
  * WebDAVServerCluster
+ * Runs a WebDAVServer in every worker of a node cluster. Workers do not share WebDAV locks, LOCK and UNLOCK are answered,
+ * but a lock only applies to requests handled by the same worker. Use a single WebDAVServer if clients rely on locking.
+ * Write-back mode is not available for the same reason, files pending in one worker would be invisible to the others and uploaded by every worker after a restart.
+ * Uploads left pending by a single WebDAVServer are not uploaded by the workers, they are uploaded once a single WebDAVServer runs again.
  *
  * @export
  * @class WebDAVServerCluster
@@ -609,6 +1215,13 @@ export class WebDAVServerCluster {
 	> = {}
 	private stopSpawning: boolean = false
 	private tempFilesToStoreOnDisk: string[]
+	private infiniteDepthLimit: number
+	private enableTrash: boolean
+	private enableVersions: boolean
+	private enableDirectoryBrowser: boolean
+	private thumbnailCacheSize: number
+	private chunkCacheSize: number
+	private tempFilesRetention: number
 
 	/**
 	 * Creates an instance of WebDAVServerCluster.
@@ -630,6 +1243,13 @@ export class WebDAVServerCluster {
 	 * 		disableLogging?: boolean
 	 * 		threads?: number
 	 * 		tempFilesToStoreOnDisk?: string[]
+	 * 		infiniteDepthLimit?: number
+	 * 		enableTrash?: boolean
+	 * 		enableVersions?: boolean
+	 * 		enableDirectoryBrowser?: boolean
+	 * 		thumbnailCacheSize?: number
+	 * 		chunkCacheSize?: number
+	 * 		tempFilesRetention?: number
 	 * 	}} param0
 	 * @param {string} [param0.hostname="127.0.0.1"]
 	 * @param {number} [param0.port=1900]
@@ -643,6 +1263,16 @@ export class WebDAVServerCluster {
 	 * 		}]
 	 * @param {number} param0.threads
 	 * @param {{}} [param0.tempFilesToStoreOnDisk=[]] Glob patterns of files that should not be uploaded to the cloud. Files matching the pattern will be served locally.
+	 * @param {number} [param0.infiniteDepthLimit=100000] Maximum number of entries a "Depth: infinity" PROPFIND may return. Set to 0 to reject infinite depth requests completely.
+	 * @param {boolean} [param0.enableTrash=false] Expose the trash as the virtual "/.trash" collection. Trashed items can be restored by moving them out of it and deleted permanently by deleting them inside of it.
+	 * A real ".trash" folder at the root of the drive is hidden and can neither be read nor written while enabled. Only available when serving a Filen account.
+	 * @param {boolean} [param0.enableVersions=false] Expose the previous versions of every file in the read-only virtual "/.versions" namespace, which mirrors the drive. Versions can be downloaded and restored by copying them onto their file.
+	 * A real ".versions" folder at the root of the drive is hidden while enabled. Only available when serving a Filen account.
+	 * @param {boolean} [param0.enableDirectoryBrowser=false] Render a HTML index with upload and new folder forms when a browser opens a collection (GET with "Accept: text/html").
+	 * @param {number} [param0.thumbnailCacheSize=268435456] Size limit in bytes of the on-disk cache for thumbnails generated by GET requests with "?thumbnail=WxH". Set to 0 to disable caching.
+	 * @param {number} [param0.chunkCacheSize=0] Size limit in bytes of the on-disk cache for downloaded file content. Repeated (range) reads of a file are served from it. Disabled (0) by default.
+	 * The cache holds the decrypted content in plaintext below the temp disk path (one subdirectory per user) and keeps it across restarts, only enable it on a disk you trust.
+	 * @param {number} [param0.tempFilesRetention=604800000] Milliseconds virtual and temp disk files are kept across restarts after they were last written. Set to 0 to discard them on every start.
 	 */
 	public constructor({
 		hostname = "127.0.0.1",
@@ -656,7 +1286,14 @@ export class WebDAVServerCluster {
 			key: "username"
 		},
 		threads,
-		tempFilesToStoreOnDisk = []
+		tempFilesToStoreOnDisk = [],
+		infiniteDepthLimit = 100000,
+		enableTrash = false,
+		enableVersions = false,
+		enableDirectoryBrowser = false,
+		thumbnailCacheSize = DEFAULT_THUMBNAIL_CACHE_SIZE,
+		chunkCacheSize = DEFAULT_CHUNK_CACHE_SIZE,
+		tempFilesRetention = DEFAULT_TEMP_FILES_RETENTION
 	}: {
 		hostname?: string
 		port?: number
@@ -672,6 +1309,13 @@ export class WebDAVServerCluster {
 		disableLogging?: boolean
 		threads?: number
 		tempFilesToStoreOnDisk?: string[]
+		infiniteDepthLimit?: number
+		enableTrash?: boolean
+		enableVersions?: boolean
+		enableDirectoryBrowser?: boolean
+		thumbnailCacheSize?: number
+		chunkCacheSize?: number
+		tempFilesRetention?: number
 	}) {
 		this.enableHTTPS = https
 		this.authMode = authMode
@@ -684,6 +1328,13 @@ export class WebDAVServerCluster {
 		this.threads = typeof threads === "number" ? threads : os.cpus().length
 		this.user = user
 		this.tempFilesToStoreOnDisk = tempFilesToStoreOnDisk
+		this.infiniteDepthLimit = infiniteDepthLimit
+		this.enableTrash = enableTrash
+		this.enableVersions = enableVersions
+		this.enableDirectoryBrowser = enableDirectoryBrowser
+		this.thumbnailCacheSize = thumbnailCacheSize
+		this.chunkCacheSize = chunkCacheSize
+		this.tempFilesRetention = tempFilesRetention
 
 		if (this.proxyMode && this.authMode === "digest") {
 			throw new Error("Digest authentication is not supported in proxy mode.")
@@ -784,7 +1435,14 @@ export class WebDAVServerCluster {
 			user: this.user,
 			rateLimit: this.rateLimit,
 			https: this.enableHTTPS,
-			tempFilesToStoreOnDisk: this.tempFilesToStoreOnDisk
+			tempFilesToStoreOnDisk: this.tempFilesToStoreOnDisk,
+			infiniteDepthLimit: this.infiniteDepthLimit,
+			enableTrash: this.enableTrash,
+			enableVersions: this.enableVersions,
+			enableDirectoryBrowser: this.enableDirectoryBrowser,
+			thumbnailCacheSize: this.thumbnailCacheSize,
+			chunkCacheSize: this.chunkCacheSize,
+			tempFilesRetention: this.tempFilesRetention
 		})
 
 		await server.start()
@@ -838,4 +1496,13 @@ export class WebDAVServerCluster {
 	}
 }
 
+export {
+	type StorageBackend,
+	type StorageFile,
+	type StorageQuota,
+	FilenStorageBackend,
+	MemoryStorageBackend,
+	LocalStorageBackend
+} from "./storage"
+
 export default WebDAVServer
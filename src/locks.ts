@@ -0,0 +1,357 @@
+import { type Request } from "express"
+import { v4 as uuidv4 } from "uuid"
+import { type XMLElement } from "./xml"
+
+export type LockScope = "exclusive" | "shared"
+
+export type LockDepth = "0" | "infinity"
+
+export type WebDAVLock = {
+	token: string
+	path: string
+	scope: LockScope
+	depth: LockDepth
+	owner: XMLElement | null
+	timeout: number
+	expires: number
+}
+
+export const DEFAULT_LOCK_TIMEOUT = 3600
+export const MAX_LOCK_TIMEOUT = 86400 * 7
+
+/**
+ * Normalize a path so it can be compared against lock roots.
+ *
+ * @export
+ * @param {string} path
+ * @returns {string}
+ */
+export function normalizeLockPath(path: string): string {
+	if (path.length === 0 || path === "/") {
+		return "/"
+	}
+
+	return path.endsWith("/") ? path.slice(0, path.length - 1) : path
+}
+
+/**
+ * Check if path equals or lies below the parent path.
+ *
+ * @export
+ * @param {string} path
+ * @param {string} parent
+ * @returns {boolean}
+ */
+export function isPathInside(path: string, parent: string): boolean {
+	path = normalizeLockPath(path)
+	parent = normalizeLockPath(parent)
+
+	if (path === parent) {
+		return true
+	}
+
+	return path.startsWith(parent === "/" ? "/" : `${parent}/`)
+}
+
+/**
+ * Parse the Timeout request header. Falls back to the default timeout and caps the value at the maximum timeout.
+ *
+ * @export
+ * @param {?string} [header]
+ * @returns {number}
+ */
+export function parseLockTimeout(header?: string): number {
+	if (!header) {
+		return DEFAULT_LOCK_TIMEOUT
+	}
+
+	for (const value of header.split(",").map(part => part.trim().toLowerCase())) {
+		if (value === "infinite") {
+			return MAX_LOCK_TIMEOUT
+		}
+
+		if (value.startsWith("second-")) {
+			const seconds = parseInt(value.slice("second-".length), 10)
+
+			if (!isNaN(seconds) && seconds > 0) {
+				return Math.min(seconds, MAX_LOCK_TIMEOUT)
+			}
+		}
+	}
+
+	return DEFAULT_LOCK_TIMEOUT
+}
+
+/**
+ * Extract all lock tokens submitted by the client through the If header.
+ *
+ * @export
+ * @param {Request} req
+ * @returns {string[]}
+ */
+export function submittedLockTokens(req: Request): string[] {
+	const header = req.headers["if"]
+
+	if (typeof header !== "string") {
+		return []
+	}
+
+	const tokens: string[] = []
+
+	for (const match of header.matchAll(/<(opaquelocktoken:[^>]+)>/gi)) {
+		if (match[1]) {
+			tokens.push(match[1])
+		}
+	}
+
+	return tokens
+}
+
+/**
+ * LockManager
+ * Keeps track of all active WebDAV write locks, separated per user.
+ * Locks are held in memory and are not shared between processes. In cluster mode every worker has it's own locks, so a lock taken through
+ * one worker does not protect against writes through another one. Locking is not supported in cluster mode.
+ *
+ * @export
+ * @class LockManager
+ * @typedef {LockManager}
+ */
+export class LockManager {
+	private readonly locks: Record<string, Record<string, WebDAVLock>> = {}
+
+	/**
+	 * Return all locks of a user, removing expired ones on the fly.
+	 *
+	 * @private
+	 * @param {?string} [username]
+	 * @returns {Record<string, WebDAVLock>}
+	 */
+	private locksForUser(username?: string): Record<string, WebDAVLock> {
+		const key = username ?? ""
+
+		if (!this.locks[key]) {
+			this.locks[key] = {}
+		}
+
+		const locks = this.locks[key]!
+		const now = Date.now()
+
+		for (const token in locks) {
+			if (locks[token]!.expires <= now) {
+				delete locks[token]
+			}
+		}
+
+		return locks
+	}
+
+	/**
+	 * Get a lock by it's token.
+	 *
+	 * @public
+	 * @param {string} token
+	 * @param {?string} [username]
+	 * @returns {(WebDAVLock | null)}
+	 */
+	public get(token: string, username?: string): WebDAVLock | null {
+		return this.locksForUser(username)[token] ?? null
+	}
+
+	/**
+	 * Get all locks that apply to the given path. Includes locks on the path itself and depth infinity locks on any ancestor.
+	 *
+	 * @public
+	 * @param {string} path
+	 * @param {?string} [username]
+	 * @returns {WebDAVLock[]}
+	 */
+	public locksForPath(path: string, username?: string): WebDAVLock[] {
+		const locks = this.locksForUser(username)
+		const normalizedPath = normalizeLockPath(path)
+
+		return Object.values(locks).filter(
+			lock => lock.path === normalizedPath || (lock.depth === "infinity" && isPathInside(normalizedPath, lock.path))
+		)
+	}
+
+	/**
+	 * Get all locks rooted strictly below the given path.
+	 *
+	 * @public
+	 * @param {string} path
+	 * @param {?string} [username]
+	 * @returns {WebDAVLock[]}
+	 */
+	public locksBelowPath(path: string, username?: string): WebDAVLock[] {
+		const locks = this.locksForUser(username)
+		const normalizedPath = normalizeLockPath(path)
+
+		return Object.values(locks).filter(lock => lock.path !== normalizedPath && isPathInside(lock.path, normalizedPath))
+	}
+
+	/**
+	 * Find a lock that prevents writing to the given path with the submitted tokens.
+	 * Submitting the token of one of the locks covering a path suffices, even if other (shared) locks cover it as well (RFC 4918 §7).
+	 * When recursive is set, locks on members of the path are taken into account as well (e.g. DELETE or MOVE of a collection),
+	 * every locked member needs a token of one of the locks covering it.
+	 *
+	 * @public
+	 * @param {{
+	 * 		path: string
+	 * 		tokens: string[]
+	 * 		recursive?: boolean
+	 * 		username?: string
+	 * 	}} param0
+	 * @param {string} param0.path
+	 * @param {{}} param0.tokens
+	 * @param {boolean} [param0.recursive=false]
+	 * @param {string} param0.username
+	 * @returns {(WebDAVLock | null)}
+	 */
+	public conflictingLock({
+		path,
+		tokens,
+		recursive = false,
+		username
+	}: {
+		path: string
+		tokens: string[]
+		recursive?: boolean
+		username?: string
+	}): WebDAVLock | null {
+		const unlocked = (locks: WebDAVLock[]) => locks.length === 0 || locks.some(lock => tokens.includes(lock.token))
+		const covering = this.locksForPath(path, username)
+
+		if (!unlocked(covering)) {
+			return covering[0]!
+		}
+
+		if (!recursive) {
+			return null
+		}
+
+		return this.locksBelowPath(path, username).find(lock => !unlocked(this.locksForPath(lock.path, username))) ?? null
+	}
+
+	/**
+	 * Create a new lock. Returns null if the lock conflicts with an existing one.
+	 *
+	 * @public
+	 * @param {{
+	 * 		path: string
+	 * 		scope: LockScope
+	 * 		depth: LockDepth
+	 * 		owner: XMLElement | null
+	 * 		timeout: number
+	 * 		username?: string
+	 * 	}} param0
+	 * @param {string} param0.path
+	 * @param {LockScope} param0.scope
+	 * @param {LockDepth} param0.depth
+	 * @param {XMLElement} param0.owner
+	 * @param {number} param0.timeout
+	 * @param {string} param0.username
+	 * @returns {(WebDAVLock | null)}
+	 */
+	public lock({
+		path,
+		scope,
+		depth,
+		owner,
+		timeout,
+		username
+	}: {
+		path: string
+		scope: LockScope
+		depth: LockDepth
+		owner: XMLElement | null
+		timeout: number
+		username?: string
+	}): WebDAVLock | null {
+		const normalizedPath = normalizeLockPath(path)
+		const existing =
+			depth === "infinity"
+				? [...this.locksForPath(normalizedPath, username), ...this.locksBelowPath(normalizedPath, username)]
+				: this.locksForPath(normalizedPath, username)
+
+		if (existing.some(lock => scope === "exclusive" || lock.scope === "exclusive")) {
+			return null
+		}
+
+		const lock: WebDAVLock = {
+			token: `opaquelocktoken:${uuidv4()}`,
+			path: normalizedPath,
+			scope,
+			depth,
+			owner,
+			timeout,
+			expires: Date.now() + timeout * 1000
+		}
+
+		this.locksForUser(username)[lock.token] = lock
+
+		return lock
+	}
+
+	/**
+	 * Refresh the timeout of an existing lock.
+	 *
+	 * @public
+	 * @param {string} token
+	 * @param {number} timeout
+	 * @param {?string} [username]
+	 * @returns {(WebDAVLock | null)}
+	 */
+	public refresh(token: string, timeout: number, username?: string): WebDAVLock | null {
+		const lock = this.get(token, username)
+
+		if (!lock) {
+			return null
+		}
+
+		lock.timeout = timeout
+		lock.expires = Date.now() + timeout * 1000
+
+		return lock
+	}
+
+	/**
+	 * Remove a lock.
+	 *
+	 * @public
+	 * @param {string} token
+	 * @param {?string} [username]
+	 * @returns {boolean}
+	 */
+	public unlock(token: string, username?: string): boolean {
+		const locks = this.locksForUser(username)
+
+		if (!locks[token]) {
+			return false
+		}
+
+		delete locks[token]
+
+		return true
+	}
+
+	/**
+	 * Remove all locks rooted at or below the given path, e.g. after the resource has been deleted or moved away.
+	 *
+	 * @public
+	 * @param {string} path
+	 * @param {?string} [username]
+	 */
+	public removeLocksForPath(path: string, username?: string): void {
+		const locks = this.locksForUser(username)
+
+		for (const token in locks) {
+			if (isPathInside(locks[token]!.path, path)) {
+				delete locks[token]
+			}
+		}
+	}
+}
+
+export default LockManager
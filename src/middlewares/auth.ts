@@ -149,12 +149,18 @@ export class Auth {
 				throw e
 			}
 
+			this.server.subscribeToSocket(username, sdk)
+
+			await this.server.fileIndexes.load(username)
+
+			this.server.writeBack.schedule(username)
+
 			sdk.socket.on("socketEvent", (event: SocketEvent) => {
 				if (event.type === "passwordChanged") {
 					delete this.server.users[username]
 					delete this.authedFilenUsers[username]
-					delete this.server.virtualFiles[username]
-					delete this.server.tempDiskFiles[username]
+					this.server.fileIndexes.unload(username)
+					delete this.server.cache[username]
 				}
 			})
 
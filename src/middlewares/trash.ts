@@ -0,0 +1,73 @@
+import { type Request, type Response, type NextFunction } from "express"
+import type Server from ".."
+import Responses from "../responses"
+import { isTrashPath, TRASH_PATH } from "../trash"
+import { removeLastSlash } from "../utils"
+
+const TRASH_METHODS = ["GET", "HEAD", "OPTIONS", "PROPFIND", "MOVE", "DELETE"]
+
+/**
+ * Trash
+ * Restricts the trash collection to reading, restoring (MOVE) and permanently deleting (DELETE) items. Nothing can be written into it.
+ *
+ * @export
+ * @class Trash
+ * @typedef {Trash}
+ */
+export class Trash {
+	/**
+	 * Creates an instance of Trash.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {Server} server
+	 */
+	public constructor(private readonly server: Server) {
+		this.handle = this.handle.bind(this)
+	}
+
+	/**
+	 * Handle the middleware.
+	 *
+	 * @public
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {NextFunction} next
+	 */
+	public handle(req: Request, res: Response, next: NextFunction): void {
+		const destinationHeader = req.headers["destination"]
+		const method = req.method.toUpperCase()
+		let destination: string | null = null
+		let path: string
+
+		if (typeof destinationHeader === "string") {
+			try {
+				destination = decodeURIComponent(new URL(destinationHeader).pathname)
+			} catch {
+				destination = null
+			}
+		}
+
+		try {
+			path = decodeURIComponent(req.path)
+		} catch {
+			next()
+
+			return
+		}
+
+		if (
+			(isTrashPath(this.server, path) && !TRASH_METHODS.includes(method)) ||
+			(this.server.enableTrash && (method === "MOVE" || method === "DELETE") && removeLastSlash(path) === TRASH_PATH) ||
+			(destination !== null && isTrashPath(this.server, destination))
+		) {
+			Responses.forbidden(res).catch(() => {})
+
+			return
+		}
+
+		next()
+	}
+}
+
+export default Trash
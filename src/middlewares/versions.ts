@@ -0,0 +1,71 @@
+import { type Request, type Response, type NextFunction } from "express"
+import type Server from ".."
+import Responses from "../responses"
+import { isVersionsPath } from "../versions"
+
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS", "PROPFIND", "REPORT", "COPY"]
+
+/**
+ * Versions
+ * Keeps the versions namespace read-only. Versions can be read and copied (restored) but nothing can be written into the namespace.
+ *
+ * @export
+ * @class Versions
+ * @typedef {Versions}
+ */
+export class Versions {
+	/**
+	 * Creates an instance of Versions.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {Server} server
+	 */
+	public constructor(private readonly server: Server) {
+		this.handle = this.handle.bind(this)
+	}
+
+	/**
+	 * Handle the middleware.
+	 *
+	 * @public
+	 * @param {Request} req
+	 * @param {Response} res
+	 * @param {NextFunction} next
+	 */
+	public handle(req: Request, res: Response, next: NextFunction): void {
+		const destinationHeader = req.headers["destination"]
+		let destination: string | null = null
+
+		if (typeof destinationHeader === "string") {
+			try {
+				destination = decodeURIComponent(new URL(destinationHeader).pathname)
+			} catch {
+				destination = null
+			}
+		}
+
+		let path: string
+
+		try {
+			path = decodeURIComponent(req.path)
+		} catch {
+			next()
+
+			return
+		}
+
+		if (
+			(isVersionsPath(this.server, path) && !READ_ONLY_METHODS.includes(req.method.toUpperCase())) ||
+			(destination !== null && isVersionsPath(this.server, destination))
+		) {
+			Responses.forbidden(res).catch(() => {})
+
+			return
+		}
+
+		next()
+	}
+}
+
+export default Versions
@@ -0,0 +1,343 @@
+import { type Resource } from "."
+import { type WebDAVLock } from "./locks"
+import { parseXML, findChild, toBuilderObject, DAV_NAMESPACE, type XMLElement } from "./xml"
+import { resourceETag, encodeHref } from "./utils"
+import mimeTypes from "mime-types"
+
+export type PropertyName = {
+	name: string
+	namespace: string
+}
+
+export type PropfindRequest =
+	| {
+			type: "allprop"
+			include: PropertyName[]
+	  }
+	| {
+			type: "propname"
+	  }
+	| {
+			type: "prop"
+			properties: PropertyName[]
+	  }
+
+export type PropertyContext = {
+	quota: { used: number; available: number } | null
+	locks: WebDAVLock[]
+	deadProperties: XMLElement[]
+	syncToken: string | null
+	versionHistory: string | null
+}
+
+export type PropertyStatus = PropertyName & {
+	status: number
+}
+
+export type LiveProperty = {
+	allprop: boolean
+	value: (resource: Resource, context: PropertyContext) => unknown
+}
+
+export const SUPPORTED_LOCK = {
+	"D:lockentry": [
+		{
+			"D:lockscope": {
+				"D:exclusive": ""
+			},
+			"D:locktype": {
+				"D:write": ""
+			}
+		},
+		{
+			"D:lockscope": {
+				"D:shared": ""
+			},
+			"D:locktype": {
+				"D:write": ""
+			}
+		}
+	]
+}
+
+/**
+ * The REPORT methods supported per resource type.
+ *
+ * @type {Record<Resource["type"], string[]>}
+ */
+export const SUPPORTED_REPORTS: Record<Resource["type"], string[]> = {
+	directory: ["sync-collection"],
+	file: ["version-tree"]
+}
+
+/**
+ * Check if a resource is the current version of a file stored in the cloud, the only resources that have a version history.
+ *
+ * @export
+ * @param {Resource} resource
+ * @returns {boolean}
+ */
+export function isVersionedFile(resource: Resource): boolean {
+	return resource.type === "file" && !resource.isVirtual && !resource.tempDiskId && !resource.versionOf
+}
+
+/**
+ * Build the activelock element of a lock.
+ *
+ * @export
+ * @param {WebDAVLock} lock
+ * @returns {Record<string, unknown>}
+ */
+export function activeLock(lock: WebDAVLock): Record<string, unknown> {
+	return {
+		"D:locktype": {
+			"D:write": ""
+		},
+		"D:lockscope": {
+			[lock.scope === "exclusive" ? "D:exclusive" : "D:shared"]: ""
+		},
+		"D:depth": lock.depth === "infinity" ? "infinity" : "0",
+		...(lock.owner ? toBuilderObject(lock.owner) : {}),
+		"D:timeout": `Second-${Math.max(0, Math.round((lock.expires - Date.now()) / 1000))}`,
+		"D:locktoken": {
+			"D:href": lock.token
+		},
+		"D:lockroot": {
+			"D:href": encodeHref(lock.path)
+		}
+	}
+}
+
+/**
+ * Live properties that can be set through PROPPATCH, mapped to the timestamp they change.
+ *
+ * @type {Record<string, "lastModified" | "creation">}
+ */
+export const TIMESTAMP_PROPERTIES: Record<string, "lastModified" | "creation"> = {
+	getlastmodified: "lastModified",
+	lastmodified: "lastModified",
+	creationdate: "creation",
+	getcreationdate: "creation"
+}
+
+/**
+ * Get a timestamp of a directory set through PROPPATCH. Directory metadata only carries the name, so these are kept in the dead property store.
+ *
+ * @param {Resource} resource
+ * @param {PropertyContext} context
+ * @param {("getlastmodified" | "creationdate")} name
+ * @returns {(number | null)}
+ */
+function storedTimestamp(resource: Resource, context: PropertyContext, name: "getlastmodified" | "creationdate"): number | null {
+	if (resource.type !== "directory") {
+		return null
+	}
+
+	const property = context.deadProperties.find(property => property.name === name && property.namespace === DAV_NAMESPACE)
+
+	if (!property) {
+		return null
+	}
+
+	const timestamp = new Date(property.text).getTime()
+
+	return isNaN(timestamp) ? null : timestamp
+}
+
+/**
+ * All live properties in the DAV: namespace the server computes itself.
+ * Properties flagged with allprop are returned for allprop requests, the others only when explicitly requested.
+ *
+ * @type {Record<string, LiveProperty>}
+ */
+export const LIVE_PROPERTIES: Record<string, LiveProperty> = {
+	getlastmodified: {
+		allprop: true,
+		value: (resource, context) => new Date(storedTimestamp(resource, context, "getlastmodified") ?? resource.mtimeMs).toUTCString()
+	},
+	lastmodified: {
+		allprop: true,
+		value: (resource, context) => new Date(storedTimestamp(resource, context, "getlastmodified") ?? resource.mtimeMs).toUTCString()
+	},
+	displayname: {
+		allprop: true,
+		value: resource => encodeURIComponent(resource.name)
+	},
+	getcontentlength: {
+		allprop: true,
+		value: resource => (resource.type === "directory" ? 0 : resource.size)
+	},
+	getetag: {
+		allprop: true,
+		value: resource => resourceETag(resource)
+	},
+	creationdate: {
+		allprop: true,
+		value: (resource, context) => new Date(storedTimestamp(resource, context, "creationdate") ?? resource.birthtimeMs).toISOString()
+	},
+	getcreationdate: {
+		allprop: true,
+		value: (resource, context) => new Date(storedTimestamp(resource, context, "creationdate") ?? resource.birthtimeMs).toISOString()
+	},
+	"quota-available-bytes": {
+		allprop: false,
+		value: (resource, context) => (resource.type === "directory" && context.quota ? context.quota.available.toString() : null)
+	},
+	"quota-used-bytes": {
+		allprop: false,
+		value: (resource, context) => (resource.type === "directory" && context.quota ? context.quota.used.toString() : null)
+	},
+	getcontenttype: {
+		allprop: true,
+		value: resource =>
+			resource.type === "directory" ? "httpd/unix-directory" : mimeTypes.lookup(resource.name) || "application/octet-stream"
+	},
+	resourcetype: {
+		allprop: true,
+		value: resource =>
+			resource.type === "directory"
+				? {
+						"D:collection": ""
+				  }
+				: {
+						"D:file": ""
+				  }
+	},
+	supportedlock: {
+		allprop: true,
+		value: () => SUPPORTED_LOCK
+	},
+	"sync-token": {
+		allprop: false,
+		value: (resource, context) => (resource.type === "directory" ? context.syncToken : null)
+	},
+	"supported-report-set": {
+		allprop: false,
+		value: (resource, context) =>
+			resource.type === "directory" || context.versionHistory !== null
+				? {
+						"D:supported-report": SUPPORTED_REPORTS[resource.type].map(report => ({
+							"D:report": {
+								[`D:${report}`]: ""
+							}
+						}))
+				  }
+				: null
+	},
+	"version-history": {
+		allprop: false,
+		value: (_, context) =>
+			context.versionHistory !== null
+				? {
+						"D:href": encodeHref(`${context.versionHistory}/`)
+				  }
+				: null
+	},
+	"version-name": {
+		allprop: false,
+		value: resource => (resource.versionOf ? resource.name : null)
+	},
+	lockdiscovery: {
+		allprop: true,
+		value: (_, context) =>
+			context.locks.length > 0
+				? {
+						"D:activelock": context.locks.map(lock => activeLock(lock))
+				  }
+				: ""
+	}
+}
+
+/**
+ * Check if a request asks for the quota properties (RFC 4331), which are expensive to compute and therefore only provided when requested by name.
+ *
+ * @export
+ * @param {PropfindRequest} request
+ * @returns {boolean}
+ */
+export function requestsQuota(request: PropfindRequest): boolean {
+	if (request.type === "propname") {
+		return true
+	}
+
+	return (request.type === "prop" ? request.properties : request.include).some(
+		property => property.namespace === DAV_NAMESPACE && (property.name === "quota-available-bytes" || property.name === "quota-used-bytes")
+	)
+}
+
+/**
+ * Collect the property names listed in a prop element.
+ *
+ * @param {ReturnType<typeof findChild>} prop
+ * @returns {PropertyName[]}
+ */
+function propertyNames(prop: ReturnType<typeof findChild>): PropertyName[] {
+	if (!prop) {
+		return []
+	}
+
+	return prop.children.map(child => ({
+		name: child.name,
+		namespace: child.namespace
+	}))
+}
+
+/**
+ * Parse a PROPFIND request body (RFC 4918 section 9.1). An empty body is treated as an allprop request.
+ * Returns null if the body is malformed.
+ *
+ * @export
+ * @async
+ * @param {unknown} body
+ * @returns {Promise<PropfindRequest | null>}
+ */
+export async function parsePropfindRequest(body: unknown): Promise<PropfindRequest | null> {
+	if ((typeof body !== "string" && !(body instanceof Buffer)) || body.toString("utf-8").trim().length === 0) {
+		return {
+			type: "allprop",
+			include: []
+		}
+	}
+
+	const propfind = await parseXML(body)
+
+	if (!propfind || propfind.name !== "propfind" || propfind.namespace !== DAV_NAMESPACE) {
+		return null
+	}
+
+	return parsePropertyRequest(propfind)
+}
+
+/**
+ * Parse the propname, allprop (and include) or prop children of an element, as used by PROPFIND and REPORT request bodies.
+ * Returns null if none of them is present.
+ *
+ * @export
+ * @param {XMLElement} element
+ * @returns {(PropfindRequest | null)}
+ */
+export function parsePropertyRequest(element: XMLElement): PropfindRequest | null {
+	if (findChild(element, "propname")) {
+		return {
+			type: "propname"
+		}
+	}
+
+	if (findChild(element, "allprop")) {
+		return {
+			type: "allprop",
+			include: propertyNames(findChild(element, "include"))
+		}
+	}
+
+	const prop = findChild(element, "prop")
+
+	if (!prop) {
+		return null
+	}
+
+	return {
+		type: "prop",
+		properties: propertyNames(prop)
+	}
+}
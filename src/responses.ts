@@ -1,7 +1,11 @@
 import { type Response } from "express"
 import { Builder } from "xml2js"
+import { STATUS_CODES } from "http"
 import { type Resource } from "."
-import mimeTypes from "mime-types"
+import { type WebDAVLock } from "./locks"
+import { encodeHref } from "./utils"
+import { LIVE_PROPERTIES, activeLock, type PropfindRequest, type PropertyContext, type PropertyStatus } from "./properties"
+import { DAV_NAMESPACE, toBuilderObject, type XMLElement } from "./xml"
 
 /**
  * Responses
@@ -17,95 +21,377 @@ export class Responses {
 			encoding: "utf-8"
 		}
 	})
+	public static readonly fragmentBuilder = new Builder({
+		headless: true,
+		renderOpts: {
+			pretty: false
+		}
+	})
 
-	public static async propfind(res: Response, resources: Resource[], quota: { used: number; available: number }): Promise<void> {
-		if (res.headersSent) {
-			return
+	/**
+	 * Build the response element of a single resource, split into a 200 and a 404 propstat.
+	 *
+	 * @private
+	 * @static
+	 * @param {Resource} resource
+	 * @param {PropfindRequest} request
+	 * @param {PropertyContext} context
+	 * @returns {Record<string, unknown>}
+	 */
+	private static propfindResponse(resource: Resource, request: PropfindRequest, context: PropertyContext): Record<string, unknown> {
+		const found: Record<string, unknown> = {}
+		const notFound: Record<string, unknown> = {}
+		let prefixes = 0
+
+		const elementName = (name: string, namespace: string): { key: string; attributes?: Record<string, string> } => {
+			if (namespace === DAV_NAMESPACE) {
+				return {
+					key: `D:${name}`
+				}
+			}
+
+			const prefix = `ns${prefixes++}`
+
+			return {
+				key: `${prefix}:${name}`,
+				attributes: {
+					[`xmlns:${prefix}`]: namespace
+				}
+			}
 		}
 
-		const response = this.xmlBuilder.buildObject({
-			"D:multistatus": {
-				$: {
-					"xmlns:D": "DAV:"
-				},
-				"D:response": resources.map(resource => {
-					const lastModified = new Date(resource.mtimeMs).toUTCString()
-					const creationDate = new Date(resource.birthtimeMs).toISOString()
-
-					return {
-						"D:href": `${resource.url
-							.split("/")
-							.map(part => encodeURIComponent(part))
-							.join("/")}`,
-						["D:propstat"]: {
-							"D:prop": {
-								"D:getlastmodified": lastModified,
-								"D:lastmodified": lastModified,
-								"D:displayname": encodeURIComponent(resource.name),
-								"D:getcontentlength": resource.type === "directory" ? 0 : resource.size,
-								"D:getetag": resource.uuid,
-								"D:creationdate": creationDate,
-								"D:getcreationdate": creationDate,
-								"D:quota-available-bytes": quota.available.toString(),
-								"D:quota-used-bytes": quota.used.toString(),
-								"D:getcontenttype":
-									resource.type === "directory"
-										? "httpd/unix-directory"
-										: mimeTypes.lookup(resource.name) || "application/octet-stream",
-								"D:resourcetype":
-									resource.type === "directory"
-										? {
-												"D:collection": ""
-										  }
-										: {
-												"D:file": ""
-										  }
-							},
-							"D:status": "HTTP/1.1 200 OK"
-						}
+		const deadPropertyElement = (property: XMLElement): [string, unknown] => {
+			const { key, attributes } = elementName(property.name, property.namespace)
+			const value = toBuilderObject(property, {
+				[property.namespace]: key.split(":")[0]!
+			})[key]
+
+			if (!attributes) {
+				return [key, value]
+			}
+
+			const object = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {}
+
+			return [
+				key,
+				{
+					...object,
+					$: {
+						...((object.$ as Record<string, string> | undefined) ?? {}),
+						...attributes
 					}
-				})
+				}
+			]
+		}
+
+		if (request.type === "propname") {
+			for (const name in LIVE_PROPERTIES) {
+				if (LIVE_PROPERTIES[name]!.value(resource, context) !== null) {
+					found[`D:${name}`] = ""
+				}
+			}
+
+			for (const property of context.deadProperties) {
+				const { key, attributes } = elementName(property.name, property.namespace)
+
+				found[key] = attributes ? { $: attributes } : ""
 			}
+		} else {
+			const requested =
+				request.type === "prop"
+					? request.properties
+					: [
+							...Object.keys(LIVE_PROPERTIES)
+								.filter(name => LIVE_PROPERTIES[name]!.allprop)
+								.map(name => ({
+									name,
+									namespace: DAV_NAMESPACE
+								})),
+							...context.deadProperties.filter(
+								property => property.namespace !== DAV_NAMESPACE || !LIVE_PROPERTIES[property.name]
+							),
+							...request.include
+					  ]
+
+			for (const property of requested) {
+				const live = property.namespace === DAV_NAMESPACE ? LIVE_PROPERTIES[property.name] : undefined
+				const value = live ? live.value(resource, context) : null
+
+				if (!live) {
+					const dead = context.deadProperties.find(
+						deadProperty => deadProperty.name === property.name && deadProperty.namespace === property.namespace
+					)
+
+					if (dead) {
+						const [key, deadValue] = deadPropertyElement(dead)
+
+						found[key] = deadValue
+
+						continue
+					}
+				}
+
+				const { key, attributes } = elementName(property.name, property.namespace)
+
+				if (value === null || typeof value === "undefined") {
+					// Properties listed in allprop but not available for this resource are simply left out
+					if (request.type === "prop" || request.include.some(prop => prop.name === property.name)) {
+						notFound[key] = attributes ? { $: attributes } : ""
+					}
+
+					continue
+				}
+
+				found[key] = attributes
+					? {
+							$: attributes,
+							...(typeof value === "object" ? value : { _: value })
+					  }
+					: value
+			}
+		}
+
+		const propstat: Record<string, unknown>[] = []
+
+		if (Object.keys(found).length > 0) {
+			propstat.push({
+				"D:prop": found,
+				"D:status": "HTTP/1.1 200 OK"
+			})
+		}
+
+		if (Object.keys(notFound).length > 0) {
+			propstat.push({
+				"D:prop": notFound,
+				"D:status": "HTTP/1.1 404 Not Found"
+			})
+		}
+
+		return {
+			"D:href": encodeHref(resource.url),
+			"D:propstat": propstat
+		}
+	}
+
+	/**
+	 * Write a chunk to the response, waiting for the socket to drain if needed. Resolves to false if the client went away.
+	 *
+	 * @private
+	 * @static
+	 * @async
+	 * @param {Response} res
+	 * @param {string} chunk
+	 * @returns {Promise<boolean>}
+	 */
+	private static async write(res: Response, chunk: string): Promise<boolean> {
+		if (res.destroyed) {
+			return false
+		}
+
+		if (res.write(chunk)) {
+			return true
+		}
+
+		return await new Promise<boolean>(resolve => {
+			const onDrain = (): void => {
+				res.off("close", onClose)
+
+				resolve(true)
+			}
+
+			const onClose = (): void => {
+				res.off("drain", onDrain)
+
+				resolve(false)
+			}
+
+			res.once("drain", onDrain)
+			res.once("close", onClose)
 		})
+	}
+
+	/**
+	 * Stream a multistatus. Every response element is built and written on it's own, so the whole document is never held in memory.
+	 *
+	 * @private
+	 * @static
+	 * @async
+	 * @param {Response} res
+	 * @param {AsyncIterable<Record<string, unknown>>} responses
+	 * @param {Record<string, unknown>} [trailer={}] Elements written after all response elements, e.g. the sync token.
+	 * @returns {Promise<void>}
+	 */
+	private static async multistatus(
+		res: Response,
+		responses: AsyncIterable<Record<string, unknown>>,
+		trailer: Record<string, unknown> = {}
+	): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
 
 		res.set("Content-Type", "application/xml; charset=utf-8")
-		res.set("Content-Length", Buffer.from(response, "utf-8").byteLength.toString())
 		res.status(207)
 
+		if (!(await this.write(res, '<?xml version="1.0" encoding="utf-8"?>\n<D:multistatus xmlns:D="DAV:">'))) {
+			return
+		}
+
+		for await (const response of responses) {
+			if (!(await this.write(res, this.fragmentBuilder.buildObject({ "D:response": response })))) {
+				return
+			}
+		}
+
+		for (const name in trailer) {
+			if (!(await this.write(res, this.fragmentBuilder.buildObject({ [name]: trailer[name] })))) {
+				return
+			}
+		}
+
 		await new Promise<void>(resolve => {
-			res.end(response, () => {
+			res.end("</D:multistatus>", () => {
 				resolve()
 			})
 		})
 	}
 
-	public static async proppatch(res: Response, url: string, propsSet?: string[]): Promise<void> {
+	/**
+	 * Stream a PROPFIND multistatus.
+	 *
+	 * @public
+	 * @static
+	 * @async
+	 * @param {Response} res
+	 * @param {Iterable<Resource>} resources
+	 * @param {PropfindRequest} request
+	 * @param {(resource: Resource) => Promise<PropertyContext>} context
+	 * @returns {Promise<void>}
+	 */
+	public static async propfind(
+		res: Response,
+		resources: Iterable<Resource>,
+		request: PropfindRequest,
+		context: (resource: Resource) => Promise<PropertyContext>
+	): Promise<void> {
+		const propfindResponse = this.propfindResponse.bind(this)
+
+		await this.multistatus(
+			res,
+			(async function* () {
+				for (const resource of resources) {
+					yield propfindResponse(resource, request, await context(resource))
+				}
+			})()
+		)
+	}
+
+	/**
+	 * Stream a sync-collection REPORT multistatus (RFC 6578). Changed members are reported with their properties, removed members with a 404 status.
+	 *
+	 * @public
+	 * @static
+	 * @async
+	 * @param {Response} res
+	 * @param {Iterable<Resource>} changed
+	 * @param {string[]} removed URLs of the removed members.
+	 * @param {PropfindRequest} request
+	 * @param {(resource: Resource) => Promise<PropertyContext>} context
+	 * @param {string} syncToken
+	 * @returns {Promise<void>}
+	 */
+	public static async syncCollection(
+		res: Response,
+		changed: Iterable<Resource>,
+		removed: string[],
+		request: PropfindRequest,
+		context: (resource: Resource) => Promise<PropertyContext>,
+		syncToken: string
+	): Promise<void> {
+		const propfindResponse = this.propfindResponse.bind(this)
+
+		await this.multistatus(
+			res,
+			(async function* () {
+				for (const url of removed) {
+					yield {
+						"D:href": encodeHref(url),
+						"D:status": "HTTP/1.1 404 Not Found"
+					}
+				}
+
+				for (const resource of changed) {
+					yield propfindResponse(resource, request, await context(resource))
+				}
+			})(),
+			{
+				"D:sync-token": syncToken
+			}
+		)
+	}
+
+	/**
+	 * Respond to a PROPPATCH request with one propstat per status code.
+	 *
+	 * @public
+	 * @static
+	 * @async
+	 * @param {Response} res
+	 * @param {string} url
+	 * @param {PropertyStatus[]} properties
+	 * @returns {Promise<void>}
+	 */
+	public static async proppatch(res: Response, url: string, properties: PropertyStatus[]): Promise<void> {
 		if (res.headersSent) {
 			return
 		}
 
+		const byStatus: Record<number, Record<string, unknown>> = {}
+		const prefixes: Record<string, string> = {}
+
+		for (const property of properties) {
+			if (!byStatus[property.status]) {
+				byStatus[property.status] = {}
+			}
+
+			if (property.namespace === DAV_NAMESPACE) {
+				byStatus[property.status]![`D:${property.name}`] = ""
+
+				continue
+			}
+
+			// Properties listed more than once in the request are only reported once
+			if (!prefixes[property.namespace]) {
+				prefixes[property.namespace] = `ns${Object.keys(prefixes).length}`
+			}
+
+			const prefix = prefixes[property.namespace]!
+
+			byStatus[property.status]![`${prefix}:${property.name}`] = {
+				$: {
+					[`xmlns:${prefix}`]: property.namespace
+				}
+			}
+		}
+
 		const response = this.xmlBuilder.buildObject({
 			"D:multistatus": {
 				$: {
 					"xmlns:D": "DAV:"
 				},
 				"D:response": {
-					"D:href": `${url
-						.split("/")
-						.map(part => encodeURIComponent(part))
-						.join("/")}`,
-					["D:propstat"]: {
-						"D:prop": propsSet
-							? propsSet.reduce(
-									(prev, curr) => ({
-										...prev,
-										[curr.startsWith("d:") ? curr.split("d:").join("D:") : `D:${curr}`]: {}
-									}),
-									{}
-							  )
-							: {},
-						"D:status": "HTTP/1.1 207 Multi-Status"
-					}
+					"D:href": encodeHref(url),
+					"D:propstat": Object.keys(byStatus).map(status => ({
+						"D:prop": byStatus[parseInt(status)],
+						"D:status": `HTTP/1.1 ${status} ${STATUS_CODES[status] ?? ""}`.trim(),
+						...(status === "403"
+							? {
+									"D:error": {
+										"D:cannot-modify-protected-property": ""
+									}
+							  }
+							: {})
+					}))
 				}
 			}
 		})
@@ -245,16 +531,77 @@ export class Responses {
 		})
 	}
 
-	public static async forbidden(res: Response): Promise<void> {
+	public static async forbidden(res: Response, condition?: string): Promise<void> {
 		if (res.headersSent) {
 			return
 		}
 
-		res.set("Content-Length", "0")
+		if (!condition) {
+			res.set("Content-Length", "0")
+			res.status(403)
+
+			await new Promise<void>(resolve => {
+				res.end(() => {
+					resolve()
+				})
+			})
+
+			return
+		}
+
+		const response = this.xmlBuilder.buildObject({
+			"D:error": {
+				$: {
+					"xmlns:D": "DAV:"
+				},
+				[`D:${condition}`]: ""
+			}
+		})
+
+		res.set("Content-Type", "application/xml; charset=utf-8")
+		res.set("Content-Length", Buffer.from(response, "utf-8").byteLength.toString())
 		res.status(403)
 
 		await new Promise<void>(resolve => {
-			res.end(() => {
+			res.end(response, () => {
+				resolve()
+			})
+		})
+	}
+
+	public static async insufficientStorage(res: Response, condition?: string): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
+
+		if (!condition) {
+			res.set("Content-Length", "0")
+			res.status(507)
+
+			await new Promise<void>(resolve => {
+				res.end(() => {
+					resolve()
+				})
+			})
+
+			return
+		}
+
+		const response = this.xmlBuilder.buildObject({
+			"D:error": {
+				$: {
+					"xmlns:D": "DAV:"
+				},
+				[`D:${condition}`]: ""
+			}
+		})
+
+		res.set("Content-Type", "application/xml; charset=utf-8")
+		res.set("Content-Length", Buffer.from(response, "utf-8").byteLength.toString())
+		res.status(507)
+
+		await new Promise<void>(resolve => {
+			res.end(response, () => {
 				resolve()
 			})
 		})
@@ -290,13 +637,85 @@ export class Responses {
 		})
 	}
 
-	public static async preconditionFailed(res: Response): Promise<void> {
+	public static async lock(res: Response, lock: WebDAVLock, created: boolean = false): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
+
+		const response = this.xmlBuilder.buildObject({
+			"D:prop": {
+				$: {
+					"xmlns:D": "DAV:"
+				},
+				"D:lockdiscovery": {
+					"D:activelock": activeLock(lock)
+				}
+			}
+		})
+
+		res.set("Lock-Token", `<${lock.token}>`)
+		res.set("Content-Type", "application/xml; charset=utf-8")
+		res.set("Content-Length", Buffer.from(response, "utf-8").byteLength.toString())
+		res.status(created ? 201 : 200)
+
+		await new Promise<void>(resolve => {
+			res.end(response, () => {
+				resolve()
+			})
+		})
+	}
+
+	public static async locked(res: Response, url?: string): Promise<void> {
 		if (res.headersSent) {
 			return
 		}
 
+		const response = this.xmlBuilder.buildObject({
+			"D:error": {
+				$: {
+					"xmlns:D": "DAV:"
+				},
+				"D:lock-token-submitted": url
+					? {
+							"D:href": encodeHref(url)
+					  }
+					: ""
+			}
+		})
+
+		res.set("Content-Type", "application/xml; charset=utf-8")
+		res.set("Content-Length", Buffer.from(response, "utf-8").byteLength.toString())
+		res.status(423)
+
+		await new Promise<void>(resolve => {
+			res.end(response, () => {
+				resolve()
+			})
+		})
+	}
+
+	public static async notModified(res: Response): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
+
+		res.status(304)
+
+		await new Promise<void>(resolve => {
+			res.end(() => {
+				resolve()
+			})
+		})
+	}
+
+	public static async rangeNotSatisfiable(res: Response, size: number): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
+
+		res.set("Content-Range", `bytes */${size}`)
 		res.set("Content-Length", "0")
-		res.status(412)
+		res.status(416)
 
 		await new Promise<void>(resolve => {
 			res.end(() => {
@@ -304,6 +723,89 @@ export class Responses {
 			})
 		})
 	}
+
+	public static async unsupportedMediaType(res: Response): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
+
+		res.set("Content-Length", "0")
+		res.status(415)
+
+		await new Promise<void>(resolve => {
+			res.end(() => {
+				resolve()
+			})
+		})
+	}
+
+	public static async methodNotAllowed(res: Response): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
+
+		res.set("Content-Length", "0")
+		res.status(405)
+
+		await new Promise<void>(resolve => {
+			res.end(() => {
+				resolve()
+			})
+		})
+	}
+
+	public static async conflict(res: Response): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
+
+		res.set("Content-Length", "0")
+		res.status(409)
+
+		await new Promise<void>(resolve => {
+			res.end(() => {
+				resolve()
+			})
+		})
+	}
+
+	public static async preconditionFailed(res: Response, condition?: string): Promise<void> {
+		if (res.headersSent) {
+			return
+		}
+
+		if (!condition) {
+			res.set("Content-Length", "0")
+			res.status(412)
+
+			await new Promise<void>(resolve => {
+				res.end(() => {
+					resolve()
+				})
+			})
+
+			return
+		}
+
+		const response = this.xmlBuilder.buildObject({
+			"D:error": {
+				$: {
+					"xmlns:D": "DAV:"
+				},
+				[`D:${condition}`]: ""
+			}
+		})
+
+		res.set("Content-Type", "application/xml; charset=utf-8")
+		res.set("Content-Length", Buffer.from(response, "utf-8").byteLength.toString())
+		res.status(412)
+
+		await new Promise<void>(resolve => {
+			res.end(response, () => {
+				resolve()
+			})
+		})
+	}
 }
 
 export default Responses
@@ -0,0 +1,177 @@
+import { type FSStats } from "@filen/sdk"
+import { type Readable } from "stream"
+import mimeTypes from "mime-types"
+
+export type StorageFile = FSStats & { type: "file" }
+
+export type StorageQuota = {
+	used: number
+	max: number
+}
+
+/**
+ * StorageBackend
+ * The storage operations the server and it's handlers are built on. Paths are absolute POSIX paths below the root of the user's storage,
+ * "/" being the root directory itself. Operations on items that do not exist reject.
+ *
+ * @export
+ * @interface StorageBackend
+ * @typedef {StorageBackend}
+ */
+export interface StorageBackend {
+	/**
+	 * Get the stats of a file or a directory.
+	 */
+	stat({ path }: { path: string }): Promise<FSStats>
+	/**
+	 * List the direct children of a directory. The Filen backend lists by UUID, path based backends by path.
+	 */
+	readdir({ path, uuid }: { path: string; uuid: string }): Promise<FSStats[]>
+	/**
+	 * List all descendants of a directory, keyed by their path relative to it (e.g. "/a/b.txt"). The directory itself is not included.
+	 */
+	tree({ path, uuid, skipCache }: { path: string; uuid: string; skipCache?: boolean }): Promise<Record<string, FSStats>>
+	/**
+	 * Create a directory and all of it's missing parents. Resolves with the UUID of the directory, even if it already existed.
+	 */
+	mkdir({ path }: { path: string }): Promise<string>
+	/**
+	 * Read (a range of) the content of a file. Destroying the stream stops reading.
+	 */
+	createReadStream({ path, file, start, end }: { path: string; file: StorageFile; start?: number; end?: number }): Readable
+	/**
+	 * Write a file from a stream, replacing the file at the path if there is one. The parent directory has to exist.
+	 * Errors of the source stream are passed to `onError` (if given). The Filen backend keeps uploading what it received so far, other backends reject.
+	 * `verify` (if given) is called once the whole source was read. If it returns false, backends without versions discard the content and reject,
+	 * the file at the path stays untouched. The Filen backend ignores it, a replaced Filen file can be restored from it's previous version instead.
+	 */
+	writeFile({
+		path,
+		source,
+		lastModified,
+		creation,
+		onError,
+		verify
+	}: {
+		path: string
+		source: Readable
+		lastModified?: number
+		creation?: number
+		onError?: (err: Error) => void
+		verify?: () => boolean
+	}): Promise<StorageFile>
+	/**
+	 * Move and/or rename a file or a directory. The destination must not exist.
+	 */
+	rename({ from, to }: { from: string; to: string }): Promise<void>
+	/**
+	 * Copy a file or a directory (recursively). The destination must not exist.
+	 */
+	copy({ from, to }: { from: string; to: string }): Promise<void>
+	/**
+	 * Delete a file or a directory. Backends without a trash always delete permanently.
+	 */
+	unlink({ path, permanent }: { path: string; permanent: boolean }): Promise<void>
+	/**
+	 * Change the modification and/or creation time of a file.
+	 */
+	editMetadata({
+		path,
+		file,
+		lastModified,
+		creation
+	}: {
+		path: string
+		file: StorageFile
+		lastModified?: number
+		creation?: number
+	}): Promise<void>
+	/**
+	 * Get the used and the total storage in bytes.
+	 */
+	statfs(): Promise<StorageQuota>
+	/**
+	 * Subscribe to the UUIDs of items that were created, changed, moved or deleted through the backend, so sync-collection reports can return them.
+	 * Optional, the server learns about changes of a Filen account from the socket events of the SDK instead.
+	 */
+	onChange?(listener: (uuids: string[]) => void): void
+}
+
+/**
+ * Build the stats of a file stored outside of Filen. The Filen specific fields (key, bucket, region etc.) are left empty.
+ *
+ * @export
+ * @param {{ uuid: string; name: string; size: number; lastModified: number; creation: number }} param0
+ * @param {string} param0.uuid
+ * @param {string} param0.name
+ * @param {number} param0.size
+ * @param {number} param0.lastModified
+ * @param {number} param0.creation
+ * @returns {StorageFile}
+ */
+export function localFileStats({
+	uuid,
+	name,
+	size,
+	lastModified,
+	creation
+}: {
+	uuid: string
+	name: string
+	size: number
+	lastModified: number
+	creation: number
+}): StorageFile {
+	return {
+		type: "file",
+		uuid,
+		name,
+		size,
+		mime: mimeTypes.lookup(name) || "application/octet-stream",
+		key: "",
+		bucket: "",
+		region: "",
+		version: 2,
+		chunks: 1,
+		lastModified,
+		creation,
+		mtimeMs: lastModified,
+		birthtimeMs: creation,
+		isDirectory: () => false,
+		isFile: () => true
+	}
+}
+
+/**
+ * Build the stats of a directory stored outside of Filen.
+ *
+ * @export
+ * @param {{ uuid: string; name: string; mtimeMs: number; birthtimeMs: number }} param0
+ * @param {string} param0.uuid
+ * @param {string} param0.name
+ * @param {number} param0.mtimeMs
+ * @param {number} param0.birthtimeMs
+ * @returns {FSStats}
+ */
+export function localDirectoryStats({
+	uuid,
+	name,
+	mtimeMs,
+	birthtimeMs
+}: {
+	uuid: string
+	name: string
+	mtimeMs: number
+	birthtimeMs: number
+}): FSStats {
+	return {
+		type: "directory",
+		uuid,
+		name,
+		size: 0,
+		mtimeMs,
+		birthtimeMs,
+		isDirectory: () => true,
+		isFile: () => false
+	}
+}
@@ -0,0 +1,320 @@
+import { type FilenSDK, type FSStats } from "@filen/sdk"
+import { Readable } from "stream"
+import { type ReadableStream as ReadableStreamWebType } from "stream/web"
+import pathModule from "path"
+import { type StorageBackend, type StorageFile, type StorageQuota } from "./backend"
+import { cloudItemToStats } from "../utils"
+
+/**
+ * FilenStorageBackend
+ * Stores everything in the Filen cloud drive of the account the SDK instance is logged into.
+ *
+ * @export
+ * @class FilenStorageBackend
+ * @typedef {FilenStorageBackend}
+ * @implements {StorageBackend}
+ */
+export class FilenStorageBackend implements StorageBackend {
+	/**
+	 * Creates an instance of FilenStorageBackend.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {FilenSDK} sdk
+	 */
+	public constructor(public readonly sdk: FilenSDK) {}
+
+	/**
+	 * Get the stats of a file or a directory from the SDK's (cached) path lookup.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string }} param0
+	 * @param {string} param0.path
+	 * @returns {Promise<FSStats>}
+	 */
+	public async stat({ path }: { path: string }): Promise<FSStats> {
+		return await this.sdk.fs().stat({ path })
+	}
+
+	/**
+	 * List the direct children of a directory by it's UUID.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; uuid: string }} param0
+	 * @param {string} param0.path
+	 * @param {string} param0.uuid
+	 * @returns {Promise<FSStats[]>}
+	 */
+	public async readdir({ uuid }: { path: string; uuid: string }): Promise<FSStats[]> {
+		return (await this.sdk.cloud().listDirectory({ uuid })).map(item => cloudItemToStats(item))
+	}
+
+	/**
+	 * List all descendants of a directory with a single directory tree request.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; uuid: string; skipCache?: boolean }} param0
+	 * @param {string} param0.path
+	 * @param {string} param0.uuid
+	 * @param {boolean} [param0.skipCache]
+	 * @returns {Promise<Record<string, FSStats>>}
+	 */
+	public async tree({ uuid, skipCache }: { path: string; uuid: string; skipCache?: boolean }): Promise<Record<string, FSStats>> {
+		const tree = await this.sdk.cloud().getDirectoryTree({
+			uuid,
+			skipCache
+		})
+		const stats: Record<string, FSStats> = {}
+
+		for (const entry in tree) {
+			if (entry !== "/") {
+				stats[entry] = cloudItemToStats(tree[entry]!)
+			}
+		}
+
+		return stats
+	}
+
+	/**
+	 * Create a directory and all of it's missing parents.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string }} param0
+	 * @param {string} param0.path
+	 * @returns {Promise<string>}
+	 */
+	public async mkdir({ path }: { path: string }): Promise<string> {
+		return await this.sdk.fs().mkdir({ path })
+	}
+
+	/**
+	 * Download (a range of) a file. The download is cancelled once the stream is destroyed.
+	 *
+	 * @public
+	 * @param {{ path: string; file: StorageFile; start?: number; end?: number }} param0
+	 * @param {string} param0.path
+	 * @param {StorageFile} param0.file
+	 * @param {number} [param0.start]
+	 * @param {number} [param0.end]
+	 * @returns {Readable}
+	 */
+	public createReadStream({ file, start, end }: { path: string; file: StorageFile; start?: number; end?: number }): Readable {
+		const stream = this.sdk.cloud().downloadFileToReadableStream({
+			uuid: file.uuid,
+			bucket: file.bucket,
+			region: file.region,
+			version: file.version,
+			key: file.key,
+			size: file.size,
+			chunks: file.chunks,
+			start,
+			end
+		})
+
+		const nodeStream = Readable.fromWeb(stream as unknown as ReadableStreamWebType<Buffer>)
+
+		nodeStream.once("close", () => {
+			try {
+				stream.cancel().catch(() => {})
+			} catch {
+				// Noop
+			}
+		})
+
+		return nodeStream
+	}
+
+	/**
+	 * Upload a file. The replaced file (if any) becomes a previous version of the new one.
+	 *
+	 * @public
+	 * @async
+	 * @param {{
+	 * 		path: string
+	 * 		source: Readable
+	 * 		lastModified?: number
+	 * 		creation?: number
+	 * 		onError?: (err: Error) => void
+	 * 		verify?: () => boolean
+	 * 	}} param0
+	 * @param {string} param0.path
+	 * @param {Readable} param0.source
+	 * @param {number} [param0.lastModified]
+	 * @param {number} [param0.creation]
+	 * @param {(err: Error) => void} [param0.onError]
+	 * @param {() => boolean} [param0.verify] Ignored, Filen keeps the previous version of a replaced file.
+	 * @returns {Promise<StorageFile>}
+	 */
+	public async writeFile({
+		path,
+		source,
+		lastModified,
+		creation,
+		onError
+	}: {
+		path: string
+		source: Readable
+		lastModified?: number
+		creation?: number
+		onError?: (err: Error) => void
+		verify?: () => boolean
+	}): Promise<StorageFile> {
+		const parent = await this.sdk.fs().stat({ path: pathModule.posix.dirname(path) })
+		const item = await this.sdk.cloud().uploadLocalFileStream({
+			source,
+			parent: parent.uuid,
+			name: pathModule.posix.basename(path),
+			lastModified,
+			creation,
+			onError
+		})
+
+		if (item.type !== "file") {
+			throw new Error("Upload did not result in a file.")
+		}
+
+		// Make the new file known to the SDK's path cache, so it can be stat'ed right away
+		await this.sdk.fs()._removeItem({ path })
+		await this.sdk.fs()._addItem({
+			path,
+			item: {
+				type: "file",
+				uuid: item.uuid,
+				metadata: {
+					name: item.name,
+					size: item.size,
+					lastModified: item.lastModified,
+					creation: item.creation,
+					hash: item.hash,
+					key: item.key,
+					bucket: item.bucket,
+					region: item.region,
+					version: item.version,
+					chunks: item.chunks,
+					mime: item.mime
+				}
+			}
+		})
+
+		return cloudItemToStats(item) as StorageFile
+	}
+
+	/**
+	 * Move and/or rename a file or a directory.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ from: string; to: string }} param0
+	 * @param {string} param0.from
+	 * @param {string} param0.to
+	 * @returns {Promise<void>}
+	 */
+	public async rename({ from, to }: { from: string; to: string }): Promise<void> {
+		await this.sdk.fs().rename({ from, to })
+	}
+
+	/**
+	 * Copy a file or a directory.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ from: string; to: string }} param0
+	 * @param {string} param0.from
+	 * @param {string} param0.to
+	 * @returns {Promise<void>}
+	 */
+	public async copy({ from, to }: { from: string; to: string }): Promise<void> {
+		await this.sdk.fs().cp({ from, to })
+	}
+
+	/**
+	 * Move a file or a directory to the trash or delete it permanently.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; permanent: boolean }} param0
+	 * @param {string} param0.path
+	 * @param {boolean} param0.permanent
+	 * @returns {Promise<void>}
+	 */
+	public async unlink({ path, permanent }: { path: string; permanent: boolean }): Promise<void> {
+		await this.sdk.fs().unlink({ path, permanent })
+	}
+
+	/**
+	 * Change the modification and/or creation time stored in the encrypted metadata of a file.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; file: StorageFile; lastModified?: number; creation?: number }} param0
+	 * @param {string} param0.path
+	 * @param {StorageFile} param0.file
+	 * @param {number} [param0.lastModified]
+	 * @param {number} [param0.creation]
+	 * @returns {Promise<void>}
+	 */
+	public async editMetadata({
+		path,
+		file,
+		lastModified,
+		creation
+	}: {
+		path: string
+		file: StorageFile
+		lastModified?: number
+		creation?: number
+	}): Promise<void> {
+		const metadata = {
+			name: file.name,
+			size: file.size,
+			mime: file.mime,
+			key: file.key,
+			lastModified: lastModified ?? file.lastModified,
+			creation: creation ?? file.creation,
+			hash: file.hash
+		}
+
+		await this.sdk.cloud().editFileMetadata({
+			uuid: file.uuid,
+			metadata
+		})
+
+		await this.sdk.fs()._removeItem({ path })
+		await this.sdk.fs()._addItem({
+			path,
+			item: {
+				type: "file",
+				uuid: file.uuid,
+				metadata: {
+					...metadata,
+					bucket: file.bucket,
+					region: file.region,
+					version: file.version,
+					chunks: file.chunks
+				}
+			}
+		})
+	}
+
+	/**
+	 * Get the used and the total storage of the account.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<StorageQuota>}
+	 */
+	public async statfs(): Promise<StorageQuota> {
+		const statfs = await this.sdk.fs().statfs()
+
+		return {
+			used: statfs.used,
+			max: statfs.max
+		}
+	}
+}
+
+export default FilenStorageBackend
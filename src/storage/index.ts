@@ -0,0 +1,4 @@
+export { type StorageBackend, type StorageFile, type StorageQuota, localFileStats, localDirectoryStats } from "./backend"
+export { FilenStorageBackend } from "./filen"
+export { MemoryStorageBackend } from "./memory"
+export { LocalStorageBackend } from "./local"
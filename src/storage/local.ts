@@ -0,0 +1,486 @@
+import { type FSStats } from "@filen/sdk"
+import { type Readable, pipeline } from "stream"
+import { promisify } from "util"
+import pathModule from "path"
+import fs from "fs-extra"
+import { v4 as uuidv4 } from "uuid"
+import { type StorageBackend, type StorageFile, type StorageQuota, localFileStats, localDirectoryStats } from "./backend"
+
+const pipelineAsync = promisify(pipeline)
+
+/**
+ * Suffix of the hidden sibling files uploads are written to before they replace their target. They are left out of listings.
+ */
+export const PARTIAL_UPLOAD_SUFFIX = ".webdav-upload"
+
+/**
+ * LocalStorageBackend
+ * Stores everything in a directory of the local file system, e.g. for tests or offline development.
+ * Items are identified by their device and inode number, so their UUIDs (and thereby their dead properties) survive renames. There is no trash.
+ * Uploads are written to a hidden sibling and renamed over their target, so an aborted upload never truncates the file it would replace.
+ * The new inode takes over the UUID of the replaced file for the lifetime of the instance.
+ *
+ * @export
+ * @class LocalStorageBackend
+ * @typedef {LocalStorageBackend}
+ * @implements {StorageBackend}
+ */
+export class LocalStorageBackend implements StorageBackend {
+	private readonly changeListeners: ((uuids: string[]) => void)[] = []
+	private readonly replacedUUIDs: Record<string, string> = {}
+
+	/**
+	 * Creates an instance of LocalStorageBackend.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {string} root The directory that is served as the root. It has to exist.
+	 */
+	public constructor(public readonly root: string) {}
+
+	/**
+	 * Resolve a storage path to a path on disk. Paths can not escape the root directory.
+	 *
+	 * @private
+	 * @param {string} path
+	 * @returns {string}
+	 */
+	private resolve(path: string): string {
+		return pathModule.join(this.root, pathModule.posix.normalize(`/${path}`))
+	}
+
+	/**
+	 * Notify all change listeners.
+	 *
+	 * @private
+	 * @param {string[]} uuids
+	 */
+	private emitChange(uuids: string[]): void {
+		for (const listener of this.changeListeners) {
+			listener(uuids)
+		}
+	}
+
+	/**
+	 * The device and inode number of a file or a directory on disk.
+	 *
+	 * @private
+	 * @async
+	 * @param {string} path
+	 * @returns {Promise<string>}
+	 */
+	private async inodeOf(path: string): Promise<string> {
+		const stat = await fs.promises.stat(this.resolve(path), { bigint: true })
+
+		return `${stat.dev.toString(16)}-${stat.ino.toString(16)}`
+	}
+
+	/**
+	 * Get the stats of a file or a directory on disk.
+	 *
+	 * @private
+	 * @async
+	 * @param {string} path
+	 * @returns {Promise<FSStats>}
+	 */
+	private async statsOf(path: string): Promise<FSStats> {
+		const stat = await fs.promises.stat(this.resolve(path), { bigint: true })
+		const inode = `${stat.dev.toString(16)}-${stat.ino.toString(16)}`
+		// A file replaced by an upload keeps the UUID of the file it replaced
+		const uuid = this.replacedUUIDs[inode] ?? inode
+		const name = pathModule.posix.basename(pathModule.posix.normalize(`/${path}`))
+
+		if (stat.isDirectory()) {
+			return localDirectoryStats({
+				uuid,
+				name,
+				mtimeMs: Number(stat.mtimeMs),
+				birthtimeMs: Number(stat.birthtimeMs)
+			})
+		}
+
+		if (!stat.isFile()) {
+			throw new Error(`EINVAL: neither a file nor a directory, ${path}`)
+		}
+
+		return localFileStats({
+			uuid,
+			name,
+			size: Number(stat.size),
+			lastModified: Number(stat.mtimeMs),
+			creation: Number(stat.birthtimeMs)
+		})
+	}
+
+	/**
+	 * Make sure the parent of a path is an existing directory.
+	 *
+	 * @private
+	 * @async
+	 * @param {string} path
+	 * @returns {Promise<void>}
+	 */
+	private async assertParent(path: string): Promise<void> {
+		if (!(await fs.stat(pathModule.dirname(this.resolve(path)))).isDirectory()) {
+			throw new Error(`ENOTDIR: not a directory, ${pathModule.posix.dirname(path)}`)
+		}
+	}
+
+	/**
+	 * Make sure nothing exists at a path.
+	 *
+	 * @private
+	 * @async
+	 * @param {string} path
+	 * @returns {Promise<void>}
+	 */
+	private async assertNotExists(path: string): Promise<void> {
+		if (await fs.exists(this.resolve(path))) {
+			throw new Error(`EEXIST: file already exists, ${path}`)
+		}
+	}
+
+	/**
+	 * Get the stats of a file or a directory.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string }} param0
+	 * @param {string} param0.path
+	 * @returns {Promise<FSStats>}
+	 */
+	public async stat({ path }: { path: string }): Promise<FSStats> {
+		return await this.statsOf(path)
+	}
+
+	/**
+	 * List the direct children of a directory. Entries that are neither files nor directories are skipped.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; uuid: string }} param0
+	 * @param {string} param0.path
+	 * @param {string} param0.uuid
+	 * @returns {Promise<FSStats[]>}
+	 */
+	public async readdir({ path }: { path: string; uuid: string }): Promise<FSStats[]> {
+		const stats: FSStats[] = []
+
+		for (const name of await fs.readdir(this.resolve(path))) {
+			if (name.endsWith(PARTIAL_UPLOAD_SUFFIX)) {
+				continue
+			}
+
+			try {
+				stats.push(await this.statsOf(pathModule.posix.join(path, name)))
+			} catch {
+				// Removed concurrently, a broken symlink or neither a file nor a directory
+			}
+		}
+
+		return stats
+	}
+
+	/**
+	 * List all descendants of a directory by walking it recursively.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; uuid: string; skipCache?: boolean }} param0
+	 * @param {string} param0.path
+	 * @param {string} param0.uuid
+	 * @param {boolean} [param0.skipCache]
+	 * @returns {Promise<Record<string, FSStats>>}
+	 */
+	public async tree({ path }: { path: string; uuid: string; skipCache?: boolean }): Promise<Record<string, FSStats>> {
+		const tree: Record<string, FSStats> = {}
+		const walk = async (relative: string): Promise<void> => {
+			for (const stats of await this.readdir({ path: pathModule.posix.join(path, relative), uuid: "" })) {
+				const entry = pathModule.posix.join(relative, stats.name)
+
+				tree[entry] = stats
+
+				if (stats.type === "directory") {
+					await walk(entry)
+				}
+			}
+		}
+
+		await walk("/")
+
+		return tree
+	}
+
+	/**
+	 * Create a directory and all of it's missing parents.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string }} param0
+	 * @param {string} param0.path
+	 * @returns {Promise<string>}
+	 */
+	public async mkdir({ path }: { path: string }): Promise<string> {
+		const missing: string[] = []
+
+		for (
+			let current = pathModule.posix.normalize(`/${path}`);
+			current !== "/" && !(await fs.exists(this.resolve(current)));
+			current = pathModule.posix.dirname(current)
+		) {
+			missing.push(current)
+		}
+
+		await fs.mkdir(this.resolve(path), { recursive: true })
+
+		const stats = await this.statsOf(path)
+
+		if (stats.type !== "directory") {
+			throw new Error(`EEXIST: file already exists, ${path}`)
+		}
+
+		if (missing.length > 0) {
+			this.emitChange(await Promise.all(missing.map(async created => (await this.statsOf(created)).uuid)))
+		}
+
+		return stats.uuid
+	}
+
+	/**
+	 * Read (a range of) a file.
+	 *
+	 * @public
+	 * @param {{ path: string; file: StorageFile; start?: number; end?: number }} param0
+	 * @param {string} param0.path
+	 * @param {StorageFile} param0.file
+	 * @param {number} [param0.start]
+	 * @param {number} [param0.end]
+	 * @returns {Readable}
+	 */
+	public createReadStream({ path, start, end }: { path: string; file: StorageFile; start?: number; end?: number }): Readable {
+		return fs.createReadStream(this.resolve(path), {
+			autoClose: true,
+			flags: "r",
+			start,
+			end
+		})
+	}
+
+	/**
+	 * Write a file. A replaced file is gone, there are no versions. Unless `verify` rejects the content, then the upload is discarded.
+	 *
+	 * @public
+	 * @async
+	 * @param {{
+	 * 		path: string
+	 * 		source: Readable
+	 * 		lastModified?: number
+	 * 		creation?: number
+	 * 		onError?: (err: Error) => void
+	 * 		verify?: () => boolean
+	 * 	}} param0
+	 * @param {string} param0.path
+	 * @param {Readable} param0.source
+	 * @param {number} [param0.lastModified]
+	 * @param {number} [param0.creation]
+	 * @param {(err: Error) => void} [param0.onError]
+	 * @param {() => boolean} [param0.verify]
+	 * @returns {Promise<StorageFile>}
+	 */
+	public async writeFile({
+		path,
+		source,
+		lastModified,
+		onError,
+		verify
+	}: {
+		path: string
+		source: Readable
+		lastModified?: number
+		creation?: number
+		onError?: (err: Error) => void
+		verify?: () => boolean
+	}): Promise<StorageFile> {
+		await this.assertParent(path)
+
+		const target = this.resolve(path)
+		const partial = pathModule.join(pathModule.dirname(target), `.${pathModule.basename(target)}.${uuidv4()}${PARTIAL_UPLOAD_SUFFIX}`)
+
+		try {
+			try {
+				await pipelineAsync(
+					source,
+					fs.createWriteStream(partial, {
+						flags: "w",
+						autoClose: true
+					})
+				)
+			} catch (e) {
+				onError?.(e as Error)
+
+				throw e
+			}
+
+			if (verify && !verify()) {
+				throw new Error(`EBADMSG: content verification failed, ${path}`)
+			}
+
+			const previous = await this.statsOf(path).catch(() => null)
+
+			if (previous && previous.type !== "file") {
+				throw new Error(`EISDIR: illegal operation on a directory, ${path}`)
+			}
+
+			// The creation time of a file can not be changed on most file systems, so it is ignored
+			if (typeof lastModified === "number") {
+				await fs.utimes(partial, new Date(), new Date(lastModified))
+			}
+
+			const previousInode = previous ? await this.inodeOf(path) : null
+
+			await fs.rename(partial, target)
+
+			if (previous && previousInode) {
+				delete this.replacedUUIDs[previousInode]
+
+				this.replacedUUIDs[await this.inodeOf(path)] = previous.uuid
+			}
+		} finally {
+			await fs.rm(partial, { force: true })
+		}
+
+		const stats = await this.statsOf(path)
+
+		if (stats.type !== "file") {
+			throw new Error(`EISDIR: illegal operation on a directory, ${path}`)
+		}
+
+		this.emitChange([stats.uuid])
+
+		return stats
+	}
+
+	/**
+	 * Move and/or rename a file or a directory.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ from: string; to: string }} param0
+	 * @param {string} param0.from
+	 * @param {string} param0.to
+	 * @returns {Promise<void>}
+	 */
+	public async rename({ from, to }: { from: string; to: string }): Promise<void> {
+		await this.assertNotExists(to)
+		await this.assertParent(to)
+		await fs.move(this.resolve(from), this.resolve(to))
+
+		this.emitChange([(await this.statsOf(to)).uuid])
+	}
+
+	/**
+	 * Copy a file or a directory, keeping the timestamps.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ from: string; to: string }} param0
+	 * @param {string} param0.from
+	 * @param {string} param0.to
+	 * @returns {Promise<void>}
+	 */
+	public async copy({ from, to }: { from: string; to: string }): Promise<void> {
+		await this.assertNotExists(to)
+		await this.assertParent(to)
+		await fs.copy(this.resolve(from), this.resolve(to), {
+			overwrite: false,
+			errorOnExist: true,
+			preserveTimestamps: true
+		})
+
+		this.emitChange([(await this.statsOf(to)).uuid])
+	}
+
+	/**
+	 * Delete a file or a directory. Always permanent.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; permanent: boolean }} param0
+	 * @param {string} param0.path
+	 * @param {boolean} param0.permanent
+	 * @returns {Promise<void>}
+	 */
+	public async unlink({ path }: { path: string; permanent: boolean }): Promise<void> {
+		if (pathModule.posix.normalize(`/${path}`) === "/") {
+			throw new Error("EPERM: operation not permitted, unlink /")
+		}
+
+		const stats = await this.statsOf(path)
+		const inode = await this.inodeOf(path)
+
+		await fs.rm(this.resolve(path), {
+			recursive: true,
+			force: true
+		})
+
+		delete this.replacedUUIDs[inode]
+
+		this.emitChange([stats.uuid])
+	}
+
+	/**
+	 * Change the modification time of a file. The creation time can not be changed on most file systems and is ignored.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; file: StorageFile; lastModified?: number; creation?: number }} param0
+	 * @param {string} param0.path
+	 * @param {StorageFile} param0.file
+	 * @param {number} [param0.lastModified]
+	 * @param {number} [param0.creation]
+	 * @returns {Promise<void>}
+	 */
+	public async editMetadata({
+		path,
+		lastModified
+	}: {
+		path: string
+		file: StorageFile
+		lastModified?: number
+		creation?: number
+	}): Promise<void> {
+		if (typeof lastModified === "number") {
+			await fs.utimes(this.resolve(path), new Date(), new Date(lastModified))
+
+			this.emitChange([(await this.statsOf(path)).uuid])
+		}
+	}
+
+	/**
+	 * Subscribe to the UUIDs of items changed through this backend. Changes made to the directory by other programs are not noticed.
+	 *
+	 * @public
+	 * @param {(uuids: string[]) => void} listener
+	 */
+	public onChange(listener: (uuids: string[]) => void): void {
+		this.changeListeners.push(listener)
+	}
+
+	/**
+	 * Get the used and the total size of the file system the root directory lives on.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<StorageQuota>}
+	 */
+	public async statfs(): Promise<StorageQuota> {
+		const statfs = await fs.promises.statfs(this.root)
+
+		return {
+			used: (statfs.blocks - statfs.bfree) * statfs.bsize,
+			max: statfs.blocks * statfs.bsize
+		}
+	}
+}
+
+export default LocalStorageBackend
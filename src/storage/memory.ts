@@ -0,0 +1,511 @@
+import { type FSStats } from "@filen/sdk"
+import { Readable } from "stream"
+import pathModule from "path"
+import { v4 as uuidv4 } from "uuid"
+import { type StorageBackend, type StorageFile, type StorageQuota, localFileStats, localDirectoryStats } from "./backend"
+import { isPathInside } from "../locks"
+
+type MemoryItem =
+	| {
+			type: "directory"
+			uuid: string
+			mtimeMs: number
+			birthtimeMs: number
+	  }
+	| {
+			type: "file"
+			uuid: string
+			data: Buffer
+			lastModified: number
+			creation: number
+	  }
+
+/**
+ * MemoryStorageBackend
+ * Keeps all files and directories in memory, e.g. for tests or offline development. Nothing is persisted and there is no trash.
+ *
+ * @export
+ * @class MemoryStorageBackend
+ * @typedef {MemoryStorageBackend}
+ * @implements {StorageBackend}
+ */
+export class MemoryStorageBackend implements StorageBackend {
+	private readonly items: Map<string, MemoryItem> = new Map()
+	private readonly changeListeners: ((uuids: string[]) => void)[] = []
+
+	/**
+	 * Creates an instance of MemoryStorageBackend.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {number} [maxSize=Number.MAX_SAFE_INTEGER] Storage size in bytes reported by statfs. Writes are not rejected when it is exceeded.
+	 */
+	public constructor(public readonly maxSize: number = Number.MAX_SAFE_INTEGER) {
+		this.items.set("/", {
+			type: "directory",
+			uuid: uuidv4(),
+			mtimeMs: Date.now(),
+			birthtimeMs: Date.now()
+		})
+	}
+
+	/**
+	 * Normalize a path to the form items are keyed by ("/" or "/a/b" without trailing slash).
+	 *
+	 * @private
+	 * @param {string} path
+	 * @returns {string}
+	 */
+	private normalize(path: string): string {
+		const normalized = pathModule.posix.normalize(`/${path}`)
+
+		return normalized.length > 1 && normalized.endsWith("/") ? normalized.slice(0, -1) : normalized
+	}
+
+	/**
+	 * Notify all change listeners.
+	 *
+	 * @private
+	 * @param {string[]} uuids
+	 */
+	private emitChange(uuids: string[]): void {
+		for (const listener of this.changeListeners) {
+			listener(uuids)
+		}
+	}
+
+	/**
+	 * Get the item at a path, rejecting if there is none.
+	 *
+	 * @private
+	 * @param {string} path
+	 * @returns {MemoryItem}
+	 */
+	private get(path: string): MemoryItem {
+		const item = this.items.get(this.normalize(path))
+
+		if (!item) {
+			throw new Error(`ENOENT: no such file or directory, ${path}`)
+		}
+
+		return item
+	}
+
+	/**
+	 * Build the stats of an item.
+	 *
+	 * @private
+	 * @param {string} path
+	 * @param {MemoryItem} item
+	 * @returns {FSStats}
+	 */
+	private toStats(path: string, item: MemoryItem): FSStats {
+		const name = path === "/" ? "" : pathModule.posix.basename(path)
+
+		if (item.type === "directory") {
+			return localDirectoryStats({
+				uuid: item.uuid,
+				name,
+				mtimeMs: item.mtimeMs,
+				birthtimeMs: item.birthtimeMs
+			})
+		}
+
+		return localFileStats({
+			uuid: item.uuid,
+			name,
+			size: item.data.byteLength,
+			lastModified: item.lastModified,
+			creation: item.creation
+		})
+	}
+
+	/**
+	 * Get the paths of all descendants of a directory.
+	 *
+	 * @private
+	 * @param {string} path
+	 * @returns {string[]}
+	 */
+	private descendants(path: string): string[] {
+		return Array.from(this.items.keys()).filter(key => key !== path && isPathInside(key, path))
+	}
+
+	/**
+	 * Make sure the parent of a path is an existing directory.
+	 *
+	 * @private
+	 * @param {string} path
+	 */
+	private assertParent(path: string): void {
+		if (this.get(pathModule.posix.dirname(path)).type !== "directory") {
+			throw new Error(`ENOTDIR: not a directory, ${pathModule.posix.dirname(path)}`)
+		}
+	}
+
+	/**
+	 * Get the stats of a file or a directory.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string }} param0
+	 * @param {string} param0.path
+	 * @returns {Promise<FSStats>}
+	 */
+	public async stat({ path }: { path: string }): Promise<FSStats> {
+		const normalized = this.normalize(path)
+
+		return this.toStats(normalized, this.get(normalized))
+	}
+
+	/**
+	 * List the direct children of a directory.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; uuid: string }} param0
+	 * @param {string} param0.path
+	 * @param {string} param0.uuid
+	 * @returns {Promise<FSStats[]>}
+	 */
+	public async readdir({ path }: { path: string; uuid: string }): Promise<FSStats[]> {
+		const normalized = this.normalize(path)
+
+		if (this.get(normalized).type !== "directory") {
+			throw new Error(`ENOTDIR: not a directory, ${path}`)
+		}
+
+		return Array.from(this.items.entries())
+			.filter(([key]) => key !== "/" && pathModule.posix.dirname(key) === normalized)
+			.map(([key, item]) => this.toStats(key, item))
+	}
+
+	/**
+	 * List all descendants of a directory.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; uuid: string; skipCache?: boolean }} param0
+	 * @param {string} param0.path
+	 * @param {string} param0.uuid
+	 * @param {boolean} [param0.skipCache]
+	 * @returns {Promise<Record<string, FSStats>>}
+	 */
+	public async tree({ path }: { path: string; uuid: string; skipCache?: boolean }): Promise<Record<string, FSStats>> {
+		const normalized = this.normalize(path)
+		const tree: Record<string, FSStats> = {}
+
+		for (const key of this.descendants(normalized)) {
+			tree[key.slice(normalized === "/" ? 0 : normalized.length)] = this.toStats(key, this.items.get(key)!)
+		}
+
+		return tree
+	}
+
+	/**
+	 * Create a directory and all of it's missing parents.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string }} param0
+	 * @param {string} param0.path
+	 * @returns {Promise<string>}
+	 */
+	public async mkdir({ path }: { path: string }): Promise<string> {
+		const normalized = this.normalize(path)
+		const existing = this.items.get(normalized)
+
+		if (existing) {
+			if (existing.type !== "directory") {
+				throw new Error(`EEXIST: file already exists, ${path}`)
+			}
+
+			return existing.uuid
+		}
+
+		await this.mkdir({ path: pathModule.posix.dirname(normalized) })
+
+		const uuid = uuidv4()
+
+		this.items.set(normalized, {
+			type: "directory",
+			uuid,
+			mtimeMs: Date.now(),
+			birthtimeMs: Date.now()
+		})
+
+		this.emitChange([uuid])
+
+		return uuid
+	}
+
+	/**
+	 * Read (a range of) a file.
+	 *
+	 * @public
+	 * @param {{ path: string; file: StorageFile; start?: number; end?: number }} param0
+	 * @param {string} param0.path
+	 * @param {StorageFile} param0.file
+	 * @param {number} [param0.start]
+	 * @param {number} [param0.end]
+	 * @returns {Readable}
+	 */
+	public createReadStream({ path, start, end }: { path: string; file: StorageFile; start?: number; end?: number }): Readable {
+		const item = this.get(path)
+
+		if (item.type !== "file") {
+			throw new Error(`EISDIR: illegal operation on a directory, ${path}`)
+		}
+
+		return Readable.from([item.data.subarray(start ?? 0, typeof end === "number" ? end + 1 : undefined)])
+	}
+
+	/**
+	 * Buffer the source and store it as a file. A replaced file is gone, there are no versions.
+	 *
+	 * @public
+	 * @async
+	 * @param {{
+	 * 		path: string
+	 * 		source: Readable
+	 * 		lastModified?: number
+	 * 		creation?: number
+	 * 		onError?: (err: Error) => void
+	 * 		verify?: () => boolean
+	 * 	}} param0
+	 * @param {string} param0.path
+	 * @param {Readable} param0.source
+	 * @param {number} [param0.lastModified]
+	 * @param {number} [param0.creation]
+	 * @param {(err: Error) => void} [param0.onError]
+	 * @param {() => boolean} [param0.verify]
+	 * @returns {Promise<StorageFile>}
+	 */
+	public async writeFile({
+		path,
+		source,
+		lastModified,
+		creation,
+		onError,
+		verify
+	}: {
+		path: string
+		source: Readable
+		lastModified?: number
+		creation?: number
+		onError?: (err: Error) => void
+		verify?: () => boolean
+	}): Promise<StorageFile> {
+		const normalized = this.normalize(path)
+
+		this.assertParent(normalized)
+
+		const chunks: Buffer[] = []
+
+		try {
+			for await (const chunk of source) {
+				chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+			}
+		} catch (e) {
+			onError?.(e as Error)
+
+			throw e
+		}
+
+		if (verify && !verify()) {
+			throw new Error(`EBADMSG: content verification failed, ${path}`)
+		}
+
+		const existing = this.items.get(normalized)
+
+		if (existing && existing.type === "directory") {
+			throw new Error(`EISDIR: illegal operation on a directory, ${path}`)
+		}
+
+		const item: MemoryItem = {
+			type: "file",
+			uuid: uuidv4(),
+			data: Buffer.concat(chunks),
+			lastModified: lastModified ?? Date.now(),
+			creation: creation ?? Date.now()
+		}
+
+		this.items.set(normalized, item)
+
+		this.emitChange([item.uuid])
+
+		return this.toStats(normalized, item) as StorageFile
+	}
+
+	/**
+	 * Move and/or rename a file or a directory, including all of it's descendants.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ from: string; to: string }} param0
+	 * @param {string} param0.from
+	 * @param {string} param0.to
+	 * @returns {Promise<void>}
+	 */
+	public async rename({ from, to }: { from: string; to: string }): Promise<void> {
+		const source = this.normalize(from)
+		const destination = this.normalize(to)
+		const item = this.get(source)
+
+		if (this.items.has(destination)) {
+			throw new Error(`EEXIST: file already exists, ${to}`)
+		}
+
+		if (isPathInside(destination, source)) {
+			throw new Error(`EINVAL: invalid argument, rename ${from} -> ${to}`)
+		}
+
+		this.assertParent(destination)
+
+		for (const key of this.descendants(source)) {
+			this.items.set(`${destination}${key.slice(source.length)}`, this.items.get(key)!)
+			this.items.delete(key)
+		}
+
+		this.items.set(destination, item)
+		this.items.delete(source)
+
+		this.emitChange([item.uuid])
+	}
+
+	/**
+	 * Copy a file or a directory. Copies get new UUIDs.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ from: string; to: string }} param0
+	 * @param {string} param0.from
+	 * @param {string} param0.to
+	 * @returns {Promise<void>}
+	 */
+	public async copy({ from, to }: { from: string; to: string }): Promise<void> {
+		const source = this.normalize(from)
+		const destination = this.normalize(to)
+		const item = this.get(source)
+
+		if (this.items.has(destination)) {
+			throw new Error(`EEXIST: file already exists, ${to}`)
+		}
+
+		if (isPathInside(destination, source)) {
+			throw new Error(`EINVAL: invalid argument, copy ${from} -> ${to}`)
+		}
+
+		this.assertParent(destination)
+
+		for (const key of [source, ...this.descendants(source)]) {
+			const current = key === source ? item : this.items.get(key)!
+
+			this.items.set(`${destination}${key.slice(source.length)}`, {
+				...current,
+				uuid: uuidv4()
+			})
+		}
+
+		this.emitChange([this.items.get(destination)!.uuid])
+	}
+
+	/**
+	 * Delete a file or a directory. Always permanent.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; permanent: boolean }} param0
+	 * @param {string} param0.path
+	 * @param {boolean} param0.permanent
+	 * @returns {Promise<void>}
+	 */
+	public async unlink({ path }: { path: string; permanent: boolean }): Promise<void> {
+		const normalized = this.normalize(path)
+		const item = this.get(normalized)
+
+		if (normalized === "/") {
+			throw new Error("EPERM: operation not permitted, unlink /")
+		}
+
+		for (const key of this.descendants(normalized)) {
+			this.items.delete(key)
+		}
+
+		this.items.delete(normalized)
+
+		this.emitChange([item.uuid])
+	}
+
+	/**
+	 * Change the modification and/or creation time of a file.
+	 *
+	 * @public
+	 * @async
+	 * @param {{ path: string; file: StorageFile; lastModified?: number; creation?: number }} param0
+	 * @param {string} param0.path
+	 * @param {StorageFile} param0.file
+	 * @param {number} [param0.lastModified]
+	 * @param {number} [param0.creation]
+	 * @returns {Promise<void>}
+	 */
+	public async editMetadata({
+		path,
+		lastModified,
+		creation
+	}: {
+		path: string
+		file: StorageFile
+		lastModified?: number
+		creation?: number
+	}): Promise<void> {
+		const normalized = this.normalize(path)
+		const item = this.get(normalized)
+
+		if (item.type !== "file") {
+			throw new Error(`EISDIR: illegal operation on a directory, ${path}`)
+		}
+
+		this.items.set(normalized, {
+			...item,
+			lastModified: lastModified ?? item.lastModified,
+			creation: creation ?? item.creation
+		})
+
+		this.emitChange([item.uuid])
+	}
+
+	/**
+	 * Subscribe to the UUIDs of changed items.
+	 *
+	 * @public
+	 * @param {(uuids: string[]) => void} listener
+	 */
+	public onChange(listener: (uuids: string[]) => void): void {
+		this.changeListeners.push(listener)
+	}
+
+	/**
+	 * Get the size of all files and the configured storage size.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<StorageQuota>}
+	 */
+	public async statfs(): Promise<StorageQuota> {
+		let used = 0
+
+		for (const item of this.items.values()) {
+			if (item.type === "file") {
+				used += item.data.byteLength
+			}
+		}
+
+		return {
+			used,
+			max: this.maxSize
+		}
+	}
+}
+
+export default MemoryStorageBackend
@@ -0,0 +1,286 @@
+import fs from "fs-extra"
+import pathModule from "path"
+import writeFileAtomic from "write-file-atomic"
+
+/**
+ * A lock file older than this is considered left behind by a crashed process.
+ */
+export const STALE_STORE_LOCK_AGE = 10000
+
+/**
+ * PersistentStore
+ * A small embedded JSON database. The whole document is kept in memory and written to disk atomically, debounced.
+ * Several processes (e.g. the workers of a cluster) can share a file: Writes only replace the keys that changed in this process,
+ * merged into the current file content while holding a lock file. Every load checks if the file was replaced since it was read and reads it again,
+ * so changes of other processes become visible. Changes of this process that are not written yet are kept on top of them.
+ *
+ * @export
+ * @class PersistentStore
+ * @typedef {PersistentStore}
+ * @template T
+ */
+export class PersistentStore<T> {
+	private data: T | null = null
+	private loading: Promise<T> | null = null
+	private version: string | null = null
+	private writeTimeout: ReturnType<typeof setTimeout> | null = null
+	private writing: Promise<void> = Promise.resolve()
+	private changedKeys: string[][] = []
+	private changedAll: boolean = false
+
+	/**
+	 * Creates an instance of PersistentStore.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {string} path Path of the JSON file.
+	 * @param {() => T} initial Factory for the initial document, used when the file does not exist or is corrupted.
+	 * @param {number} [writeDelay=1000] Debounce delay of disk writes in milliseconds.
+	 * @param {boolean} [reload=true] Read the file again when another process replaced it. Disable it if references into the document are kept across loads.
+	 */
+	public constructor(
+		public readonly path: string,
+		private readonly initial: () => T,
+		private readonly writeDelay: number = 1000,
+		private readonly reload: boolean = true
+	) {}
+
+	/**
+	 * Load the document. The file is only read again if it changed since the last read, concurrent loads share one read.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<T>}
+	 */
+	public async load(): Promise<T> {
+		if (this.data && !this.reload) {
+			return this.data
+		}
+
+		if (!this.loading) {
+			this.loading = this.read().finally(() => {
+				this.loading = null
+			})
+		}
+
+		return await this.loading
+	}
+
+	/**
+	 * Read the file if it was replaced since the last read. Atomic writes replace the file, so it's inode, size and mtime identify the content.
+	 *
+	 * @private
+	 * @async
+	 * @returns {Promise<T>}
+	 */
+	private async read(): Promise<T> {
+		// A running write of this process has to land first, it's changes are not pending anymore and would be lost otherwise
+		await this.writing.catch(() => {})
+
+		const stat = await fs.stat(this.path).catch(() => null)
+		const version = stat ? `${stat.ino}:${stat.size}:${stat.mtimeMs}` : null
+
+		if (this.data && version === this.version) {
+			return this.data
+		}
+
+		let document: T | null = null
+
+		try {
+			if (stat) {
+				document = JSON.parse(await fs.readFile(this.path, "utf-8")) as T
+			}
+		} catch {
+			// Corrupted documents are replaced with a fresh one
+		}
+
+		if (document && this.data) {
+			if (this.changedAll) {
+				document = this.data
+			} else {
+				for (const key of this.changedKeys) {
+					document = assignAt(document, key, valueAt(this.data, key)) as T
+				}
+			}
+		}
+
+		this.data = document ?? this.data ?? this.initial()
+		this.version = version
+
+		return this.data
+	}
+
+	/**
+	 * Schedule a debounced write of the current document.
+	 * Pass the key paths (e.g. ["virtual", "/file.txt"]) that changed, only they are merged into the file. Without keys the whole document is written.
+	 *
+	 * @public
+	 * @param {...string[][]} keys
+	 */
+	public changed(...keys: string[][]): void {
+		if (keys.length === 0) {
+			this.changedAll = true
+		} else {
+			this.changedKeys.push(...keys)
+		}
+
+		if (this.writeTimeout) {
+			clearTimeout(this.writeTimeout)
+		}
+
+		this.writeTimeout = setTimeout(() => {
+			this.writeTimeout = null
+
+			this.flush().catch(() => {})
+		}, this.writeDelay)
+	}
+
+	/**
+	 * Write the current document to disk right away.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<void>}
+	 */
+	public async flush(): Promise<void> {
+		if (this.writeTimeout) {
+			clearTimeout(this.writeTimeout)
+
+			this.writeTimeout = null
+		}
+
+		if (!this.data || (!this.changedAll && this.changedKeys.length === 0)) {
+			return
+		}
+
+		// The values are captured now, changes made while the write is running are written by the next flush
+		const changes: { key: string[]; value: string | undefined }[] = this.changedAll
+			? [{ key: [], value: JSON.stringify(this.data) }]
+			: this.changedKeys.map(key => ({ key, value: JSON.stringify(valueAt(this.data, key)) }))
+
+		this.changedKeys = []
+		this.changedAll = false
+
+		this.writing = this.writing
+			.catch(() => {})
+			.then(async () => {
+				await fs.ensureDir(pathModule.dirname(this.path))
+				await this.withLock(async () => {
+					let document: unknown = null
+
+					try {
+						if (await fs.exists(this.path)) {
+							document = JSON.parse(await fs.readFile(this.path, "utf-8"))
+						}
+					} catch {
+						// Corrupted documents are replaced
+					}
+
+					for (const { key, value } of changes) {
+						document = assignAt(document, key, typeof value === "string" ? JSON.parse(value) : undefined)
+					}
+
+					await writeFileAtomic(this.path, JSON.stringify(document ?? this.initial()), "utf-8")
+				})
+			})
+
+		await this.writing
+	}
+
+	/**
+	 * Run a function while holding the lock file of the store. Lock files left behind by crashed processes are taken over once they are stale.
+	 *
+	 * @private
+	 * @async
+	 * @template R
+	 * @param {() => Promise<R>} fn
+	 * @returns {Promise<R>}
+	 */
+	private async withLock<R>(fn: () => Promise<R>): Promise<R> {
+		const lockPath = `${this.path}.lock`
+
+		while (true) {
+			try {
+				await (await fs.promises.open(lockPath, "wx")).close()
+
+				break
+			} catch (e) {
+				if ((e as NodeJS.ErrnoException).code !== "EEXIST") {
+					throw e
+				}
+
+				const stat = await fs.stat(lockPath).catch(() => null)
+
+				if (stat && Date.now() - stat.mtimeMs > STALE_STORE_LOCK_AGE) {
+					await fs.rm(lockPath, { force: true })
+
+					continue
+				}
+
+				await new Promise<void>(resolve => setTimeout(resolve, 25))
+			}
+		}
+
+		try {
+			return await fn()
+		} finally {
+			await fs.rm(lockPath, { force: true })
+		}
+	}
+}
+
+/**
+ * Read the value at a key path of a document.
+ *
+ * @param {unknown} document
+ * @param {string[]} key
+ * @returns {unknown}
+ */
+function valueAt(document: unknown, key: string[]): unknown {
+	let value = document
+
+	for (const part of key) {
+		if (!value || typeof value !== "object") {
+			return undefined
+		}
+
+		value = (value as Record<string, unknown>)[part]
+	}
+
+	return value
+}
+
+/**
+ * Set (or delete, if the value is undefined) the value at a key path of a document, creating missing parents. Returns the document.
+ *
+ * @param {unknown} document
+ * @param {string[]} key
+ * @param {unknown} value
+ * @returns {unknown}
+ */
+function assignAt(document: unknown, key: string[], value: unknown): unknown {
+	if (key.length === 0) {
+		return value
+	}
+
+	const root = document && typeof document === "object" ? (document as Record<string, unknown>) : {}
+	let parent = root
+
+	for (const part of key.slice(0, -1)) {
+		if (!parent[part] || typeof parent[part] !== "object") {
+			parent[part] = {}
+		}
+
+		parent = parent[part] as Record<string, unknown>
+	}
+
+	if (typeof value === "undefined") {
+		delete parent[key[key.length - 1]!]
+	} else {
+		parent[key[key.length - 1]!] = value
+	}
+
+	return root
+}
+
+export default PersistentStore
@@ -0,0 +1,419 @@
+import pathModule from "path"
+import fs from "fs-extra"
+import writeFileAtomic from "write-file-atomic"
+import { Jimp, JimpMime } from "jimp"
+import { sanitizeFileName } from "./utils"
+import { Semaphore, type ISemaphore } from "./semaphore"
+
+/**
+ * Largest width or height a thumbnail can be requested with.
+ */
+export const MAX_THUMBNAIL_DIMENSION = 2048
+
+/**
+ * Files larger than this are not decoded, decoding happens in memory.
+ */
+export const MAX_THUMBNAIL_SOURCE_SIZE = 64 * 1024 * 1024
+
+/**
+ * Images with more pixels than this are not decoded. The size of a file says little about it's decoded size, so the dimensions are read from the header first.
+ */
+export const MAX_THUMBNAIL_SOURCE_PIXELS = 8192 * 6144
+
+/**
+ * Number of thumbnails generated at the same time, every generation holds a decoded image in memory.
+ */
+export const MAX_CONCURRENT_THUMBNAIL_GENERATIONS = 2
+
+/**
+ * Default size limit of the on-disk thumbnail cache.
+ */
+export const DEFAULT_THUMBNAIL_CACHE_SIZE = 256 * 1024 * 1024
+
+/**
+ * Image formats thumbnails can be generated from.
+ */
+export const THUMBNAIL_SOURCE_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/bmp", "image/x-ms-bmp", "image/tiff"]
+
+export type ThumbnailSize = {
+	width: number
+	height: number
+}
+
+export type Thumbnail = {
+	mime: string
+	data: Buffer
+}
+
+/**
+ * Parse the value of the `thumbnail` query parameter ("WxH"). Returns null if it is malformed or out of bounds.
+ *
+ * @export
+ * @param {string} value
+ * @returns {(ThumbnailSize | null)}
+ */
+export function parseThumbnailSize(value: string): ThumbnailSize | null {
+	const match = /^(\d{1,5})x(\d{1,5})$/i.exec(value.trim())
+
+	if (!match) {
+		return null
+	}
+
+	const width = parseInt(match[1]!, 10)
+	const height = parseInt(match[2]!, 10)
+
+	if (width < 1 || height < 1 || width > MAX_THUMBNAIL_DIMENSION || height > MAX_THUMBNAIL_DIMENSION) {
+		return null
+	}
+
+	return {
+		width,
+		height
+	}
+}
+
+/**
+ * The format a thumbnail is encoded in. Formats that can carry transparency become PNG, everything else JPEG.
+ *
+ * @export
+ * @param {string} sourceMime
+ * @returns {("image/png" | "image/jpeg")}
+ */
+export function thumbnailMime(sourceMime: string): "image/png" | "image/jpeg" {
+	return sourceMime === "image/png" || sourceMime === "image/gif" ? JimpMime.png : JimpMime.jpeg
+}
+
+/**
+ * Read the dimensions of an image from it's header without decoding it. Supports the formats of THUMBNAIL_SOURCE_MIME_TYPES.
+ * Returns null if the format is not recognized or the header is malformed.
+ *
+ * @export
+ * @param {Buffer} source
+ * @returns {(ThumbnailSize | null)}
+ */
+export function imageDimensions(source: Buffer): ThumbnailSize | null {
+	try {
+		// PNG, the IHDR chunk comes first
+		if (source.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+			return {
+				width: source.readUInt32BE(16),
+				height: source.readUInt32BE(20)
+			}
+		}
+
+		// GIF, the logical screen bounds all frames
+		if (source.subarray(0, 4).toString("latin1") === "GIF8") {
+			return {
+				width: source.readUInt16LE(6),
+				height: source.readUInt16LE(8)
+			}
+		}
+
+		// BMP, OS/2 headers store 16 bit dimensions, top-down bitmaps a negative height
+		if (source.subarray(0, 2).toString("latin1") === "BM") {
+			if (source.readUInt32LE(14) === 12) {
+				return {
+					width: source.readUInt16LE(18),
+					height: source.readUInt16LE(20)
+				}
+			}
+
+			return {
+				width: Math.abs(source.readInt32LE(18)),
+				height: Math.abs(source.readInt32LE(22))
+			}
+		}
+
+		// JPEG, the dimensions are part of the start of frame segment
+		if (source[0] === 0xff && source[1] === 0xd8) {
+			let offset = 2
+
+			while (offset + 9 <= source.byteLength) {
+				if (source[offset] !== 0xff) {
+					return null
+				}
+
+				const marker = source[offset + 1]!
+
+				// Fill bytes and markers without a length
+				if (marker === 0xff) {
+					offset++
+
+					continue
+				}
+
+				if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+					offset += 2
+
+					continue
+				}
+
+				if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+					return {
+						width: source.readUInt16BE(offset + 7),
+						height: source.readUInt16BE(offset + 5)
+					}
+				}
+
+				offset += 2 + source.readUInt16BE(offset + 2)
+			}
+
+			return null
+		}
+
+		// TIFF, the first image file directory describes the image that is decoded
+		const byteOrder = source.subarray(0, 4).toString("latin1")
+
+		if (byteOrder === "II*\0" || byteOrder === "MM\0*") {
+			const littleEndian = byteOrder === "II*\0"
+			const readUInt16 = (offset: number) => (littleEndian ? source.readUInt16LE(offset) : source.readUInt16BE(offset))
+			const readUInt32 = (offset: number) => (littleEndian ? source.readUInt32LE(offset) : source.readUInt32BE(offset))
+			const directory = readUInt32(4)
+			const entries = readUInt16(directory)
+			let width: number | null = null
+			let height: number | null = null
+
+			for (let i = 0; i < entries; i++) {
+				const entry = directory + 2 + i * 12
+				const tag = readUInt16(entry)
+				// SHORT or LONG
+				const value = readUInt16(entry + 2) === 3 ? readUInt16(entry + 8) : readUInt32(entry + 8)
+
+				if (tag === 256) {
+					width = value
+				} else if (tag === 257) {
+					height = value
+				}
+			}
+
+			return width !== null && height !== null ? { width, height } : null
+		}
+	} catch {
+		// Truncated header
+	}
+
+	return null
+}
+
+/**
+ * Decode an image and scale it down to fit into the given size, keeping it's aspect ratio. Images are never scaled up.
+ * Images whose dimensions can not be read or exceed MAX_THUMBNAIL_SOURCE_PIXELS are rejected before they are decoded.
+ *
+ * @export
+ * @async
+ * @param {Buffer} source
+ * @param {string} sourceMime
+ * @param {ThumbnailSize} size
+ * @returns {Promise<Thumbnail>}
+ */
+export async function generateThumbnail(source: Buffer, sourceMime: string, size: ThumbnailSize): Promise<Thumbnail> {
+	const dimensions = imageDimensions(source)
+
+	if (!dimensions || dimensions.width * dimensions.height > MAX_THUMBNAIL_SOURCE_PIXELS) {
+		throw new Error("Image dimensions are unknown or too large to generate a thumbnail.")
+	}
+
+	const image = await Jimp.read(source)
+
+	if (image.width > size.width || image.height > size.height) {
+		image.scaleToFit({
+			w: size.width,
+			h: size.height
+		})
+	}
+
+	const mime = thumbnailMime(sourceMime)
+
+	return {
+		mime,
+		data: mime === JimpMime.png ? await image.getBuffer(JimpMime.png) : await image.getBuffer(JimpMime.jpeg, { quality: 80 })
+	}
+}
+
+/**
+ * ThumbnailCache
+ * Stores generated thumbnails on disk, so every worker of a cluster can serve them. Entries are keyed by the entity tag of the file
+ * (it's UUID plus content hash) and the requested size. Once the cache grows beyond it's size limit the least recently used entries are removed.
+ * Generating a thumbnail goes through the cache as well: concurrent requests for the same entry share one generation and only a few generations run at once.
+ *
+ * @export
+ * @class ThumbnailCache
+ * @typedef {ThumbnailCache}
+ */
+export class ThumbnailCache {
+	private pruning: Promise<void> | null = null
+	private readonly generating: Record<string, Promise<Buffer>> = {}
+	private readonly generations: ISemaphore = new Semaphore(MAX_CONCURRENT_THUMBNAIL_GENERATIONS)
+
+	/**
+	 * Creates an instance of ThumbnailCache.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {string} path Directory the thumbnails are stored in.
+	 * @param {number} [maxSize=DEFAULT_THUMBNAIL_CACHE_SIZE] Size limit of the cache in bytes. Set to 0 to disable caching.
+	 */
+	public constructor(
+		public readonly path: string,
+		public readonly maxSize: number = DEFAULT_THUMBNAIL_CACHE_SIZE
+	) {}
+
+	/**
+	 * The path of a cache entry.
+	 *
+	 * @private
+	 * @param {string} key
+	 * @param {ThumbnailSize} size
+	 * @param {string} mime
+	 * @returns {string}
+	 */
+	private entryPath(key: string, size: ThumbnailSize, mime: string): string {
+		return pathModule.join(this.path, sanitizeFileName(`${key}_${size.width}x${size.height}.${mime === JimpMime.png ? "png" : "jpg"}`))
+	}
+
+	/**
+	 * Get a cached thumbnail. Reading an entry marks it as recently used.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} key
+	 * @param {ThumbnailSize} size
+	 * @param {string} mime
+	 * @returns {Promise<Buffer | null>}
+	 */
+	public async get(key: string, size: ThumbnailSize, mime: string): Promise<Buffer | null> {
+		if (this.maxSize <= 0) {
+			return null
+		}
+
+		const path = this.entryPath(key, size, mime)
+
+		try {
+			const data = await fs.readFile(path)
+			const now = new Date()
+
+			await fs.utimes(path, now, now).catch(() => {})
+
+			return data
+		} catch {
+			return null
+		}
+	}
+
+	/**
+	 * Store a thumbnail and prune the cache if it grew beyond it's size limit.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} key
+	 * @param {ThumbnailSize} size
+	 * @param {Thumbnail} thumbnail
+	 * @returns {Promise<void>}
+	 */
+	public async set(key: string, size: ThumbnailSize, thumbnail: Thumbnail): Promise<void> {
+		if (this.maxSize <= 0 || thumbnail.data.byteLength > this.maxSize) {
+			return
+		}
+
+		await fs.ensureDir(this.path)
+		await writeFileAtomic(this.entryPath(key, size, thumbnail.mime), thumbnail.data)
+
+		if (!this.pruning) {
+			this.pruning = this.prune().finally(() => {
+				this.pruning = null
+			})
+		}
+
+		await this.pruning
+	}
+
+	/**
+	 * Get a thumbnail from the cache or generate and store it. A generation already running for the same entry is joined.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} key
+	 * @param {ThumbnailSize} size
+	 * @param {string} mime
+	 * @param {() => Promise<Thumbnail>} generate
+	 * @returns {Promise<Buffer>}
+	 */
+	public async getOrGenerate(key: string, size: ThumbnailSize, mime: string, generate: () => Promise<Thumbnail>): Promise<Buffer> {
+		const cached = await this.get(key, size, mime)
+
+		if (cached) {
+			return cached
+		}
+
+		const path = this.entryPath(key, size, mime)
+
+		if (!this.generating[path]) {
+			this.generating[path] = (async () => {
+				await this.generations.acquire()
+
+				try {
+					const thumbnail = await generate()
+
+					// Failing to cache a thumbnail must not fail it's request
+					await this.set(key, size, thumbnail).catch(() => {})
+
+					return thumbnail.data
+				} finally {
+					this.generations.release()
+				}
+			})().finally(() => {
+				delete this.generating[path]
+			})
+		}
+
+		return await this.generating[path]!
+	}
+
+	/**
+	 * Remove the least recently used entries until the cache fits into it's size limit.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<void>}
+	 */
+	public async prune(): Promise<void> {
+		if (!(await fs.exists(this.path))) {
+			return
+		}
+
+		const entries: { path: string; size: number; mtimeMs: number }[] = []
+		let total = 0
+
+		for (const name of await fs.readdir(this.path)) {
+			const path = pathModule.join(this.path, name)
+
+			try {
+				const stat = await fs.stat(path)
+
+				entries.push({
+					path,
+					size: stat.size,
+					mtimeMs: stat.mtimeMs
+				})
+
+				total += stat.size
+			} catch {
+				// Removed concurrently
+			}
+		}
+
+		entries.sort((a, b) => a.mtimeMs - b.mtimeMs)
+
+		for (const entry of entries) {
+			if (total <= this.maxSize) {
+				break
+			}
+
+			await fs.rm(entry.path, { force: true })
+
+			total -= entry.size
+		}
+	}
+}
+
+export default ThumbnailCache
@@ -0,0 +1,255 @@
+import { type Request } from "express"
+import { type WebDAVServer as Server, type Resource } from "."
+import { type CloudItem, type FilenSDK, type FSStats } from "@filen/sdk"
+import pathModule from "path"
+import { isPathInside } from "./locks"
+import { cloudItemToResource, cloudItemToStats, statsToResource } from "./utils"
+
+/**
+ * Root of the virtual collection exposing the trash, only available if the server was started with `enableTrash`.
+ * Trashed items are listed directly below it, the contents of trashed directories can be browsed as usual.
+ * It takes the place of a real ".trash" folder at the root of the drive, which can not be reached while the trash is enabled.
+ */
+export const TRASH_PATH = "/.trash"
+
+/**
+ * Check if a path lies inside the trash collection of the server.
+ *
+ * @export
+ * @param {Server} server
+ * @param {string} path
+ * @returns {boolean}
+ */
+export function isTrashPath(server: Server, path: string): boolean {
+	return server.enableTrash && isPathInside(path, TRASH_PATH)
+}
+
+/**
+ * The name of an item in the trash collection. The trash can contain several items with the same name,
+ * these are told apart by appending the beginning of their UUID.
+ *
+ * @param {CloudItem} item
+ * @param {CloudItem[]} items
+ * @returns {string}
+ */
+function trashEntryName(item: CloudItem, items: CloudItem[]): string {
+	if (!items.some(other => other.uuid !== item.uuid && other.name === item.name)) {
+		return item.name
+	}
+
+	const extname = item.type === "file" ? pathModule.posix.extname(item.name) : ""
+
+	return `${item.name.slice(0, item.name.length - extname.length)} (${item.uuid.slice(0, 8)})${extname}`
+}
+
+/**
+ * An item of the trash collection and the UUID of the directory it (still) belongs to.
+ */
+type TrashItem = FSStats & { parent: string }
+
+/**
+ * Resolve the cloud item at a path inside the trash collection.
+ *
+ * @async
+ * @param {Server} server
+ * @param {Request} req
+ * @param {string} path
+ * @returns {Promise<TrashItem | null>}
+ */
+async function trashPathToItem(server: Server, req: Request, path: string): Promise<TrashItem | null> {
+	const [first, ...rest] = path.slice(TRASH_PATH.length + 1).split("/")
+	const items = await server.listTrash(req.username)
+	const entry = items.find(entry => trashEntryName(entry, items) === first)
+	let item: TrashItem | null = entry ? { ...cloudItemToStats(entry), parent: entry.parent } : null
+	let itemPath = pathModule.posix.join(TRASH_PATH, first ?? "")
+
+	for (const name of rest) {
+		if (!item || item.type !== "directory") {
+			return null
+		}
+
+		const parent: string = item.uuid
+		const child = (await server.listDirectory({ uuid: parent, path: itemPath }, req.username)).find(child => child.name === name)
+
+		item = child ? { ...child, parent } : null
+		itemPath = pathModule.posix.join(itemPath, name)
+	}
+
+	return item
+}
+
+/**
+ * Resolve a path inside the trash collection.
+ *
+ * @export
+ * @async
+ * @param {Server} server
+ * @param {Request} req
+ * @param {string} path
+ * @returns {Promise<Resource | null>}
+ */
+export async function trashPathToResource(server: Server, req: Request, path: string): Promise<Resource | null> {
+	if (path === TRASH_PATH) {
+		return {
+			type: "directory",
+			uuid: "trash",
+			name: pathModule.posix.basename(TRASH_PATH),
+			size: 0,
+			mtimeMs: 0,
+			birthtimeMs: 0,
+			isDirectory: () => true,
+			isFile: () => false,
+			url: `${TRASH_PATH}/`,
+			path: TRASH_PATH,
+			isVirtual: false
+		}
+	}
+
+	const item = await trashPathToItem(server, req, path)
+
+	return item ? statsToResource(item, path) : null
+}
+
+/**
+ * List the children of a collection inside the trash collection.
+ *
+ * @export
+ * @async
+ * @param {Server} server
+ * @param {Request} req
+ * @param {Resource} resource
+ * @returns {Promise<Resource[]>}
+ */
+export async function trashChildren(server: Server, req: Request, resource: Resource): Promise<Resource[]> {
+	if (resource.path === TRASH_PATH) {
+		const items = await server.listTrash(req.username)
+
+		return items.map(item => cloudItemToResource(item, pathModule.posix.join(TRASH_PATH, trashEntryName(item, items))))
+	}
+
+	return (await server.listDirectory(resource, req.username)).map(item =>
+		statsToResource(item, pathModule.posix.join(resource.path, item.name))
+	)
+}
+
+/**
+ * Restore an item of the trash collection and move it to the given directory under the given name.
+ * Items placed directly in the trash are restored to their original location first, items inside trashed directories are moved right away.
+ * Returns false if the item does not exist.
+ *
+ * @export
+ * @async
+ * @param {Server} server
+ * @param {Request} req
+ * @param {FilenSDK} sdk
+ * @param {string} path
+ * @param {{ parent: string; name: string }} destination
+ * @returns {Promise<boolean>}
+ */
+export async function restoreTrashItem(
+	server: Server,
+	req: Request,
+	sdk: FilenSDK,
+	path: string,
+	destination: { parent: string; name: string }
+): Promise<boolean> {
+	const item = await trashPathToItem(server, req, path)
+
+	if (!item) {
+		return false
+	}
+
+	if (pathModule.posix.dirname(path) === TRASH_PATH) {
+		if (item.type === "file") {
+			await sdk.cloud().restoreFile({ uuid: item.uuid })
+		} else {
+			await sdk.cloud().restoreDirectory({ uuid: item.uuid })
+		}
+	}
+
+	if (item.parent !== destination.parent) {
+		if (item.type === "file") {
+			await sdk.cloud().moveFile({
+				uuid: item.uuid,
+				to: destination.parent,
+				metadata: {
+					name: item.name,
+					size: item.size,
+					mime: item.mime,
+					key: item.key,
+					lastModified: item.lastModified,
+					creation: item.creation,
+					hash: item.hash
+				}
+			})
+		} else {
+			await sdk.cloud().moveDirectory({
+				uuid: item.uuid,
+				to: destination.parent,
+				metadata: {
+					name: item.name
+				}
+			})
+		}
+	}
+
+	if (item.name !== destination.name) {
+		if (item.type === "file") {
+			await sdk.cloud().renameFile({
+				uuid: item.uuid,
+				name: destination.name,
+				metadata: {
+					name: destination.name,
+					size: item.size,
+					mime: item.mime,
+					key: item.key,
+					lastModified: item.lastModified,
+					creation: item.creation,
+					hash: item.hash
+				}
+			})
+		} else {
+			await sdk.cloud().renameDirectory({
+				uuid: item.uuid,
+				name: destination.name
+			})
+		}
+	}
+
+	server.invalidateTrashListing(req.username)
+	server.invalidateDirectoryListings(req.username)
+	server.changes.record([item.uuid], req.username)
+
+	return true
+}
+
+/**
+ * Permanently delete an item of the trash collection. Returns false if the item does not exist.
+ *
+ * @export
+ * @async
+ * @param {Server} server
+ * @param {Request} req
+ * @param {FilenSDK} sdk
+ * @param {string} path
+ * @returns {Promise<boolean>}
+ */
+export async function deleteTrashItem(server: Server, req: Request, sdk: FilenSDK, path: string): Promise<boolean> {
+	const item = await trashPathToItem(server, req, path)
+
+	if (!item) {
+		return false
+	}
+
+	if (item.type === "file") {
+		await sdk.cloud().deleteFile({ uuid: item.uuid })
+	} else {
+		await sdk.cloud().deleteDirectory({ uuid: item.uuid })
+	}
+
+	server.invalidateTrashListing(req.username)
+	server.invalidateDirectoryListings(req.username)
+	server.changes.record([item.uuid], req.username)
+
+	return true
+}
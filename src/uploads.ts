@@ -0,0 +1,258 @@
+import pathModule from "path"
+import fs from "fs-extra"
+import { fastStringHash, sanitizeFileName } from "./utils"
+
+/**
+ * Root of the chunked upload namespace, compatible with Nextcloud's chunking v2: `/remote.php/dav/uploads/<user>/<transfer-id>/<chunk>`.
+ * The user segment exists for compatibility only, sessions always belong to the authenticated user.
+ */
+export const CHUNKED_UPLOADS_PATH = "/remote.php/dav/uploads"
+
+/**
+ * Name of the marker a client moves to the final destination to assemble the uploaded chunks.
+ */
+export const ASSEMBLE_MARKER = ".file"
+
+/**
+ * Sessions without activity for 24 hours are removed, same as Nextcloud.
+ */
+export const DEFAULT_UPLOAD_EXPIRY = 86400 * 1000
+
+export type ChunkedUploadPath = {
+	transferId: string
+	chunk: string | null
+}
+
+export type ChunkedUploadSession = {
+	transferId: string
+	username: string
+	destination: string | null
+	created: number
+	directory: string
+}
+
+export type UploadChunk = {
+	name: string
+	size: number
+	mtimeMs: number
+	path: string
+}
+
+const SESSION_FILE = ".session.json"
+
+/**
+ * Parse a path of the chunked upload namespace. Returns null for paths outside of it and for paths not pointing at a session or a chunk.
+ *
+ * @export
+ * @param {string} path
+ * @returns {(ChunkedUploadPath | null)}
+ */
+export function parseChunkedUploadPath(path: string): ChunkedUploadPath | null {
+	if (!path.startsWith(`${CHUNKED_UPLOADS_PATH}/`)) {
+		return null
+	}
+
+	const segments = path
+		.slice(CHUNKED_UPLOADS_PATH.length + 1)
+		.split("/")
+		.filter(segment => segment.length > 0)
+
+	if (segments.length < 2 || segments.length > 3) {
+		return null
+	}
+
+	return {
+		transferId: segments[1]!,
+		chunk: segments[2] ?? null
+	}
+}
+
+/**
+ * ChunkedUploads
+ * Stages the chunks of resumable uploads on disk until the client assembles them. Sessions are plain directories, so every worker of a cluster sees them.
+ * The modification time of a session directory changes with every chunk written, sessions whose directory was not touched within the expiry are removed.
+ *
+ * @export
+ * @class ChunkedUploads
+ * @typedef {ChunkedUploads}
+ */
+export class ChunkedUploads {
+	/**
+	 * Creates an instance of ChunkedUploads.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {string} path Directory the sessions are staged in.
+	 * @param {number} [expiry=DEFAULT_UPLOAD_EXPIRY] Milliseconds of inactivity after which a session is removed.
+	 */
+	public constructor(
+		public readonly path: string,
+		public readonly expiry: number = DEFAULT_UPLOAD_EXPIRY
+	) {}
+
+	/**
+	 * The directory of a session.
+	 *
+	 * @private
+	 * @param {string} transferId
+	 * @param {?string} [username]
+	 * @returns {string}
+	 */
+	private sessionDirectory(transferId: string, username?: string): string {
+		return pathModule.join(this.path, sanitizeFileName(fastStringHash(`${username ?? ""}/${transferId}`)))
+	}
+
+	/**
+	 * Start a new upload session. An existing session with the same transfer id is kept, so clients can resume it.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} transferId
+	 * @param {(string | null)} destination
+	 * @param {?string} [username]
+	 * @returns {Promise<ChunkedUploadSession>}
+	 */
+	public async create(transferId: string, destination: string | null, username?: string): Promise<ChunkedUploadSession> {
+		const existing = await this.get(transferId, username)
+
+		if (existing) {
+			return existing
+		}
+
+		const session: ChunkedUploadSession = {
+			transferId,
+			username: username ?? "",
+			destination,
+			created: Date.now(),
+			directory: this.sessionDirectory(transferId, username)
+		}
+
+		await fs.ensureDir(session.directory)
+		await fs.writeJSON(pathModule.join(session.directory, SESSION_FILE), session)
+
+		return session
+	}
+
+	/**
+	 * Get an upload session. Returns null if it does not exist or expired.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} transferId
+	 * @param {?string} [username]
+	 * @returns {Promise<ChunkedUploadSession | null>}
+	 */
+	public async get(transferId: string, username?: string): Promise<ChunkedUploadSession | null> {
+		const directory = this.sessionDirectory(transferId, username)
+
+		try {
+			const stat = await fs.stat(directory)
+
+			if (stat.mtimeMs + this.expiry <= Date.now()) {
+				await this.remove(directory)
+
+				return null
+			}
+
+			const session = (await fs.readJSON(pathModule.join(directory, SESSION_FILE))) as ChunkedUploadSession
+
+			if (session.transferId !== transferId || session.username !== (username ?? "")) {
+				return null
+			}
+
+			return {
+				...session,
+				directory
+			}
+		} catch {
+			return null
+		}
+	}
+
+	/**
+	 * The path a chunk is stored at.
+	 *
+	 * @public
+	 * @param {ChunkedUploadSession} session
+	 * @param {string} name
+	 * @returns {string}
+	 */
+	public chunkPath(session: ChunkedUploadSession, name: string): string {
+		return pathModule.join(session.directory, sanitizeFileName(name))
+	}
+
+	/**
+	 * List the chunks of a session in assembly order. Chunk names are numbers (chunking v2) or zero padded byte ranges (e.g. rclone), both sort naturally.
+	 *
+	 * @public
+	 * @async
+	 * @param {ChunkedUploadSession} session
+	 * @returns {Promise<UploadChunk[]>}
+	 */
+	public async chunks(session: ChunkedUploadSession): Promise<UploadChunk[]> {
+		const names = (await fs.readdir(session.directory)).filter(name => name !== SESSION_FILE && !name.endsWith(".part"))
+		const chunks: UploadChunk[] = []
+
+		for (const name of names) {
+			const path = pathModule.join(session.directory, name)
+			const stat = await fs.stat(path)
+
+			chunks.push({
+				name,
+				size: stat.size,
+				mtimeMs: stat.mtimeMs,
+				path
+			})
+		}
+
+		return chunks.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+	}
+
+	/**
+	 * Remove a session and all of it's chunks.
+	 *
+	 * @public
+	 * @async
+	 * @param {(ChunkedUploadSession | string)} session
+	 * @returns {Promise<void>}
+	 */
+	public async remove(session: ChunkedUploadSession | string): Promise<void> {
+		await fs.rm(typeof session === "string" ? session : session.directory, {
+			force: true,
+			maxRetries: 60 * 10,
+			recursive: true,
+			retryDelay: 100
+		})
+	}
+
+	/**
+	 * Remove all expired sessions.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<void>}
+	 */
+	public async cleanup(): Promise<void> {
+		if (!(await fs.exists(this.path))) {
+			return
+		}
+
+		const now = Date.now()
+
+		for (const entry of await fs.readdir(this.path)) {
+			const directory = pathModule.join(this.path, entry)
+
+			try {
+				const stat = await fs.stat(directory)
+
+				if (stat.mtimeMs + this.expiry <= now) {
+					await this.remove(directory)
+				}
+			} catch {
+				// Removed concurrently
+			}
+		}
+	}
+}
+
+export default ChunkedUploads
@@ -2,6 +2,9 @@ import pathModule from "path"
 import fs from "fs-extra"
 import os from "os"
 import { xxHash32 } from "js-xxhash"
+import { type Resource } from "."
+import { type CloudItem, type CloudItemTree, type FSStats } from "@filen/sdk"
+import { type Request, type Response } from "express"
 
 /**
  * Chunk large Promise.all executions.
@@ -31,34 +34,206 @@ export function removeLastSlash(str: string): string {
 }
 
 /**
- * Parse the requested byte range from the header.
+ * Encode a path so it can be used as a href.
  *
  * @export
- * @param {string} range
+ * @param {string} url
+ * @returns {string}
+ */
+export function encodeHref(url: string): string {
+	return url
+		.split("/")
+		.map(part => encodeURIComponent(part))
+		.join("/")
+}
+
+export type ByteRange = {
+	start: number
+	end: number
+}
+
+/**
+ * More ranges than this are most likely abuse, such requests are answered with the full representation.
+ */
+export const MAX_BYTE_RANGES = 100
+
+/**
+ * Parse a Range request header (RFC 7233 section 2.1), supporting several ranges, open ended ranges ("500-") and suffix ranges ("-500").
+ * Returns null if the header is malformed or should be ignored, in which case the full representation is sent.
+ * Unsatisfiable ranges are dropped, so an empty list means the request can not be satisfied at all.
+ *
+ * @export
+ * @param {string} header
+ * @param {number} totalLength
+ * @returns {(ByteRange[] | null)}
+ */
+export function parseByteRanges(header: string, totalLength: number): ByteRange[] | null {
+	const [unit, rangeValue] = header.split("=")
+
+	if (!unit || unit.trim().toLowerCase() !== "bytes" || !rangeValue) {
+		return null
+	}
+
+	const specs = rangeValue.split(",").map(spec => spec.trim())
+
+	if (specs.length > MAX_BYTE_RANGES) {
+		return null
+	}
+
+	const ranges: ByteRange[] = []
+
+	for (const spec of specs) {
+		const match = spec.match(/^(\d*)-(\d*)$/)
+
+		if (!match || (!match[1] && !match[2])) {
+			return null
+		}
+
+		if (!match[1]) {
+			const suffixLength = parseInt(match[2]!, 10)
+
+			if (suffixLength > 0 && totalLength > 0) {
+				ranges.push({
+					start: Math.max(0, totalLength - suffixLength),
+					end: totalLength - 1
+				})
+			}
+
+			continue
+		}
+
+		const start = parseInt(match[1], 10)
+		const end = match[2] ? parseInt(match[2], 10) : totalLength - 1
+
+		if (match[2] && end < start) {
+			return null
+		}
+
+		if (start < totalLength) {
+			ranges.push({
+				start,
+				end: Math.min(end, totalLength - 1)
+			})
+		}
+	}
+
+	return ranges
+}
+
+/**
+ * Lay out a multipart/byteranges body (RFC 7233 appendix A). Returns the header preceding each part, the closing delimiter and the length of the whole body.
+ *
+ * @export
+ * @param {ByteRange[]} ranges
+ * @param {string} contentType
  * @param {number} totalLength
- * @returns {({ start: number; end: number } | null)}
+ * @param {string} boundary
+ * @returns {{ headers: string[]; trailer: string; length: number }}
  */
-export function parseByteRange(range: string, totalLength: number): { start: number; end: number } | null {
-	const [unit, rangeValue] = range.split("=")
+export function multipartByteRanges(
+	ranges: ByteRange[],
+	contentType: string,
+	totalLength: number,
+	boundary: string
+): { headers: string[]; trailer: string; length: number } {
+	const headers = ranges.map(
+		range =>
+			`\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${range.start}-${range.end}/${totalLength}\r\n\r\n`
+	)
+	const trailer = `\r\n--${boundary}--\r\n`
+
+	return {
+		headers,
+		trailer,
+		length:
+			headers.reduce((length, header) => length + Buffer.byteLength(header), 0) +
+			ranges.reduce((length, range) => length + range.end - range.start + 1, 0) +
+			Buffer.byteLength(trailer)
+	}
+}
+
+export type UpdateRange =
+	| {
+			type: "append"
+	  }
+	| {
+			type: "range"
+			start: number
+			end: number | null
+	  }
+	| {
+			type: "suffix"
+			length: number
+	  }
+
+/**
+ * Parse the X-Update-Range header of a sabre/dav style partial update: "append", "bytes=start-end", "bytes=start-" or "bytes=-length" (relative to the end of the file).
+ *
+ * @export
+ * @param {string} header
+ * @returns {(UpdateRange | null)}
+ */
+export function parseUpdateRange(header: string): UpdateRange | null {
+	const value = header.trim().toLowerCase()
+
+	if (value === "append") {
+		return {
+			type: "append"
+		}
+	}
+
+	const suffix = value.match(/^bytes=-(\d+)$/)
+
+	if (suffix) {
+		return {
+			type: "suffix",
+			length: parseInt(suffix[1]!, 10)
+		}
+	}
+
+	const range = value.match(/^bytes=(\d+)-(\d+)?$/)
 
-	if (unit !== "bytes" || !rangeValue) {
+	if (!range) {
 		return null
 	}
 
-	const [startStr, endStr] = rangeValue.split("-")
+	const start = parseInt(range[1]!, 10)
+	const end = range[2] ? parseInt(range[2], 10) : null
 
-	if (!startStr) {
+	if (end !== null && end < start) {
 		return null
 	}
 
-	const start = parseInt(startStr, 10)
-	const end = endStr ? parseInt(endStr, 10) : totalLength - 1
+	return {
+		type: "range",
+		start,
+		end
+	}
+}
 
-	if (isNaN(start) || isNaN(end) || start < 0 || end >= totalLength || start > end) {
+/**
+ * Parse the Content-Range header of a partial PUT, e.g. "bytes 0-499/1234" or "bytes 0-499/*".
+ *
+ * @export
+ * @param {string} header
+ * @returns {(UpdateRange | null)}
+ */
+export function parseContentRange(header: string): UpdateRange | null {
+	const range = header.trim().match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/i)
+
+	if (!range) {
+		return null
+	}
+
+	const start = parseInt(range[1]!, 10)
+	const end = parseInt(range[2]!, 10)
+
+	if (end < start || (range[3] !== "*" && end >= parseInt(range[3]!, 10))) {
 		return null
 	}
 
 	return {
+		type: "range",
 		start,
 		end
 	}
@@ -140,10 +315,160 @@ export function pathToTempDiskFileId(path: string, username?: string): string {
 
 export function isValidDate(date: string): boolean {
 	try {
-		const d = new Date(date) as unknown as string
-
-		return d !== "Invalid Date"
+		return date.length > 0 && !isNaN(new Date(date).getTime())
 	} catch {
 		return false
 	}
 }
+
+export type ClientTimestamps = {
+	lastModified: number | null
+	creation: number | null
+}
+
+/**
+ * Parse a unix timestamp in (possibly fractional) seconds to milliseconds. Returns null if it is malformed.
+ *
+ * @param {(string | string[] | undefined)} value
+ * @returns {(number | null)}
+ */
+function secondsHeaderToMs(value: string | string[] | undefined): number | null {
+	if (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value.trim())) {
+		return null
+	}
+
+	const ms = Math.round(parseFloat(value.trim()) * 1000)
+
+	return ms > 0 ? ms : null
+}
+
+/**
+ * Read the modification and creation time a client sent along with an upload in the X-OC-Mtime and X-OC-CTime headers
+ * (unix timestamps in seconds, as sent by Nextcloud/ownCloud clients and rclone). Malformed values are ignored.
+ *
+ * @export
+ * @param {Request} req
+ * @returns {ClientTimestamps}
+ */
+export function clientTimestamps(req: Request): ClientTimestamps {
+	return {
+		lastModified: secondsHeaderToMs(req.headers["x-oc-mtime"]),
+		creation: secondsHeaderToMs(req.headers["x-oc-ctime"])
+	}
+}
+
+/**
+ * Tell the client that the modification time it sent was applied to the upload, Nextcloud clients and rclone expect `X-OC-MTime: accepted`.
+ *
+ * @export
+ * @param {Response} res
+ * @param {ClientTimestamps} timestamps
+ */
+export function acceptClientTimestamps(res: Response, timestamps: ClientTimestamps): void {
+	if (timestamps.lastModified !== null) {
+		res.set("X-OC-MTime", "accepted")
+	}
+}
+
+/**
+ * Build the strong entity tag of a resource. Files combine their UUID with their content hash (or their modification time and size if the hash is unknown),
+ * so the tag changes with the content while being the same for PROPFIND, GET and HEAD.
+ *
+ * @export
+ * @param {Resource} resource
+ * @returns {string}
+ */
+export function resourceETag(resource: Resource): string {
+	if (resource.type !== "file") {
+		return `"${resource.uuid}"`
+	}
+
+	const version =
+		typeof resource.hash === "string" && resource.hash.length > 0
+			? resource.hash.slice(0, 32)
+			: `${Math.floor(resource.mtimeMs).toString(16)}-${resource.size.toString(16)}`
+
+	return `"${resource.uuid}-${version}"`
+}
+
+/**
+ * Format the modification time of a resource as an HTTP date.
+ *
+ * @export
+ * @param {Resource} resource
+ * @returns {string}
+ */
+export function resourceLastModified(resource: Resource): string {
+	return new Date(resource.mtimeMs).toUTCString()
+}
+
+/**
+ * Convert a cloud item (e.g. an entry of a directory listing or tree) to stats, mirroring the stats of `sdk.fs().stat()`.
+ *
+ * @export
+ * @param {(CloudItem | CloudItemTree)} item
+ * @returns {FSStats}
+ */
+export function cloudItemToStats(item: CloudItem | CloudItemTree): FSStats {
+	if (item.type === "directory") {
+		return {
+			type: "directory",
+			uuid: item.uuid,
+			name: item.name,
+			size: 0,
+			mtimeMs: item.timestamp,
+			birthtimeMs: item.timestamp,
+			isDirectory: () => true,
+			isFile: () => false
+		}
+	}
+
+	return {
+		type: "file",
+		uuid: item.uuid,
+		name: item.name,
+		size: item.size,
+		mime: item.mime,
+		key: item.key,
+		lastModified: item.lastModified,
+		creation: item.creation,
+		hash: item.hash,
+		bucket: item.bucket,
+		region: item.region,
+		version: item.version,
+		chunks: item.chunks,
+		mtimeMs: item.lastModified,
+		birthtimeMs: item.creation ?? item.lastModified,
+		isDirectory: () => false,
+		isFile: () => true
+	}
+}
+
+/**
+ * Convert the stats of a storage item (e.g. an entry of a directory listing or tree) to a WebDAV resource.
+ *
+ * @export
+ * @param {FSStats} stats
+ * @param {string} path
+ * @returns {Resource}
+ */
+export function statsToResource(stats: FSStats, path: string): Resource {
+	return {
+		...stats,
+		url: `${path}${stats.type === "directory" && path !== "/" ? "/" : ""}`,
+		path,
+		isVirtual: false
+	}
+}
+
+/**
+ * Convert a cloud item to a WebDAV resource.
+ *
+ * @export
+ * @param {(CloudItem | CloudItemTree)} item
+ * @param {string} path
+ * @returns {Resource}
+ */
+export function cloudItemToResource(item: CloudItem | CloudItemTree, path: string): Resource {
+	return statsToResource(cloudItemToStats(item), path)
+}
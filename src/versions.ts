@@ -0,0 +1,203 @@
+import { type Request } from "express"
+import { type WebDAVServer as Server, type Resource } from "."
+import { type FilenSDK, type FileEncryptionVersion, type FileMetadata } from "@filen/sdk"
+import pathModule from "path"
+import { isPathInside } from "./locks"
+import { statsToResource } from "./utils"
+import { isTrashPath } from "./trash"
+
+/**
+ * Root of the read-only namespace that mirrors the cloud drive and exposes the previous versions of every file, only available if the server was started with `enableVersions`.
+ * `/.versions/<path>/` is a collection listing the versions of the file at `<path>`, which can be downloaded with GET and restored with a COPY onto `<path>`.
+ */
+export const VERSIONS_PATH = "/.versions"
+
+/**
+ * Check if a path lies inside the versions namespace of the server.
+ *
+ * @export
+ * @param {Server} server
+ * @param {string} path
+ * @returns {boolean}
+ */
+export function isVersionsPath(server: Server, path: string): boolean {
+	return server.enableVersions && isPathInside(path, VERSIONS_PATH)
+}
+
+/**
+ * The path of the version history collection of a file.
+ *
+ * @export
+ * @param {string} path
+ * @returns {string}
+ */
+export function versionHistoryPath(path: string): string {
+	return path === "/" ? VERSIONS_PATH : `${VERSIONS_PATH}${path}`
+}
+
+/**
+ * List all versions of a file, including the current one, oldest first.
+ *
+ * @export
+ * @async
+ * @param {FilenSDK} sdk
+ * @param {Resource} file
+ * @returns {Promise<Resource[]>}
+ */
+export async function fileVersions(sdk: FilenSDK, file: Resource): Promise<Resource[]> {
+	const historyPath = versionHistoryPath(file.path)
+	const { versions } = await sdk.cloud().fileVersions({ uuid: file.uuid })
+	const resources: (Resource & { timestamp: number })[] = []
+
+	for (const version of versions) {
+		let metadata: FileMetadata
+
+		try {
+			metadata = await sdk.crypto().decrypt().fileMetadata({ metadata: version.metadata })
+		} catch {
+			continue
+		}
+
+		if (metadata.name.length === 0) {
+			continue
+		}
+
+		// Versions are named by their UUID, the extension is kept so clients pick the right application to open them
+		const name = `${version.uuid}${pathModule.posix.extname(metadata.name)}`
+		const path = pathModule.posix.join(historyPath, name)
+
+		resources.push({
+			type: "file",
+			uuid: version.uuid,
+			name,
+			size: metadata.size,
+			mime: metadata.mime,
+			key: metadata.key,
+			lastModified: metadata.lastModified,
+			creation: metadata.creation,
+			hash: metadata.hash,
+			bucket: version.bucket,
+			region: version.region,
+			version: version.version as FileEncryptionVersion,
+			chunks: version.chunks,
+			mtimeMs: metadata.lastModified,
+			birthtimeMs: metadata.creation ?? metadata.lastModified,
+			isDirectory: () => false,
+			isFile: () => true,
+			url: path,
+			path,
+			isVirtual: false,
+			versionOf: file.path,
+			timestamp: sdk.utils.convertTimestampToMs(version.timestamp)
+		})
+	}
+
+	return resources.sort((a, b) => a.timestamp - b.timestamp).map(({ timestamp: _, ...resource }) => resource)
+}
+
+/**
+ * Resolve a path inside the versions namespace. Directories are mirrored, files become collections of their versions.
+ *
+ * @export
+ * @async
+ * @param {Server} server
+ * @param {Request} req
+ * @param {string} path
+ * @returns {Promise<Resource | null>}
+ */
+export async function versionsPathToResource(server: Server, req: Request, path: string): Promise<Resource | null> {
+	const sdk = server.getSDKForUser(req.username)
+	const mirrored = path.slice(VERSIONS_PATH.length) || "/"
+
+	if (!sdk || isVersionsPath(server, mirrored) || isTrashPath(server, mirrored)) {
+		return null
+	}
+
+	const resource = await server.pathToResource(req, mirrored)
+
+	if (resource && resource.type === "directory") {
+		return {
+			...resource,
+			path,
+			url: `${path}/`
+		}
+	}
+
+	if (resource) {
+		if (resource.isVirtual || resource.tempDiskId) {
+			return null
+		}
+
+		return {
+			type: "directory",
+			uuid: resource.uuid,
+			name: resource.name,
+			size: 0,
+			mtimeMs: resource.mtimeMs,
+			birthtimeMs: resource.birthtimeMs,
+			isDirectory: () => true,
+			isFile: () => false,
+			url: `${path}/`,
+			path,
+			isVirtual: false,
+			versionHistoryOf: mirrored
+		}
+	}
+
+	const file = await server.pathToResource(req, pathModule.posix.dirname(mirrored))
+
+	if (!file || file.type !== "file" || file.isVirtual || file.tempDiskId) {
+		return null
+	}
+
+	return (await fileVersions(sdk, file)).find(version => version.path === path) ?? null
+}
+
+/**
+ * List the children of a collection inside the versions namespace.
+ *
+ * @export
+ * @async
+ * @param {Server} server
+ * @param {Request} req
+ * @param {Resource} resource
+ * @returns {Promise<Resource[]>}
+ */
+export async function versionsChildren(server: Server, req: Request, resource: Resource): Promise<Resource[]> {
+	const sdk = server.getSDKForUser(req.username)
+
+	if (!sdk) {
+		return []
+	}
+
+	if (resource.versionHistoryOf) {
+		const file = await server.pathToResource(req, resource.versionHistoryOf)
+
+		return file && file.type === "file" ? await fileVersions(sdk, file) : []
+	}
+
+	const mirrored = resource.path.slice(VERSIONS_PATH.length) || "/"
+
+	return (await server.listDirectory({ uuid: resource.uuid, path: mirrored }, req.username)).map(item => {
+		const child = statsToResource(item, pathModule.posix.join(resource.path, item.name))
+
+		if (child.type === "directory") {
+			return child
+		}
+
+		return {
+			type: "directory",
+			uuid: child.uuid,
+			name: child.name,
+			size: 0,
+			mtimeMs: child.mtimeMs,
+			birthtimeMs: child.birthtimeMs,
+			isDirectory: () => true,
+			isFile: () => false,
+			url: `${child.path}/`,
+			path: child.path,
+			isVirtual: false,
+			versionHistoryOf: child.path.slice(VERSIONS_PATH.length)
+		}
+	})
+}
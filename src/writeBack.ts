@@ -0,0 +1,260 @@
+import pathModule from "path"
+import fs from "fs-extra"
+import { type WebDAVServer as Server, type Resource } from "."
+import { type StorageFile } from "./storage"
+
+/**
+ * Delay before a failed upload is retried. It doubles with every failed attempt.
+ */
+export const DEFAULT_WRITE_BACK_RETRY_DELAY = 5000
+
+/**
+ * Upper bound of the retry delay.
+ */
+export const MAX_WRITE_BACK_RETRY_DELAY = 3600 * 1000
+
+/**
+ * WriteBackQueue
+ * Uploads the files PUT requests stored on the temp disk in write-back mode. Pending files are temp disk files marked with `pendingUpload`,
+ * so they are served from disk until their upload finished and the queue survives restarts together with the temp disk file index.
+ * Every user has their own queue, files are uploaded one after another.
+ *
+ * @export
+ * @class WriteBackQueue
+ * @typedef {WriteBackQueue}
+ */
+export class WriteBackQueue {
+	private readonly running: Record<string, Promise<void>> = {}
+	private readonly attempts: Record<string, number> = {}
+	private readonly retryTimeouts: Record<string, ReturnType<typeof setTimeout>> = {}
+	private stopped: boolean = false
+
+	/**
+	 * Creates an instance of WriteBackQueue.
+	 *
+	 * @constructor
+	 * @public
+	 * @param {Server} server
+	 * @param {number} [retryDelay=DEFAULT_WRITE_BACK_RETRY_DELAY] Milliseconds before the first retry of a failed upload.
+	 */
+	public constructor(
+		private readonly server: Server,
+		public readonly retryDelay: number = DEFAULT_WRITE_BACK_RETRY_DELAY
+	) {}
+
+	/**
+	 * All files of a user still waiting to be uploaded.
+	 *
+	 * @public
+	 * @param {string} username
+	 * @returns {Resource[]}
+	 */
+	public pending(username: string): Resource[] {
+		return Object.values(this.server.getTempDiskFilesForUser(username)).filter(resource => resource.pendingUpload)
+	}
+
+	/**
+	 * Start working off the queue of a user, unless it is already running or waiting for a retry.
+	 *
+	 * @public
+	 * @param {?string} [username]
+	 */
+	public schedule(username?: string): void {
+		if (!username || this.stopped || this.running[username] || this.retryTimeouts[username]) {
+			return
+		}
+
+		this.running[username] = this.process(username).finally(() => {
+			delete this.running[username]
+
+			// Files queued while the last upload finished
+			if (!this.retryTimeouts[username] && this.pending(username).length > 0) {
+				this.schedule(username)
+			}
+		})
+	}
+
+	/**
+	 * Upload all pending files of a user. Failed uploads are retried with an exponential backoff.
+	 *
+	 * @private
+	 * @async
+	 * @param {string} username
+	 * @returns {Promise<void>}
+	 */
+	private async process(username: string): Promise<void> {
+		const failed = new Set<string>()
+
+		while (!this.stopped) {
+			const resource = this.pending(username).find(pending => !failed.has(pending.uuid))
+
+			if (!resource) {
+				break
+			}
+
+			try {
+				await this.upload(resource, username)
+			} catch (e) {
+				this.server.logger.log("error", e, "writeBack")
+
+				failed.add(resource.uuid)
+			}
+		}
+
+		if (failed.size === 0) {
+			delete this.attempts[username]
+
+			return
+		}
+
+		const attempts = (this.attempts[username] ?? 0) + 1
+
+		this.attempts[username] = attempts
+
+		if (this.stopped) {
+			return
+		}
+
+		this.retryTimeouts[username] = setTimeout(
+			() => {
+				delete this.retryTimeouts[username]
+
+				this.schedule(username)
+			},
+			Math.min(this.retryDelay * 2 ** (attempts - 1), MAX_WRITE_BACK_RETRY_DELAY)
+		)
+	}
+
+	/**
+	 * Upload a pending file. Once it is stored, the cloud file takes over it's dead properties and the temp disk copy is removed.
+	 * The temp disk file might change while it is uploaded, it stays pending then. If it was deleted or moved away in the meantime, the upload is deleted again.
+	 * Parent directories are not created, deleting or moving a directory takes the pending files inside of it along.
+	 *
+	 * @private
+	 * @async
+	 * @param {Resource} resource
+	 * @param {string} username
+	 * @returns {Promise<void>}
+	 */
+	private async upload(resource: Resource, username: string): Promise<void> {
+		const storage = this.server.getStorageForUser(username)
+
+		if (!storage) {
+			throw new Error("Could not find storage for user.")
+		}
+
+		if (resource.type !== "file" || !resource.tempDiskId) {
+			throw new Error("Invalid pending upload.")
+		}
+
+		const tempPath = pathModule.join(this.server.tempDiskPath, resource.tempDiskId)
+
+		const source = fs.createReadStream(tempPath)
+
+		// The storage might reject the upload without reading the stream, the temp disk file might even be gone by the time it opens.
+		// Read errors reach the storage through the stream itself, the stream is always closed so retries do not leak file descriptors
+		source.on("error", () => {})
+
+		let item: StorageFile
+
+		try {
+			item = await storage.writeFile({
+				path: resource.path,
+				source,
+				lastModified: resource.lastModified,
+				creation: resource.birthtimeMs
+			})
+		} finally {
+			source.destroy()
+		}
+
+		await this.server.invalidateDirectoryListing(resource.path, username)
+
+		const files = this.server.getTempDiskFilesForUser(username)
+		const current = files[resource.path]
+
+		if (current === resource) {
+			await this.server.deadProperties.move(resource.uuid, item.uuid, username)
+
+			delete files[resource.path]
+
+			await fs.rm(tempPath, {
+				force: true,
+				maxRetries: 60 * 10,
+				recursive: true,
+				retryDelay: 100
+			})
+
+			return
+		}
+
+		if (!current) {
+			await storage.unlink({
+				path: resource.path,
+				permanent: true
+			})
+
+			await this.server.invalidateDirectoryListing(resource.path, username)
+		}
+	}
+
+	/**
+	 * Delete the cloud file a pending file replaces, used when the pending file is deleted or moved away before it was uploaded.
+	 *
+	 * @public
+	 * @async
+	 * @param {string} path
+	 * @param {?string} [username]
+	 * @returns {Promise<void>}
+	 */
+	public async removeReplaced(path: string, username?: string): Promise<void> {
+		const storage = this.server.getStorageForUser(username)
+
+		if (!storage) {
+			return
+		}
+
+		try {
+			await storage.stat({ path })
+		} catch {
+			return
+		}
+
+		await storage.unlink({
+			path,
+			permanent: false
+		})
+
+		await this.server.invalidateDirectoryListing(path, username)
+	}
+
+	/**
+	 * Wait until no upload is running anymore. Uploads waiting for a retry are not waited for.
+	 *
+	 * @public
+	 * @async
+	 * @returns {Promise<void>}
+	 */
+	public async idle(): Promise<void> {
+		while (Object.keys(this.running).length > 0) {
+			await Promise.all(Object.values(this.running))
+		}
+	}
+
+	/**
+	 * Stop scheduling uploads. A running upload is not interrupted, pending files are uploaded after the next start.
+	 *
+	 * @public
+	 */
+	public stop(): void {
+		this.stopped = true
+
+		for (const username in this.retryTimeouts) {
+			clearTimeout(this.retryTimeouts[username])
+
+			delete this.retryTimeouts[username]
+		}
+	}
+}
+
+export default WriteBackQueue
@@ -0,0 +1,189 @@
+import { parseStringPromise } from "xml2js"
+
+export const DAV_NAMESPACE = "DAV:"
+
+/**
+ * Methods whose request body is always treated as XML, whatever content type the client sent.
+ */
+export const XML_BODY_METHODS = ["PROPFIND", "PROPPATCH", "LOCK", "REPORT"]
+
+export type XMLElement = {
+	name: string
+	namespace: string
+	attributes: Record<string, string>
+	children: XMLElement[]
+	text: string
+}
+
+/**
+ * A node as xml2js parses it with the xmlns, explicitChildren, preserveChildrenOrder and charsAsChildren options.
+ * Text content is a child named "__text__".
+ */
+type XML2JSNode = {
+	"#name"?: string
+	$ns?: {
+		local?: unknown
+		uri?: unknown
+	}
+	$?: Record<string, string | { value: string; prefix?: string } | undefined>
+	$$?: XML2JSNode[]
+	_?: unknown
+}
+
+/**
+ * Convert a node parsed by xml2js into an element. Namespace declarations are dropped from the attributes, text children are joined and trimmed.
+ *
+ * @param {XML2JSNode} node
+ * @returns {XMLElement}
+ */
+function toXMLElement(node: XML2JSNode): XMLElement {
+	const element: XMLElement = {
+		name: node.$ns && typeof node.$ns.local === "string" ? node.$ns.local : String(node["#name"]).split(":").pop() ?? "",
+		namespace: node.$ns && typeof node.$ns.uri === "string" ? node.$ns.uri : "",
+		attributes: {},
+		children: [],
+		text: ""
+	}
+
+	if (node.$) {
+		for (const key in node.$) {
+			const attribute = node.$[key]
+
+			if (!attribute || key === "xmlns" || (typeof attribute !== "string" && attribute.prefix === "xmlns")) {
+				continue
+			}
+
+			element.attributes[key] = typeof attribute === "string" ? attribute : attribute.value
+		}
+	}
+
+	if (Array.isArray(node.$$)) {
+		for (const child of node.$$) {
+			if (child["#name"] === "__text__") {
+				element.text += typeof child._ === "string" ? child._ : ""
+
+				continue
+			}
+
+			element.children.push(toXMLElement(child))
+		}
+	}
+
+	element.text = element.text.trim()
+
+	return element
+}
+
+/**
+ * Parse a XML request body into a namespace aware element tree. Children keep their document order.
+ * Returns null if the body is empty or not valid XML.
+ *
+ * @export
+ * @async
+ * @param {unknown} body
+ * @returns {Promise<XMLElement | null>}
+ */
+export async function parseXML(body: unknown): Promise<XMLElement | null> {
+	if (typeof body !== "string" && !(body instanceof Buffer)) {
+		return null
+	}
+
+	const input = body.toString("utf-8").trim()
+
+	if (input.length === 0) {
+		return null
+	}
+
+	try {
+		const parsed: Record<string, XML2JSNode | undefined> = await parseStringPromise(input, {
+			xmlns: true,
+			explicitChildren: true,
+			preserveChildrenOrder: true,
+			charsAsChildren: true,
+			includeWhiteChars: false
+		})
+
+		const rootKey = Object.keys(parsed)[0]
+
+		const root = rootKey ? parsed[rootKey] : undefined
+
+		if (!root) {
+			return null
+		}
+
+		return toXMLElement(root)
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Find the first direct child with the given name and namespace.
+ *
+ * @export
+ * @param {XMLElement | null | undefined} element
+ * @param {string} name
+ * @param {string} [namespace=DAV_NAMESPACE]
+ * @returns {XMLElement | null}
+ */
+export function findChild(element: XMLElement | null | undefined, name: string, namespace: string = DAV_NAMESPACE): XMLElement | null {
+	if (!element) {
+		return null
+	}
+
+	return element.children.find(child => child.name === name && child.namespace === namespace) ?? null
+}
+
+/**
+ * Convert an element to an object xml2js' Builder understands. Namespaces other than DAV: get their own prefix declaration.
+ *
+ * @export
+ * @param {XMLElement} element
+ * @param {Record<string, string>} [prefixes={}] Namespace to prefix map of the already declared namespaces.
+ * @returns {Record<string, unknown>}
+ */
+export function toBuilderObject(element: XMLElement, prefixes: Record<string, string> = {}): Record<string, unknown> {
+	const declared = { ...prefixes }
+	const attributes: Record<string, string> = { ...element.attributes }
+	let prefix: string | null = null
+
+	if (element.namespace === DAV_NAMESPACE) {
+		prefix = "D"
+	} else if (element.namespace.length > 0) {
+		if (!declared[element.namespace]) {
+			declared[element.namespace] = `ns${Object.keys(declared).length}`
+			attributes[`xmlns:${declared[element.namespace]}`] = element.namespace
+		}
+
+		prefix = declared[element.namespace]!
+	} else {
+		attributes["xmlns"] = ""
+	}
+
+	const value: Record<string, unknown> = {}
+
+	if (Object.keys(attributes).length > 0) {
+		value.$ = attributes
+	}
+
+	if (element.text.length > 0) {
+		value._ = element.text
+	}
+
+	for (const child of element.children) {
+		const [childKey, childValue] = Object.entries(toBuilderObject(child, declared))[0]!
+		const existing = value[childKey]
+
+		if (typeof existing === "undefined") {
+			value[childKey] = childValue
+		} else if (Array.isArray(existing)) {
+			existing.push(childValue)
+		} else {
+			value[childKey] = [existing, childValue]
+		}
+	}
+
+	return {
+		[prefix ? `${prefix}:${element.name}` : element.name]: Object.keys(value).length > 0 ? value : ""
+	}
+}
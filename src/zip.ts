@@ -0,0 +1,287 @@
+import { Readable, pipeline } from "stream"
+import zlib from "zlib"
+
+export type ZipEntry =
+	| {
+			type: "directory"
+			/**
+			 * Path of the entry inside the archive, without leading or trailing slash.
+			 */
+			name: string
+			mtimeMs: number
+	  }
+	| {
+			type: "file"
+			/**
+			 * Path of the entry inside the archive, without leading slash.
+			 */
+			name: string
+			mtimeMs: number
+			/**
+			 * Open the content of the file. Called once the entry is written, so only one file is read at a time.
+			 */
+			open: () => Readable
+	  }
+
+type CentralDirectoryRecord = {
+	name: Buffer
+	type: ZipEntry["type"]
+	mtimeMs: number
+	crc: number
+	compressedSize: number
+	size: number
+	offset: number
+}
+
+const ZIP64_VERSION = 45
+const FLAG_DATA_DESCRIPTOR = 0x0008
+const FLAG_UTF8 = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+const MAX_UINT16 = 0xffff
+const MAX_UINT32 = 0xffffffff
+
+const CRC_TABLE = new Int32Array(256).map((_, index) => {
+	let crc = index
+
+	for (let bit = 0; bit < 8; bit++) {
+		crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+	}
+
+	return crc
+})
+
+/**
+ * Update a CRC-32 checksum with the given data.
+ *
+ * @export
+ * @param {Buffer} data
+ * @param {number} [crc=0]
+ * @returns {number}
+ */
+export function crc32(data: Buffer, crc: number = 0): number {
+	let value = crc ^ -1
+
+	for (let i = 0; i < data.length; i++) {
+		value = CRC_TABLE[(value ^ data[i]!) & 0xff]! ^ (value >>> 8)
+	}
+
+	return (value ^ -1) >>> 0
+}
+
+/**
+ * Convert a timestamp to the MS-DOS time and date fields used by ZIP headers.
+ *
+ * @param {number} mtimeMs
+ * @returns {{ time: number; date: number }}
+ */
+function dosDateTime(mtimeMs: number): { time: number; date: number } {
+	const date = new Date(mtimeMs)
+
+	if (isNaN(date.getTime()) || date.getFullYear() < 1980) {
+		// The earliest date MS-DOS timestamps can represent, 1980-01-01 00:00
+		return { time: 0, date: (1 << 5) | 1 }
+	}
+
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+	}
+}
+
+/**
+ * Build the local file header of an entry. Files are written with a data descriptor, their sizes are announced as ZIP64 values.
+ *
+ * @param {CentralDirectoryRecord} record
+ * @returns {Buffer}
+ */
+function localFileHeader(record: CentralDirectoryRecord): Buffer {
+	const { time, date } = dosDateTime(record.mtimeMs)
+	const isFile = record.type === "file"
+	const extra = Buffer.alloc(isFile ? 20 : 0)
+	const header = Buffer.alloc(30)
+
+	if (isFile) {
+		// ZIP64 extended information, the real sizes follow in the data descriptor
+		extra.writeUInt16LE(0x0001, 0)
+		extra.writeUInt16LE(16, 2)
+		extra.writeBigUInt64LE(BigInt(0), 4)
+		extra.writeBigUInt64LE(BigInt(0), 12)
+	}
+
+	header.writeUInt32LE(0x04034b50, 0)
+	header.writeUInt16LE(ZIP64_VERSION, 4)
+	header.writeUInt16LE(isFile ? FLAG_DATA_DESCRIPTOR | FLAG_UTF8 : FLAG_UTF8, 6)
+	header.writeUInt16LE(isFile ? METHOD_DEFLATE : METHOD_STORE, 8)
+	header.writeUInt16LE(time, 10)
+	header.writeUInt16LE(date, 12)
+	header.writeUInt32LE(0, 14)
+	header.writeUInt32LE(isFile ? MAX_UINT32 : 0, 18)
+	header.writeUInt32LE(isFile ? MAX_UINT32 : 0, 22)
+	header.writeUInt16LE(record.name.length, 26)
+	header.writeUInt16LE(extra.length, 28)
+
+	return Buffer.concat([header, record.name, extra])
+}
+
+/**
+ * Build the ZIP64 data descriptor written after the content of a file.
+ *
+ * @param {CentralDirectoryRecord} record
+ * @returns {Buffer}
+ */
+function dataDescriptor(record: CentralDirectoryRecord): Buffer {
+	const descriptor = Buffer.alloc(24)
+
+	descriptor.writeUInt32LE(0x08074b50, 0)
+	descriptor.writeUInt32LE(record.crc, 4)
+	descriptor.writeBigUInt64LE(BigInt(record.compressedSize), 8)
+	descriptor.writeBigUInt64LE(BigInt(record.size), 16)
+
+	return descriptor
+}
+
+/**
+ * Build the central directory header of an entry. Sizes and offset are always stored in the ZIP64 extra field.
+ *
+ * @param {CentralDirectoryRecord} record
+ * @returns {Buffer}
+ */
+function centralDirectoryHeader(record: CentralDirectoryRecord): Buffer {
+	const { time, date } = dosDateTime(record.mtimeMs)
+	const isFile = record.type === "file"
+	const extra = Buffer.alloc(28)
+	const header = Buffer.alloc(46)
+
+	extra.writeUInt16LE(0x0001, 0)
+	extra.writeUInt16LE(24, 2)
+	extra.writeBigUInt64LE(BigInt(record.size), 4)
+	extra.writeBigUInt64LE(BigInt(record.compressedSize), 12)
+	extra.writeBigUInt64LE(BigInt(record.offset), 20)
+
+	header.writeUInt32LE(0x02014b50, 0)
+	// Made by UNIX, so the external attributes below carry the file mode
+	header.writeUInt16LE((3 << 8) | ZIP64_VERSION, 4)
+	header.writeUInt16LE(ZIP64_VERSION, 6)
+	header.writeUInt16LE(isFile ? FLAG_DATA_DESCRIPTOR | FLAG_UTF8 : FLAG_UTF8, 8)
+	header.writeUInt16LE(isFile ? METHOD_DEFLATE : METHOD_STORE, 10)
+	header.writeUInt16LE(time, 12)
+	header.writeUInt16LE(date, 14)
+	header.writeUInt32LE(record.crc, 16)
+	header.writeUInt32LE(MAX_UINT32, 20)
+	header.writeUInt32LE(MAX_UINT32, 24)
+	header.writeUInt16LE(record.name.length, 28)
+	header.writeUInt16LE(extra.length, 30)
+	header.writeUInt16LE(0, 32)
+	header.writeUInt16LE(0, 34)
+	header.writeUInt16LE(0, 36)
+	header.writeUInt32LE((((isFile ? 0o100644 : 0o040755) << 16) | (isFile ? 0 : 0x10)) >>> 0, 38)
+	header.writeUInt32LE(MAX_UINT32, 42)
+
+	return Buffer.concat([header, record.name, extra])
+}
+
+/**
+ * Build the ZIP64 end of central directory record, it's locator and the classic end of central directory record.
+ *
+ * @param {number} entries
+ * @param {number} size Size of the central directory.
+ * @param {number} offset Offset of the central directory.
+ * @returns {Buffer}
+ */
+function endOfCentralDirectory(entries: number, size: number, offset: number): Buffer {
+	const record = Buffer.alloc(56)
+	const locator = Buffer.alloc(20)
+	const end = Buffer.alloc(22)
+
+	record.writeUInt32LE(0x06064b50, 0)
+	record.writeBigUInt64LE(BigInt(44), 4)
+	record.writeUInt16LE((3 << 8) | ZIP64_VERSION, 12)
+	record.writeUInt16LE(ZIP64_VERSION, 14)
+	record.writeUInt32LE(0, 16)
+	record.writeUInt32LE(0, 20)
+	record.writeBigUInt64LE(BigInt(entries), 24)
+	record.writeBigUInt64LE(BigInt(entries), 32)
+	record.writeBigUInt64LE(BigInt(size), 40)
+	record.writeBigUInt64LE(BigInt(offset), 48)
+
+	locator.writeUInt32LE(0x07064b50, 0)
+	locator.writeUInt32LE(0, 4)
+	locator.writeBigUInt64LE(BigInt(offset + size), 8)
+	locator.writeUInt32LE(1, 16)
+
+	end.writeUInt32LE(0x06054b50, 0)
+	end.writeUInt16LE(MAX_UINT16, 8)
+	end.writeUInt16LE(MAX_UINT16, 10)
+	end.writeUInt32LE(MAX_UINT32, 12)
+	end.writeUInt32LE(MAX_UINT32, 16)
+
+	return Buffer.concat([record, locator, end])
+}
+
+/**
+ * Create a ZIP64 archive as a stream. Entries are pulled from the iterable one at a time and file contents are deflated while they are read,
+ * nothing is buffered beyond the stream's high water mark. Destroying the returned stream stops the iteration and destroys the file currently being read.
+ *
+ * @export
+ * @param {(AsyncIterable<ZipEntry> | Iterable<ZipEntry>)} entries
+ * @returns {Readable}
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): Readable {
+	return Readable.from(
+		(async function* () {
+			const records: CentralDirectoryRecord[] = []
+			let offset = 0
+
+			for await (const entry of entries) {
+				const record: CentralDirectoryRecord = {
+					name: Buffer.from(entry.type === "directory" ? `${entry.name}/` : entry.name, "utf-8"),
+					type: entry.type,
+					mtimeMs: entry.mtimeMs,
+					crc: 0,
+					compressedSize: 0,
+					size: 0,
+					offset
+				}
+				const header = localFileHeader(record)
+
+				offset += header.length
+
+				yield header
+
+				if (entry.type === "file") {
+					const deflate = zlib.createDeflateRaw()
+					const source = entry.open()
+
+					source.on("data", (chunk: Buffer) => {
+						record.crc = crc32(chunk, record.crc)
+						record.size += chunk.length
+					})
+
+					pipeline(source, deflate, () => {})
+
+					for await (const chunk of deflate as AsyncIterable<Buffer>) {
+						record.compressedSize += chunk.length
+
+						yield chunk
+					}
+
+					const descriptor = dataDescriptor(record)
+
+					offset += record.compressedSize + descriptor.length
+
+					yield descriptor
+				}
+
+				records.push(record)
+			}
+
+			const centralDirectory = Buffer.concat(records.map(record => centralDirectoryHeader(record)))
+
+			yield Buffer.concat([centralDirectory, endOfCentralDirectory(records.length, centralDirectory.length, offset)])
+		})(),
+		{
+			objectMode: false
+		}
+	)
+}